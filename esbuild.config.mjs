@@ -9,6 +9,33 @@ if you want to view the source, please visit the github repository of this plugi
 
 const prod = (process.argv[2] === "production");
 
+// O merge driver roda fora do Obsidian (chamado pelo git), então é empacotado à parte
+// e embutido no main.js como texto; o GitManager grava o arquivo dentro de .git/
+const mergeDriver = await esbuild.build({
+    entryPoints: ["src/mergeDriver.ts"],
+    bundle: true,
+    write: false,
+    format: "cjs",
+    target: "es2020",
+    platform: "node",
+    minify: prod,
+    external: [...builtins],
+    logLevel: "info",
+});
+
+// O filtro de criptografia também é chamado pelo git (clean/smudge/textconv/merge)
+const cryptFilter = await esbuild.build({
+    entryPoints: ["src/cryptFilter.ts"],
+    bundle: true,
+    write: false,
+    format: "cjs",
+    target: "es2020",
+    platform: "node",
+    minify: prod,
+    external: [...builtins],
+    logLevel: "info",
+});
+
 const context = await esbuild.context({
     banner: {
         js: banner,
@@ -37,6 +64,10 @@ const context = await esbuild.context({
     treeShaking: true,
     outfile: "main.js",
     platform: "node", // ADICIONE OU ALTERE ESTA LINHA
+    define: {
+        MERGE_DRIVER_SOURCE: JSON.stringify(mergeDriver.outputFiles[0].text),
+        CRYPT_FILTER_SOURCE: JSON.stringify(cryptFilter.outputFiles[0].text),
+    },
 });
 
 if (prod) {
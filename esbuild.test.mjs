@@ -0,0 +1,60 @@
+import esbuild from "esbuild";
+import process from "process";
+import builtins from "builtin-modules";
+import { spawnSync } from "child_process";
+import { mkdtempSync, readdirSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+
+// Os testes rodam no Node, sem o Obsidian: o módulo "obsidian" vira um stub com o mínimo usado
+// pelo código testado (idioma da interface e o mesmo moment que o Obsidian exporta)
+const obsidianStub = {
+    name: "obsidian-stub",
+    setup(build) {
+        build.onResolve({ filter: /^obsidian$/ }, () => ({ path: "obsidian", namespace: "obsidian-stub" }));
+        build.onLoad({ filter: /.*/, namespace: "obsidian-stub" }, () => ({
+            contents: "export const getLanguage = () => 'en'; export { default as moment } from 'moment';",
+            resolveDir: process.cwd(),
+            loader: "js",
+        }));
+    },
+};
+
+// Scripts chamados pelo git, embutidos como texto como no build do plugin (ver esbuild.config.mjs)
+const gitScript = async (entryPoint) => (await esbuild.build({
+    entryPoints: [entryPoint],
+    bundle: true,
+    write: false,
+    format: "cjs",
+    target: "es2020",
+    platform: "node",
+    external: [...builtins],
+    logLevel: "warning",
+})).outputFiles[0].text;
+
+const entryPoints = readdirSync("src").filter(file => file.endsWith(".test.ts")).map(file => `src/${file}`);
+const outdir = mkdtempSync(path.join(tmpdir(), "github-sync-tests-"));
+
+try {
+    await esbuild.build({
+        entryPoints,
+        bundle: true,
+        outdir,
+        outExtension: { ".js": ".cjs" },
+        format: "cjs",
+        target: "es2022",
+        platform: "node",
+        external: [...builtins],
+        plugins: [obsidianStub],
+        define: {
+            MERGE_DRIVER_SOURCE: JSON.stringify(await gitScript("src/mergeDriver.ts")),
+            CRYPT_FILTER_SOURCE: JSON.stringify(await gitScript("src/cryptFilter.ts")),
+        },
+        logLevel: "warning",
+    });
+    const files = readdirSync(outdir).map(file => path.join(outdir, file));
+    const result = spawnSync(process.execPath, ["--test", ...files], { stdio: "inherit" });
+    process.exitCode = result.status ?? 1;
+} finally {
+    rmSync(outdir, { recursive: true, force: true });
+}
@@ -0,0 +1,90 @@
+import { moment } from 'obsidian';
+import { CommitFileChange } from './gitManager';
+import { formatDate, t } from './i18n';
+
+/**
+ * Dados disponíveis para os placeholders da mensagem de commit
+ */
+export interface CommitTemplateContext {
+	date: Date;
+	// Formato do moment para {date} (vazio = padrão do idioma)
+	dateFormat: string;
+	changes: CommitFileChange[];
+	// Máximo de arquivos listados em {files} (0 = todos)
+	fileLimit: number;
+	device: string;
+	hostname: string;
+	vault: string;
+	source: string;
+}
+
+// Placeholders aceitos, na ordem em que aparecem na descrição das configurações
+export const COMMIT_PLACEHOLDERS = [
+	'date', 'files', 'count', 'added', 'modified', 'deleted', 'renamed', 'device', 'hostname', 'vault', 'source'
+];
+
+/**
+ * Conta as alterações por tipo (status de uma letra do git)
+ */
+function countChanges(changes: CommitFileChange[]): Record<'added' | 'modified' | 'deleted' | 'renamed', number> {
+	const counts = { added: 0, modified: 0, deleted: 0, renamed: 0 };
+	for (const change of changes) {
+		switch (change.status) {
+			case 'A':
+				counts.added++;
+				break;
+			case 'D':
+				counts.deleted++;
+				break;
+			case 'R':
+				counts.renamed++;
+				break;
+			default:
+				counts.modified++;
+		}
+	}
+	return counts;
+}
+
+/**
+ * Lista de arquivos alterados, limitada a `limit` entradas
+ */
+function formatFileList(changes: CommitFileChange[], limit: number): string {
+	if (changes.length === 0) {
+		return '';
+	}
+	const shown = limit > 0 ? changes.slice(0, limit) : changes;
+	const lines = shown.map(change => change.oldPath ? `  - ${change.oldPath} → ${change.path}` : `  - ${change.path}`);
+	if (shown.length < changes.length) {
+		lines.push(`  ${t('commit.moreFiles', { count: changes.length - shown.length })}`);
+	}
+	return `\n${t('commit.changedFiles')}\n${lines.join('\n')}`;
+}
+
+/**
+ * Monta a mensagem de commit substituindo todas as ocorrências dos placeholders.
+ * `{date:FORMATO}` aceita um formato do moment; placeholders desconhecidos ficam como estão.
+ */
+export function renderCommitMessage(template: string, context: CommitTemplateContext): string {
+	const counts = countChanges(context.changes);
+	const values: Record<string, string> = {
+		files: formatFileList(context.changes, context.fileLimit),
+		count: String(context.changes.length),
+		added: String(counts.added),
+		modified: String(counts.modified),
+		deleted: String(counts.deleted),
+		renamed: String(counts.renamed),
+		device: context.device,
+		hostname: context.hostname,
+		vault: context.vault,
+		source: context.source
+	};
+
+	const message = template.replace(/\{(\w+)(?::([^}]+))?\}/g, (match, name: string, format?: string) => {
+		if (name === 'date') {
+			return format ? moment(context.date).format(format) : formatDate(context.date, context.dateFormat);
+		}
+		return format === undefined && name in values ? values[name] ?? match : match;
+	});
+	return message.trim();
+}
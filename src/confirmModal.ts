@@ -0,0 +1,67 @@
+import { App, Modal } from 'obsidian';
+import { t } from './i18n';
+
+export interface ConfirmFilesOptions {
+	title: string;
+	description: string;
+	files: string[];
+	confirmText: string;
+	cancelText?: string;
+	// Destacar o botão de confirmação como ação destrutiva
+	warning?: boolean;
+}
+
+// Acima disso a lista é resumida para manter o modal utilizável
+const MAX_LISTED_FILES = 200;
+
+/**
+ * Modal de confirmação que lista os arquivos afetados por uma operação
+ */
+export class ConfirmFilesModal extends Modal {
+	private options: ConfirmFilesOptions;
+	private resolve: (confirmed: boolean) => void;
+	private confirmed = false;
+
+	constructor(app: App, options: ConfirmFilesOptions, resolve: (confirmed: boolean) => void) {
+		super(app);
+		this.options = options;
+		this.resolve = resolve;
+	}
+
+	onOpen() {
+		const { contentEl, options } = this;
+		this.titleEl.setText(options.title);
+		contentEl.createEl('p', { text: options.description });
+
+		const list = contentEl.createEl('ul', { cls: 'github-sync-file-list' });
+		for (const file of options.files.slice(0, MAX_LISTED_FILES)) {
+			list.createEl('li', { text: file });
+		}
+		if (options.files.length > MAX_LISTED_FILES) {
+			contentEl.createEl('p', { text: t('confirm.moreFiles', { count: options.files.length - MAX_LISTED_FILES }) });
+		}
+
+		const actions = contentEl.createDiv({ cls: 'modal-button-container' });
+		const confirm = actions.createEl('button', {
+			text: options.confirmText,
+			cls: options.warning ? 'mod-warning' : 'mod-cta'
+		});
+		confirm.addEventListener('click', () => {
+			this.confirmed = true;
+			this.close();
+		});
+		actions.createEl('button', { text: options.cancelText ?? t('confirm.cancel') }).addEventListener('click', () => this.close());
+	}
+
+	onClose() {
+		this.contentEl.empty();
+		this.resolve(this.confirmed);
+	}
+}
+
+/**
+ * Abre o modal e resolve com a escolha do usuário (fechar o modal equivale a cancelar)
+ */
+export function confirmFiles(app: App, options: ConfirmFilesOptions): Promise<boolean> {
+	return new Promise(resolve => new ConfirmFilesModal(app, options, resolve).open());
+}
@@ -0,0 +1,243 @@
+import { ItemView, Notice, WorkspaceLeaf } from 'obsidian';
+import MyPlugin from './main';
+import { ConflictVersions } from './gitManager';
+import { conflictMarkers, diff3Merge, lineEnding, MergeChunk, splitLines } from './diff3';
+import { MessageKey, t } from './i18n';
+
+export const VIEW_TYPE_CONFLICTS = 'github-sync-conflicts';
+
+type HunkChoice = 'ours' | 'theirs' | 'both' | 'base';
+
+const CHOICE_LABELS: Record<HunkChoice, MessageKey> = {
+	ours: 'conflicts.acceptOurs',
+	theirs: 'conflicts.acceptTheirs',
+	both: 'conflicts.acceptBoth',
+	base: 'conflicts.keepBase'
+};
+
+/**
+ * Visão de resolução de conflitos: versões local, base e remota lado a lado,
+ * escolha por trecho e edição manual do resultado
+ */
+export class ConflictView extends ItemView {
+	plugin: MyPlugin;
+	private files: string[] = [];
+	private selected: string | null = null;
+	private versions: ConflictVersions | null = null;
+	private chunks: MergeChunk[] = [];
+	private choices = new Map<number, HunkChoice>();
+	private merged = '';
+	private merging = false;
+	// No rebase, concluir significa continuar para o próximo commit
+	private rebasing = false;
+
+	constructor(leaf: WorkspaceLeaf, plugin: MyPlugin) {
+		super(leaf);
+		this.plugin = plugin;
+	}
+
+	getViewType(): string {
+		return VIEW_TYPE_CONFLICTS;
+	}
+
+	getDisplayText(): string {
+		return t('conflicts.title');
+	}
+
+	getIcon(): string {
+		return 'git-merge';
+	}
+
+	async onOpen() {
+		await this.refresh();
+	}
+
+	/**
+	 * Recarrega a lista de arquivos em conflito
+	 */
+	async refresh() {
+		const gitManager = this.plugin.gitManager;
+		this.files = gitManager ? await gitManager.getConflictedFiles() : [];
+		this.rebasing = gitManager ? await gitManager.isRebaseInProgress() : false;
+		this.merging = this.rebasing || (gitManager ? await gitManager.isMergeInProgress() : false);
+
+		if (this.selected && !this.files.includes(this.selected)) {
+			this.selected = null;
+		}
+		if (!this.selected && this.files.length > 0) {
+			await this.selectFile(this.files[0] as string);
+			return;
+		}
+		this.render();
+	}
+
+	private async selectFile(file: string) {
+		if (!this.plugin.gitManager) {
+			return;
+		}
+		this.selected = file;
+		this.versions = await this.plugin.gitManager.getConflictVersions(file);
+		this.chunks = diff3Merge(
+			splitLines(this.versions.base ?? ''),
+			splitLines(this.versions.ours ?? ''),
+			splitLines(this.versions.theirs ?? '')
+		);
+		this.choices.clear();
+		this.merged = this.buildMerged();
+		this.render();
+	}
+
+	/**
+	 * Monta o resultado a partir das escolhas; trechos sem escolha ficam com marcadores de conflito
+	 */
+	private buildMerged(): string {
+		const lines: string[] = [];
+		this.chunks.forEach((chunk, index) => {
+			if (chunk.kind === 'stable') {
+				lines.push(...chunk.lines);
+				return;
+			}
+			switch (this.choices.get(index)) {
+				case 'ours':
+					lines.push(...chunk.ours);
+					break;
+				case 'theirs':
+					lines.push(...chunk.theirs);
+					break;
+				case 'both':
+					lines.push(...chunk.ours, ...chunk.theirs);
+					break;
+				case 'base':
+					lines.push(...chunk.base);
+					break;
+				default:
+					lines.push(...conflictMarkers(chunk.ours, chunk.theirs));
+			}
+		});
+		return lines.join(lineEnding(this.versions?.ours ?? '', this.versions?.theirs ?? '', this.versions?.base ?? ''));
+	}
+
+	private render() {
+		const container = this.contentEl;
+		container.empty();
+		container.addClass('github-sync-conflicts');
+
+		if (this.files.length === 0) {
+			container.createEl('p', { text: t('conflicts.none') });
+			if (!this.merging) {
+				return;
+			}
+			const finish = container.createEl('button', { text: t(this.rebasing ? 'conflicts.continueRebase' : 'conflicts.completeMerge'), cls: 'mod-cta' });
+			finish.addEventListener('click', () => void this.finishMerge());
+			return;
+		}
+
+		const list = container.createDiv({ cls: 'github-sync-conflict-files' });
+		for (const file of this.files) {
+			const item = list.createDiv({ cls: 'github-sync-conflict-file', text: file });
+			if (file === this.selected) {
+				item.addClass('is-active');
+			}
+			item.addEventListener('click', () => void this.selectFile(file));
+		}
+
+		if (!this.selected || !this.versions) {
+			return;
+		}
+
+		const columns = container.createDiv({ cls: 'github-sync-conflict-columns' });
+		this.renderVersion(columns, t('conflicts.local'), this.versions.ours);
+		this.renderVersion(columns, t('conflicts.base'), this.versions.base);
+		this.renderVersion(columns, t('conflicts.remote'), this.versions.theirs);
+
+		const hunks = container.createDiv({ cls: 'github-sync-conflict-hunks' });
+		this.chunks.forEach((chunk, index) => {
+			if (chunk.kind !== 'conflict') {
+				return;
+			}
+			const hunkEl = hunks.createDiv({ cls: 'github-sync-conflict-hunk' });
+			const choice = this.choices.get(index);
+			hunkEl.createEl('strong', { text: choice ? t('conflicts.resolvedWith', { choice: t(CHOICE_LABELS[choice]) }) : t('conflicts.hunk') });
+			const sides = hunkEl.createDiv({ cls: 'github-sync-conflict-hunk-sides' });
+			sides.createEl('pre', { text: chunk.ours.join('\n'), cls: 'github-sync-ours' });
+			sides.createEl('pre', { text: chunk.theirs.join('\n'), cls: 'github-sync-theirs' });
+
+			const actions = hunkEl.createDiv({ cls: 'github-sync-conflict-actions' });
+			for (const value of Object.keys(CHOICE_LABELS) as HunkChoice[]) {
+				const button = actions.createEl('button', { text: t(CHOICE_LABELS[value]) });
+				button.addEventListener('click', () => {
+					this.choices.set(index, value);
+					this.merged = this.buildMerged();
+					this.render();
+				});
+			}
+		});
+
+		container.createEl('h4', { text: t('conflicts.result') });
+		const editor = container.createEl('textarea', { cls: 'github-sync-conflict-result' });
+		editor.value = this.merged;
+		editor.addEventListener('input', () => {
+			this.merged = editor.value;
+		});
+
+		const footer = container.createDiv({ cls: 'github-sync-conflict-actions' });
+		const resolve = footer.createEl('button', { text: t('conflicts.markResolved'), cls: 'mod-cta' });
+		resolve.addEventListener('click', () => void this.markResolved(this.merged));
+
+		if (this.versions.ours === null || this.versions.theirs === null) {
+			// Arquivo removido em um dos lados: permitir aceitar a remoção
+			const remove = footer.createEl('button', { text: t('conflicts.acceptDeletion') });
+			remove.addEventListener('click', () => void this.markResolved(null));
+		}
+	}
+
+	private renderVersion(parent: HTMLElement, title: string, content: string | null) {
+		const column = parent.createDiv({ cls: 'github-sync-conflict-column' });
+		column.createEl('h4', { text: title });
+		column.createEl('pre', { text: content ?? t('conflicts.deleted') });
+	}
+
+	private async markResolved(content: string | null) {
+		if (!this.plugin.gitManager || !this.selected) {
+			return;
+		}
+		if (content !== null && /^(<<<<<<<|>>>>>>>) /m.test(content)) {
+			new Notice(t('notice.conflictMarkers'));
+			return;
+		}
+
+		const gitManager = this.plugin.gitManager;
+		const file = this.selected;
+		const result = await this.plugin.syncEngine.runExclusive(() => gitManager.resolveFile(file, content));
+		if (!result.ok) {
+			this.plugin.notifyGitError(result.error, t('failure.markResolved', { file }));
+			return;
+		}
+
+		this.selected = null;
+		await this.refresh();
+		if (this.files.length === 0 && this.merging) {
+			await this.finishMerge();
+		}
+	}
+
+	private async finishMerge() {
+		if (!this.plugin.gitManager) {
+			return;
+		}
+		const gitManager = this.plugin.gitManager;
+		const result = await this.plugin.syncEngine.runExclusive(() => gitManager.completeMerge());
+		await this.plugin.syncEngine.refreshState();
+		if (!result.ok) {
+			this.plugin.notifyGitError(result.error, t(this.rebasing ? 'failure.continueRebase' : 'failure.completeMerge'));
+			return;
+		}
+		const rebasing = this.rebasing;
+		await this.refresh();
+		if (result.warning?.code === 'conflict') {
+			new Notice(t('notice.rebaseStoppedAgain'));
+		} else {
+			new Notice(t(rebasing ? 'notice.rebaseCompleted' : 'notice.mergeCompleted'));
+		}
+	}
+}
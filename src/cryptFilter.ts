@@ -0,0 +1,92 @@
+/**
+ * Filtro do git para os arquivos criptografados: clean (ao commitar), smudge (ao fazer checkout),
+ * textconv (diffs legíveis) e merge driver (%O %A %B %P).
+ * Empacotado separadamente pelo esbuild e gravado em .git/ pelo GitManager. A chave fica em .git/ e
+ * nunca é versionada; sem ela, o smudge entrega o conteúdo criptografado e o clean recusa texto puro.
+ */
+import { Buffer } from 'buffer';
+import * as fs from 'fs';
+import * as process from 'process';
+import { decrypt, encrypt, isEncrypted } from './encryption';
+import { mergeMarkdown } from './markdownMerge';
+
+const [mode, keyPath, ...files] = process.argv.slice(2);
+
+function readKey(): Buffer | null {
+	try {
+		return keyPath ? fs.readFileSync(keyPath) : null;
+	} catch {
+		return null;
+	}
+}
+
+function readStdin(): Buffer {
+	const chunks: Buffer[] = [];
+	const buffer = Buffer.alloc(65536);
+	let read: number;
+	while ((read = fs.readSync(0, buffer, 0, buffer.length, null)) > 0) {
+		chunks.push(Buffer.from(buffer.subarray(0, read)));
+	}
+	return Buffer.concat(chunks);
+}
+
+function toPlain(data: Buffer, key: Buffer | null): Buffer {
+	if (!isEncrypted(data)) {
+		return data;
+	}
+	if (!key) {
+		throw new Error('Chave de criptografia ausente neste dispositivo');
+	}
+	return decrypt(data, key);
+}
+
+const key = readKey();
+
+try {
+	switch (mode) {
+		case 'clean': {
+			const input = readStdin();
+			if (isEncrypted(input)) {
+				// Cópia ainda criptografada (dispositivo sem a chave): vai para o repositório como está
+				process.stdout.write(input);
+			} else if (!key) {
+				console.error('github-sync: arquivo protegido não pode ser commitado sem a chave de criptografia (desbloqueie a criptografia no plugin)');
+				process.exit(1);
+			} else {
+				process.stdout.write(encrypt(input, key));
+			}
+			break;
+		}
+		case 'smudge': {
+			const input = readStdin();
+			process.stdout.write(key && isEncrypted(input) ? decrypt(input, key) : input);
+			break;
+		}
+		case 'textconv': {
+			process.stdout.write(toPlain(fs.readFileSync(files[0] ?? ''), key));
+			break;
+		}
+		case 'merge': {
+			const [basePath, oursPath, theirsPath] = files;
+			if (!key || !basePath || !oursPath || !theirsPath) {
+				// Sem a chave não há como mesclar: o git mantém o conflito
+				process.exit(1);
+			}
+			const result = mergeMarkdown(
+				toPlain(fs.readFileSync(basePath), key).toString('utf8'),
+				toPlain(fs.readFileSync(oursPath), key).toString('utf8'),
+				toPlain(fs.readFileSync(theirsPath), key).toString('utf8')
+			);
+			// O resultado do merge driver vai direto para o repositório, então volta criptografado
+			fs.writeFileSync(oursPath, encrypt(Buffer.from(result.text, 'utf8'), key));
+			process.exit(result.conflicts > 0 ? 1 : 0);
+			break;
+		}
+		default:
+			console.error('Uso: crypt-filter <clean|smudge|textconv|merge> <chave> [arquivos]');
+			process.exit(2);
+	}
+} catch (error) {
+	console.error(`github-sync: ${error instanceof Error ? error.message : String(error)}`);
+	process.exit(1);
+}
@@ -0,0 +1,222 @@
+/**
+ * Diff de linhas (Myers) e merge de três vias usados pela resolução de conflitos
+ */
+
+export interface DiffHunk {
+	aStart: number;
+	aLength: number;
+	bStart: number;
+	bLength: number;
+}
+
+export type MergeChunk =
+	| { kind: 'stable'; lines: string[] }
+	| { kind: 'conflict'; base: string[]; ours: string[]; theirs: string[] };
+
+// Acima desta distância de edição o diff desiste e trata o trecho como substituição total
+const MAX_EDIT_DISTANCE = 2000;
+
+export function splitLines(text: string): string[] {
+	if (text === '') {
+		return [];
+	}
+	return text.split(/\r?\n/);
+}
+
+/**
+ * Quebra de linha para juntar de novo as linhas de `splitLines`: a do primeiro texto que tem mais de uma linha
+ */
+export function lineEnding(...texts: string[]): string {
+	const text = texts.find(candidate => candidate.includes('\n')) ?? '';
+	return text.includes('\r\n') ? '\r\n' : '\n';
+}
+
+/**
+ * Calcula os trechos que diferem entre `a` e `b`
+ */
+export function diffLines(a: string[], b: string[]): DiffHunk[] {
+	// Ignorar prefixo e sufixo comuns, que são a maior parte de uma nota
+	let prefix = 0;
+	while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+		prefix++;
+	}
+	let suffix = 0;
+	while (
+		suffix < a.length - prefix &&
+		suffix < b.length - prefix &&
+		a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+	) {
+		suffix++;
+	}
+
+	const innerA = a.slice(prefix, a.length - suffix);
+	const innerB = b.slice(prefix, b.length - suffix);
+	const matches = myersMatches(innerA, innerB);
+
+	const hunks: DiffHunk[] = [];
+	let lastA = 0;
+	let lastB = 0;
+	for (const [x, y] of [...matches, [innerA.length, innerB.length] as [number, number]]) {
+		if (x > lastA || y > lastB) {
+			hunks.push({
+				aStart: prefix + lastA,
+				aLength: x - lastA,
+				bStart: prefix + lastB,
+				bLength: y - lastB
+			});
+		}
+		lastA = x + 1;
+		lastB = y + 1;
+	}
+	return hunks;
+}
+
+/**
+ * Retorna os pares de índices (a, b) de linhas iguais na maior subsequência comum
+ */
+function myersMatches(a: string[], b: string[]): Array<[number, number]> {
+	const n = a.length;
+	const m = b.length;
+	if (n === 0 || m === 0) {
+		return [];
+	}
+
+	// Cada entrada guarda apenas a janela -d-1..d+1 do vetor V
+	const trace: number[][] = [];
+	let v: number[] = [0, 0, 0];
+	const at = (w: number[], d: number, k: number) => w[k + d + 1] ?? -1;
+
+	let found = false;
+	for (let d = 0; d <= n + m && d <= MAX_EDIT_DISTANCE; d++) {
+		trace.push(v);
+		const next: number[] = new Array<number>(2 * d + 3).fill(-1);
+		for (let k = -d; k <= d; k += 2) {
+			let x: number;
+			if (k === -d || (k !== d && at(v, d, k - 1) < at(v, d, k + 1))) {
+				x = at(v, d, k + 1);
+			} else {
+				x = at(v, d, k - 1) + 1;
+			}
+			let y = x - k;
+			while (x < n && y < m && a[x] === b[y]) {
+				x++;
+				y++;
+			}
+			next[k + d + 1] = x;
+			if (x >= n && y >= m) {
+				found = true;
+				break;
+			}
+		}
+		// Alargar a janela para a próxima iteração (k vai de -(d+1) a d+1)
+		v = [-1, ...next, -1];
+		if (found) {
+			break;
+		}
+	}
+
+	if (!found) {
+		return [];
+	}
+
+	const matches: Array<[number, number]> = [];
+	let x = n;
+	let y = m;
+	for (let d = trace.length - 1; d >= 0; d--) {
+		const w = trace[d] as number[];
+		const k = x - y;
+		const prevK = k === -d || (k !== d && at(w, d, k - 1) < at(w, d, k + 1)) ? k + 1 : k - 1;
+		const prevX = d === 0 ? 0 : at(w, d, prevK);
+		const prevY = d === 0 ? 0 : prevX - prevK;
+		while (x > prevX && y > prevY) {
+			x--;
+			y--;
+			matches.push([x, y]);
+		}
+		x = prevX;
+		y = prevY;
+	}
+	return matches.reverse();
+}
+
+/**
+ * Merge de três vias por linhas: trechos alterados por apenas um lado são aceitos,
+ * trechos alterados de forma diferente pelos dois lados viram conflito
+ */
+export function diff3Merge(base: string[], ours: string[], theirs: string[]): MergeChunk[] {
+	const hunks = [
+		...diffLines(base, ours).map(h => ({ ...h, side: 'ours' as const })),
+		...diffLines(base, theirs).map(h => ({ ...h, side: 'theirs' as const }))
+	].sort((x, y) => x.aStart - y.aStart || x.aLength - y.aLength);
+
+	const chunks: MergeChunk[] = [];
+	const pushStable = (lines: string[]) => {
+		if (lines.length === 0) {
+			return;
+		}
+		const last = chunks[chunks.length - 1];
+		if (last && last.kind === 'stable') {
+			last.lines.push(...lines);
+		} else {
+			chunks.push({ kind: 'stable', lines: [...lines] });
+		}
+	};
+
+	let offset = 0;
+	let i = 0;
+	while (i < hunks.length) {
+		const first = hunks[i++]!;
+		const group = [first];
+		const regionStart = first.aStart;
+		let regionEnd = first.aStart + first.aLength;
+		while (i < hunks.length && hunks[i]!.aStart <= regionEnd) {
+			const h = hunks[i++]!;
+			regionEnd = Math.max(regionEnd, h.aStart + h.aLength);
+			group.push(h);
+		}
+
+		pushStable(base.slice(offset, regionStart));
+
+		const sideLines = (side: 'ours' | 'theirs', lines: string[]): string[] | null => {
+			const own = group.filter(h => h.side === side);
+			if (own.length === 0) {
+				return null;
+			}
+			const head = own[0]!;
+			const tail = own[own.length - 1]!;
+			const start = head.bStart - (head.aStart - regionStart);
+			const end = tail.bStart + tail.bLength + (regionEnd - (tail.aStart + tail.aLength));
+			return lines.slice(start, end);
+		};
+
+		const baseLines = base.slice(regionStart, regionEnd);
+		const oursLines = sideLines('ours', ours);
+		const theirsLines = sideLines('theirs', theirs);
+
+		if (oursLines === null) {
+			pushStable(theirsLines ?? baseLines);
+		} else if (theirsLines === null) {
+			pushStable(oursLines);
+		} else if (sameLines(oursLines, theirsLines)) {
+			pushStable(oursLines);
+		} else {
+			chunks.push({ kind: 'conflict', base: baseLines, ours: oursLines, theirs: theirsLines });
+		}
+		offset = regionEnd;
+	}
+	pushStable(base.slice(offset));
+
+	return chunks;
+}
+
+/**
+ * Formata um trecho em conflito com os marcadores usados pelo git. Os rótulos ficam neutros (ours/theirs):
+ * o texto vai para dentro das notas e o merge driver roda fora do Obsidian, sem as traduções.
+ */
+export function conflictMarkers(ours: string[], theirs: string[]): string[] {
+	return ['<<<<<<< ours', ...ours, '=======', ...theirs, '>>>>>>> theirs'];
+}
+
+export function sameLines(a: string[], b: string[]): boolean {
+	return a.length === b.length && a.every((line, index) => line === b[index]);
+}
@@ -0,0 +1,27 @@
+import { t } from './i18n';
+
+/**
+ * Renderiza um diff unificado do git com destaque para linhas adicionadas e removidas
+ */
+export function renderUnifiedDiff(container: HTMLElement, patch: string): void {
+	const lines = patch.split('\n');
+	if (!patch.trim()) {
+		container.createEl('p', { text: t('view.noDifferences'), cls: 'github-sync-diff-empty' });
+		return;
+	}
+
+	const diffEl = container.createDiv({ cls: 'github-sync-diff' });
+	for (const line of lines) {
+		let cls = 'github-sync-diff-context';
+		if (line.startsWith('diff --git') || line.startsWith('index ') || line.startsWith('+++') || line.startsWith('---')) {
+			cls = 'github-sync-diff-meta';
+		} else if (line.startsWith('@@')) {
+			cls = 'github-sync-diff-hunk';
+		} else if (line.startsWith('+')) {
+			cls = 'github-sync-diff-add';
+		} else if (line.startsWith('-')) {
+			cls = 'github-sync-diff-del';
+		}
+		diffEl.createDiv({ cls, text: line || ' ' });
+	}
+}
@@ -0,0 +1,86 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert';
+import { Buffer } from 'buffer';
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import { createEncryptionConfig, decrypt, encrypt, ENCRYPTED_MAGIC, isEncrypted, unlockKey } from './encryption';
+import { GitManager } from './gitManager';
+import { git, GIT_ENV, tempDir } from './testHelpers';
+
+const root = tempDir('github-sync-crypt-');
+
+// Derivar a chave (scrypt) é lento de propósito: uma configuração serve para todos os testes de unidade
+const { config, key } = createEncryptionConfig('senha certa');
+
+void test('criptografar o mesmo conteúdo dá sempre o mesmo resultado', () => {
+	const plain = Buffer.from('# Diário\n\nconteúdo privado\n', 'utf8');
+	const encrypted = encrypt(plain, key);
+	assert.ok(isEncrypted(encrypted));
+	assert.ok(encrypted.subarray(0, ENCRYPTED_MAGIC.length).equals(ENCRYPTED_MAGIC));
+	assert.ok(!encrypted.includes(plain));
+	assert.ok(encrypt(plain, key).equals(encrypted));
+	assert.ok(!encrypt(Buffer.from('outro conteúdo\n', 'utf8'), key).equals(encrypted));
+	assert.ok(decrypt(encrypted, key).equals(plain));
+	assert.ok(decrypt(encrypt(Buffer.alloc(0), key), key).equals(Buffer.alloc(0)));
+});
+
+void test('chave errada ou conteúdo alterado não decifram', () => {
+	const encrypted = encrypt(Buffer.from('conteúdo privado\n', 'utf8'), key);
+	const other = createEncryptionConfig('outra senha').key;
+	assert.throws(() => decrypt(encrypted, other));
+
+	const tampered = Buffer.from(encrypted);
+	tampered[tampered.length - 1] = (tampered[tampered.length - 1] ?? 0) ^ 1;
+	assert.throws(() => decrypt(tampered, key));
+});
+
+void test('a senha só desbloqueia a chave quando confere com a configuração', () => {
+	assert.strictEqual(unlockKey(config, 'senha errada'), null);
+	assert.ok(unlockKey(config, 'senha certa')?.equals(key));
+});
+
+function createManager(dir: string): GitManager {
+	return new GitManager({
+		repoPath: dir,
+		remoteUrl: 'https://example.com/owner/vault.git',
+		branch: 'main',
+		userName: 'Test',
+		userEmail: 'test@example.com'
+	});
+}
+
+void test('filtro clean/smudge cifra no repositório e decifra no disco', async () => {
+	const remote = path.join(root, 'remote.git');
+	git(root, 'init', '-q', '--bare', '-b', 'main', remote);
+	const vault = path.join(root, 'vault');
+	git(root, 'clone', '-q', remote, vault);
+	const manager = createManager(vault);
+
+	assert.ok((await manager.createEncryptionKey('senha do vault')).ok);
+	assert.ok((await manager.updateEncryptionRules({ enabled: true, paths: ['privado/'] })).ok);
+	fs.mkdirSync(path.join(vault, 'privado'));
+	fs.writeFileSync(path.join(vault, 'privado', 'nota.md'), 'segredo\n');
+	fs.writeFileSync(path.join(vault, 'publica.md'), 'aberta\n');
+	git(vault, 'add', '-A');
+	git(vault, 'commit', '-q', '-m', 'notas');
+	git(vault, 'push', '-q', 'origin', 'main');
+
+	// clean: o blob versionado é cifrado; o arquivo no disco e o resto do vault continuam em texto puro
+	const blob = execFileSync('git', ['cat-file', 'blob', 'HEAD:privado/nota.md'], { cwd: vault, env: GIT_ENV });
+	assert.ok(isEncrypted(blob));
+	assert.strictEqual(git(vault, 'cat-file', 'blob', 'HEAD:publica.md'), 'aberta');
+	assert.strictEqual(fs.readFileSync(path.join(vault, 'privado', 'nota.md'), 'utf8'), 'segredo\n');
+	assert.strictEqual(git(vault, 'status', '--porcelain'), '');
+
+	// Outro dispositivo: sem a chave o arquivo chega cifrado; com a senha o smudge o decifra
+	const other = path.join(root, 'other');
+	git(root, 'clone', '-q', remote, other);
+	const otherManager = createManager(other);
+	assert.ok(isEncrypted(fs.readFileSync(path.join(other, 'privado', 'nota.md'))));
+	const wrong = await otherManager.unlockEncryption('senha errada');
+	assert.ok(!wrong.ok && wrong.error.code === 'encryption-passphrase');
+	assert.ok((await otherManager.unlockEncryption('senha do vault')).ok);
+	assert.strictEqual(fs.readFileSync(path.join(other, 'privado', 'nota.md'), 'utf8'), 'segredo\n');
+	assert.strictEqual(git(other, 'status', '--porcelain'), '');
+});
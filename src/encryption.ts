@@ -0,0 +1,78 @@
+/**
+ * Criptografia dos arquivos protegidos, compartilhada pelo plugin e pelo filtro do git (sem dependências do Obsidian).
+ * AES-256-GCM com IV derivado do conteúdo (HMAC): o mesmo texto gera sempre o mesmo resultado,
+ * então o git não vê alterações falsas a cada `git status`.
+ */
+import { Buffer } from 'buffer';
+import * as crypto from 'crypto';
+
+// Início de todo arquivo criptografado no repositório
+export const ENCRYPTED_MAGIC = Buffer.from('\0GHSYNC-ENC1\0');
+
+// Arquivo versionado na raiz do vault com o salt e a verificação da senha (nunca a chave)
+export const ENCRYPTION_CONFIG_FILE = '.github-sync-crypt.json';
+
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+const KEY_CHECK_LABEL = 'github-sync-key-check';
+
+export interface EncryptionConfig {
+	version: 1;
+	// Salt da derivação da chave (base64)
+	salt: string;
+	// HMAC de um texto fixo com a chave derivada, para reconhecer uma senha errada (base64)
+	check: string;
+}
+
+/**
+ * Deriva 64 bytes da senha: os 32 primeiros cifram, os 32 últimos geram o IV e a verificação
+ */
+export function deriveKey(passphrase: string, salt: Buffer): Buffer {
+	return crypto.scryptSync(passphrase, salt, 64);
+}
+
+export function keyCheck(key: Buffer): string {
+	return crypto.createHmac('sha256', key.subarray(32)).update(KEY_CHECK_LABEL).digest('base64');
+}
+
+/**
+ * Nova configuração (salt aleatório) e a chave derivada da senha
+ */
+export function createEncryptionConfig(passphrase: string): { config: EncryptionConfig; key: Buffer } {
+	const salt = crypto.randomBytes(16);
+	const key = deriveKey(passphrase, salt);
+	return { config: { version: 1, salt: salt.toString('base64'), check: keyCheck(key) }, key };
+}
+
+/**
+ * Chave da senha informada, ou null se a senha não confere com a configuração
+ */
+export function unlockKey(config: EncryptionConfig, passphrase: string): Buffer | null {
+	const key = deriveKey(passphrase, Buffer.from(config.salt, 'base64'));
+	const expected = Buffer.from(config.check, 'base64');
+	const actual = Buffer.from(keyCheck(key), 'base64');
+	return expected.length === actual.length && crypto.timingSafeEqual(expected, actual) ? key : null;
+}
+
+export function isEncrypted(data: Buffer): boolean {
+	return data.length >= ENCRYPTED_MAGIC.length && data.subarray(0, ENCRYPTED_MAGIC.length).equals(ENCRYPTED_MAGIC);
+}
+
+export function encrypt(data: Buffer, key: Buffer): Buffer {
+	const iv = crypto.createHmac('sha256', key.subarray(32)).update(data).digest().subarray(0, IV_LENGTH);
+	const cipher = crypto.createCipheriv('aes-256-gcm', key.subarray(0, 32), iv);
+	const encrypted = Buffer.concat([cipher.update(data), cipher.final()]);
+	return Buffer.concat([ENCRYPTED_MAGIC, iv, cipher.getAuthTag(), encrypted]);
+}
+
+/**
+ * Decifra um arquivo criptografado; lança erro se a chave for outra ou o conteúdo tiver sido alterado
+ */
+export function decrypt(data: Buffer, key: Buffer): Buffer {
+	const ivStart = ENCRYPTED_MAGIC.length;
+	const tagStart = ivStart + IV_LENGTH;
+	const bodyStart = tagStart + TAG_LENGTH;
+	const decipher = crypto.createDecipheriv('aes-256-gcm', key.subarray(0, 32), data.subarray(ivStart, tagStart));
+	decipher.setAuthTag(data.subarray(tagStart, bodyStart));
+	return Buffer.concat([decipher.update(data.subarray(bodyStart)), decipher.final()]);
+}
@@ -0,0 +1,125 @@
+import { App, Component, MarkdownRenderer, Modal, Notice, TFile } from 'obsidian';
+import MyPlugin from './main';
+import { FileRevision } from './gitManager';
+import { renderUnifiedDiff } from './diffRenderer';
+import { t } from './i18n';
+
+/**
+ * Histórico de versões de uma nota: diff com a cópia atual, restauração e visualização somente leitura
+ */
+export class FileHistoryModal extends Modal {
+	plugin: MyPlugin;
+	file: TFile;
+	// Dono dos componentes criados pelas pré-visualizações renderizadas
+	private component = new Component();
+
+	constructor(app: App, plugin: MyPlugin, file: TFile) {
+		super(app);
+		this.plugin = plugin;
+		this.file = file;
+	}
+
+	async onOpen() {
+		const { contentEl } = this;
+		this.component.load();
+		this.modalEl.addClass('github-sync-file-history');
+		this.titleEl.setText(t('fileHistory.title', { path: this.file.path }));
+
+		const gitManager = this.plugin.gitManager;
+		if (!gitManager) {
+			contentEl.createEl('p', { text: t('view.gitNotConfigured') });
+			return;
+		}
+
+		const revisions = await gitManager.getFileHistory(this.file.path);
+		if (revisions.length === 0) {
+			contentEl.createEl('p', { text: t('fileHistory.noRevisions') });
+			return;
+		}
+
+		for (const revision of revisions) {
+			this.renderRevision(contentEl.createDiv({ cls: 'github-sync-file-revision' }), revision);
+		}
+	}
+
+	onClose() {
+		this.component.unload();
+		this.contentEl.empty();
+	}
+
+	private renderRevision(container: HTMLElement, revision: FileRevision) {
+		const header = container.createDiv({ cls: 'github-sync-history-commit-header' });
+		header.createSpan({ text: revision.hash.slice(0, 7), cls: 'github-sync-history-hash' });
+		header.createSpan({ text: revision.message });
+		const meta = `${revision.authorName} · ${this.plugin.formatDate(new Date(revision.date))}`;
+		container.createDiv({
+			text: revision.path === this.file.path ? meta : `${meta} · ${revision.path}`,
+			cls: 'github-sync-history-meta'
+		});
+
+		const actions = container.createDiv({ cls: 'github-sync-conflict-actions' });
+		const detail = container.createDiv();
+
+		actions.createEl('button', { text: t('fileHistory.compare') }).addEventListener('click', () => {
+			void this.showDiff(detail, revision);
+		});
+		actions.createEl('button', { text: t('fileHistory.openCopy') }).addEventListener('click', () => {
+			void this.openCopy(detail, revision);
+		});
+
+		// Restaurar sobrescreve a nota: pedir um segundo clique para confirmar
+		const restore = actions.createEl('button', { text: t('fileHistory.restore') });
+		let confirming = false;
+		restore.addEventListener('click', () => {
+			if (!confirming) {
+				confirming = true;
+				restore.setText(t('fileHistory.confirmRestore'));
+				restore.addClass('mod-warning');
+				return;
+			}
+			void this.restore(revision);
+		});
+	}
+
+	private async showDiff(container: HTMLElement, revision: FileRevision) {
+		container.empty();
+		const patch = await this.plugin.gitManager?.getFileDiff(revision.hash, revision.path, this.file.path);
+		if (patch === null || patch === undefined) {
+			container.createEl('p', { text: t('view.diffUnavailable') });
+			return;
+		}
+		renderUnifiedDiff(container, patch);
+	}
+
+	private async openCopy(container: HTMLElement, revision: FileRevision) {
+		container.empty();
+		const content = await this.plugin.gitManager?.getFileAtRevision(revision.hash, revision.path);
+		if (content === null || content === undefined) {
+			container.createEl('p', { text: t('fileHistory.versionUnavailable') });
+			return;
+		}
+
+		const preview = container.createDiv({ cls: 'github-sync-file-preview' });
+		if (this.file.extension === 'md') {
+			await MarkdownRenderer.render(this.app, content, preview.createDiv({ cls: 'markdown-rendered' }), this.file.path, this.component);
+		} else {
+			preview.createEl('pre', { text: content });
+		}
+	}
+
+	private async restore(revision: FileRevision) {
+		const gitManager = this.plugin.gitManager;
+		if (!gitManager) {
+			return;
+		}
+		const result = await this.plugin.syncEngine.runExclusive(
+			() => gitManager.restoreFileRevision(revision.hash, revision.path, this.file.path)
+		);
+		if (result.ok) {
+			new Notice(t('notice.fileRestored', { path: this.file.path, hash: revision.hash.slice(0, 7) }));
+			this.close();
+		} else {
+			this.plugin.notifyGitError(result.error, t('failure.restore'));
+		}
+	}
+}
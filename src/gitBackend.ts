@@ -0,0 +1,161 @@
+/**
+ * Interface comum às implementações do git usadas pelo GitManager: o executável do sistema (simple-git)
+ * ou a implementação em JavaScript que trabalha direto no .git do vault.
+ */
+import { Buffer } from 'buffer';
+import { execFile } from 'child_process';
+
+// system: executável do git instalado; js: implementação própria, sem dependências externas
+export type GitBackendKind = 'system' | 'js';
+
+// Escolha nas configurações; auto usa o git do sistema quando ele está instalado
+export type GitBackendSetting = 'auto' | GitBackendKind;
+
+export type PullStrategy = 'merge' | 'rebase' | 'ff-only';
+
+// Mensagem dos recursos que só existem com o git do sistema (reconhecida pelo classificador de erros)
+export const BACKEND_UNSUPPORTED = 'not supported by the JavaScript git backend';
+
+/**
+ * Entrada do status no formato do `git status --porcelain` (mesmos campos do simple-git)
+ */
+export interface StatusEntry {
+	path: string;
+	// Caminho de origem de uma renomeação
+	from?: string;
+	index: string;
+	working_dir: string;
+}
+
+export interface BackendStatus {
+	current: string | null;
+	tracking: string | null;
+	ahead: number;
+	behind: number;
+	files: StatusEntry[];
+	conflicted: string[];
+	staged: string[];
+}
+
+/**
+ * Commit do histórico; `message` é a primeira linha e `body` o resto da mensagem
+ */
+export interface LogEntry {
+	hash: string;
+	date: string;
+	message: string;
+	refs: string;
+	body: string;
+	author_name: string;
+	author_email: string;
+}
+
+export interface LogQuery {
+	maxCount: number;
+	skip?: number;
+	author?: string;
+	since?: string;
+	until?: string;
+	path?: string;
+}
+
+export interface RemoteInfo {
+	name: string;
+	fetchUrl: string;
+	pushUrl: string;
+}
+
+/**
+ * Branches de um remote e a branch apontada pelo HEAD dele
+ */
+export interface RemoteRefs {
+	head: string | null;
+	branches: string[];
+}
+
+export interface BranchList {
+	current: string | null;
+	all: string[];
+}
+
+export interface MergeState {
+	merging: boolean;
+	rebasing: boolean;
+}
+
+export interface PullOptions {
+	strategy: PullStrategy;
+	// Guarda as alterações locais antes do pull e as reaplica depois
+	autostash: boolean;
+}
+
+export interface CheckoutOptions {
+	// Cria (ou recria) a branch, a partir de `startPoint` ou do HEAD
+	create?: boolean;
+	startPoint?: string;
+	// Descarta as alterações locais dos arquivos versionados
+	force?: boolean;
+	// Configura a branch remota de mesmo nome como upstream
+	track?: boolean;
+}
+
+export interface GitBackend {
+	readonly kind: GitBackendKind;
+	isRepository(): Promise<boolean>;
+	init(): Promise<void>;
+	setConfig(key: string, value: string): Promise<void>;
+	status(): Promise<BackendStatus>;
+	listTrackedFiles(): Promise<string[]>;
+	/**
+	 * Adiciona ao índice os caminhos informados (arquivos removidos saem do índice) ou todas as alterações
+	 */
+	add(paths: string[] | 'all'): Promise<void>;
+	// Volta as entradas do índice ao HEAD, mantendo as alterações no disco
+	unstage(paths: string[]): Promise<void>;
+	/**
+	 * Volta os arquivos e o índice ao HEAD; os que não existem no HEAD são apagados
+	 */
+	restore(paths: string[]): Promise<void>;
+	// Fica com o lado local (ours) ou remoto (theirs) de um arquivo em conflito, sem marcá-lo como resolvido
+	checkoutConflict(path: string, side: 'ours' | 'theirs'): Promise<void>;
+	/**
+	 * Faz commit do índice; com caminhos, só deles (o resto do índice fica como está).
+	 * Sem mensagem, usa a mensagem do merge em andamento.
+	 */
+	commit(message: string | null, paths?: string[]): Promise<void>;
+	// Hash do commit da revisão, ou null se ela não existir
+	revParse(revision: string): Promise<string | null>;
+	/**
+	 * Conteúdo de um arquivo em uma revisão (`:1`, `:2` e `:3` são os estágios de um conflito)
+	 */
+	show(revision: string, path: string): Promise<Buffer>;
+	log(query: LogQuery): Promise<LogEntry[]>;
+	fetch(remote: string, branch: string): Promise<void>;
+	/**
+	 * Traz a branch remota para a branch atual e devolve os arquivos alterados.
+	 * Conflitos ficam no índice, como no git, e o erro é lançado.
+	 */
+	pull(remote: string, branch: string, options: PullOptions): Promise<string[]>;
+	push(remote: string, refspec: string, setUpstream?: boolean): Promise<void>;
+	listRemote(url: string): Promise<RemoteRefs>;
+	getRemotes(): Promise<RemoteInfo[]>;
+	addRemote(name: string, url: string): Promise<void>;
+	setRemoteUrl(name: string, url: string, push?: boolean): Promise<void>;
+	listBranches(): Promise<BranchList>;
+	checkout(branch: string, options?: CheckoutOptions): Promise<void>;
+	setUpstream(branch: string, remoteBranch: string): Promise<void>;
+	getMergeState(): Promise<MergeState>;
+	abortMerge(): Promise<void>;
+}
+
+/**
+ * Resolve a configuração: auto usa o git do sistema se `git --version` funcionar
+ */
+export function detectGitBackend(setting: GitBackendSetting): Promise<GitBackendKind> {
+	if (setting !== 'auto') {
+		return Promise.resolve(setting);
+	}
+	return new Promise(resolve => {
+		execFile('git', ['--version'], { timeout: 10000 }, error => resolve(error ? 'js' : 'system'));
+	});
+}
@@ -0,0 +1,118 @@
+/**
+ * Regras do .gitignore (e do .git/info/exclude) para o backend em JavaScript
+ */
+
+interface IgnoreRule {
+	// Pasta do .gitignore que definiu a regra ('' na raiz)
+	base: string;
+	regex: RegExp;
+	negate: boolean;
+	directoryOnly: boolean;
+}
+
+/**
+ * Converte um padrão glob do git em expressão regular (`*` e `?` não atravessam pastas, `**` sim)
+ */
+function globToRegex(glob: string): string {
+	let regex = '';
+	for (let i = 0; i < glob.length; i++) {
+		const char = glob.charAt(i);
+		if (char === '*') {
+			if (glob.charAt(i + 1) === '*') {
+				const before = i === 0 || glob.charAt(i - 1) === '/';
+				const after = glob.charAt(i + 2);
+				if (before && after === '/') {
+					regex += '(?:.*/)?';
+					i += 2;
+					continue;
+				}
+				if (before && after === '') {
+					regex += '.*';
+					i += 1;
+					continue;
+				}
+			}
+			regex += '[^/]*';
+		} else if (char === '?') {
+			regex += '[^/]';
+		} else if (char === '[') {
+			const end = glob.indexOf(']', i + 2);
+			if (end < 0) {
+				regex += '\\[';
+				continue;
+			}
+			let set = glob.slice(i + 1, end).replace(/\\/g, '\\\\');
+			if (set.startsWith('!')) {
+				set = `^${set.slice(1)}`;
+			}
+			regex += `[${set}]`;
+			i = end;
+		} else if (char === '\\' && i + 1 < glob.length) {
+			regex += glob.charAt(++i).replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+		} else {
+			regex += char.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+		}
+	}
+	return regex;
+}
+
+export class IgnoreRules {
+	private rules: IgnoreRule[] = [];
+
+	/**
+	 * Adiciona as regras de um arquivo de exclusões; as de pastas mais profundas devem vir depois
+	 */
+	add(base: string, content: string): void {
+		for (const rawLine of content.split(/\r?\n/)) {
+			// Espaços finais só contam quando escapados
+			let line = rawLine.replace(/(?<!\\)\s+$/, '');
+			if (!line || line.startsWith('#')) {
+				continue;
+			}
+			let negate = false;
+			if (line.startsWith('!')) {
+				negate = true;
+				line = line.slice(1);
+			} else if (line.startsWith('\\!') || line.startsWith('\\#')) {
+				line = line.slice(1);
+			}
+			let directoryOnly = false;
+			if (line.endsWith('/')) {
+				directoryOnly = true;
+				line = line.slice(0, -1);
+			}
+			if (!line) {
+				continue;
+			}
+			// Com barra no meio ou no início, o padrão é relativo à pasta do .gitignore; sem barra, vale em qualquer nível
+			const anchored = line.includes('/');
+			const pattern = globToRegex(line.replace(/^\//, ''));
+			this.rules.push({
+				base,
+				regex: new RegExp(anchored ? `^${pattern}$` : `^(?:.*/)?${pattern}$`),
+				negate,
+				directoryOnly
+			});
+		}
+	}
+
+	/**
+	 * Caminho relativo ao vault ignorado pelas regras (a última regra que corresponde decide)
+	 */
+	isIgnored(path: string, isDirectory: boolean): boolean {
+		let ignored = false;
+		for (const rule of this.rules) {
+			if (rule.directoryOnly && !isDirectory) {
+				continue;
+			}
+			if (rule.base && !path.startsWith(`${rule.base}/`)) {
+				continue;
+			}
+			const relative = rule.base ? path.slice(rule.base.length + 1) : path;
+			if (rule.regex.test(relative)) {
+				ignored = !rule.negate;
+			}
+		}
+		return ignored;
+	}
+}
@@ -0,0 +1,79 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert';
+import { Buffer } from 'buffer';
+import * as fs from 'fs';
+import * as path from 'path';
+import { FILE_MODE, modeString, parseIndex, serializeIndex } from './gitIndex';
+import { git, tempDir } from './testHelpers';
+
+const root = tempDir('github-sync-index-');
+
+function readIndexFile(dir: string): Buffer {
+	return fs.readFileSync(path.join(dir, '.git/index'));
+}
+
+/**
+ * Formato do `git ls-files -s`: modo, hash, estágio e caminho
+ */
+function listStaged(entries: ReturnType<typeof parseIndex>): string {
+	return entries.map(entry => `${modeString(entry.mode)} ${entry.hash} ${entry.stage}\t${entry.path}`).join('\n');
+}
+
+function createRepo(name: string): string {
+	const dir = path.join(root, name);
+	git(root, 'init', '-q', '-b', 'main', dir);
+	fs.mkdirSync(path.join(dir, 'pasta'));
+	fs.writeFileSync(path.join(dir, 'nota.md'), 'nota\n');
+	fs.writeFileSync(path.join(dir, 'pasta', 'ação.md'), 'acentos no caminho\n');
+	fs.writeFileSync(path.join(dir, 'pasta', 'um nome de arquivo bem mais longo que o normal.md'), 'longo\n');
+	git(dir, 'add', '-A');
+	git(dir, 'commit', '-q', '-m', 'primeiro commit');
+	return dir;
+}
+
+void test('índice gravado pelo git é lido com os mesmos caminhos, hashes e modos', () => {
+	const dir = createRepo('read');
+	const entries = parseIndex(readIndexFile(dir));
+	assert.strictEqual(listStaged(entries), git(dir, '-c', 'core.quotePath=false', 'ls-files', '-s'));
+	assert.ok(entries.every(entry => entry.mode === FILE_MODE && entry.stage === 0));
+	assert.strictEqual(entries.find(entry => entry.path === 'nota.md')?.size, 5);
+});
+
+void test('índice regravado é aceito pelo git status sem alterações', () => {
+	const dir = createRepo('write');
+	const before = git(dir, 'ls-files', '-s');
+	fs.writeFileSync(path.join(dir, '.git/index'), serializeIndex(parseIndex(readIndexFile(dir))));
+
+	assert.strictEqual(git(dir, 'ls-files', '-s'), before);
+	assert.strictEqual(git(dir, 'status', '--porcelain'), '');
+	// Os dados de stat foram preservados: o git não precisa reler os arquivos para saber que não mudaram
+	assert.strictEqual(git(dir, 'diff-files', '--name-only'), '');
+});
+
+void test('índice versão 3 e estágios de conflito', () => {
+	const dir = createRepo('conflict');
+	git(dir, 'checkout', '-q', '-b', 'outra');
+	fs.writeFileSync(path.join(dir, 'nota.md'), 'da outra branch\n');
+	git(dir, 'commit', '-q', '-am', 'outra');
+	git(dir, 'checkout', '-q', 'main');
+	fs.writeFileSync(path.join(dir, 'nota.md'), 'da main\n');
+	git(dir, 'commit', '-q', '-am', 'main');
+	assert.throws(() => git(dir, 'merge', '-q', 'outra'));
+	git(dir, 'update-index', '--index-version', '3');
+
+	const entries = parseIndex(readIndexFile(dir));
+	assert.deepStrictEqual(entries.filter(entry => entry.path === 'nota.md').map(entry => entry.stage), [1, 2, 3]);
+	assert.strictEqual(listStaged(entries), git(dir, '-c', 'core.quotePath=false', 'ls-files', '-s'));
+
+	fs.writeFileSync(path.join(dir, '.git/index'), serializeIndex([...entries].reverse()));
+	assert.strictEqual(git(dir, 'diff', '--name-only', '--diff-filter=U'), 'nota.md');
+	assert.strictEqual(listStaged(parseIndex(readIndexFile(dir))), listStaged(entries));
+});
+
+void test('índice inválido gera erro no formato do git', () => {
+	assert.throws(() => parseIndex(Buffer.from('nada disso')), /^Error: fatal: index file corrupt$/);
+	const header = Buffer.alloc(12);
+	header.write('DIRC', 0, 'latin1');
+	header.writeUInt32BE(5, 4);
+	assert.throws(() => parseIndex(header), /bad index version 5/);
+});
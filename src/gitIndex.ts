@@ -0,0 +1,108 @@
+/**
+ * Leitura e gravação do índice do git (.git/index, versões 2 e 3) para o backend em JavaScript.
+ * Extensões (cache de árvores, untracked) são descartadas ao gravar; o git as recria quando precisa.
+ */
+import { Buffer } from 'buffer';
+import * as crypto from 'crypto';
+
+export interface IndexEntry {
+	path: string;
+	hash: string;
+	// Modo numérico do git (0o100644, 0o100755, 0o120000 ou 0o160000)
+	mode: number;
+	// 0 = normal; 1, 2 e 3 = base, local e remoto de um conflito
+	stage: number;
+	size: number;
+	// Data de modificação em milissegundos, usada para pular arquivos que não mudaram
+	mtime: number;
+	ctime: number;
+	// Campos de stat gravados pelo git, preservados quando a entrada não muda
+	dev: number;
+	ino: number;
+	uid: number;
+	gid: number;
+}
+
+export const FILE_MODE = 0o100644;
+export const EXECUTABLE_MODE = 0o100755;
+export const SYMLINK_MODE = 0o120000;
+export const GITLINK_MODE = 0o160000;
+
+/**
+ * Ordem do índice e das listagens: bytes do caminho em UTF-8
+ */
+export function comparePaths(a: string, b: string): number {
+	return Buffer.compare(Buffer.from(a, 'utf8'), Buffer.from(b, 'utf8'));
+}
+
+export function modeString(mode: number): string {
+	return mode.toString(8);
+}
+
+export function parseIndex(data: Buffer): IndexEntry[] {
+	if (data.toString('latin1', 0, 4) !== 'DIRC') {
+		throw new Error('fatal: index file corrupt');
+	}
+	const version = data.readUInt32BE(4);
+	if (version !== 2 && version !== 3) {
+		throw new Error(`error: bad index version ${version}`);
+	}
+	const count = data.readUInt32BE(8);
+	const entries: IndexEntry[] = [];
+	let offset = 12;
+	for (let i = 0; i < count; i++) {
+		const flags = data.readUInt16BE(offset + 60);
+		const extended = version === 3 && (flags & 0x4000) !== 0;
+		const pathStart = offset + 62 + (extended ? 2 : 0);
+		const pathEnd = data.indexOf(0, pathStart);
+		entries.push({
+			ctime: data.readUInt32BE(offset) * 1000 + Math.floor(data.readUInt32BE(offset + 4) / 1e6),
+			mtime: data.readUInt32BE(offset + 8) * 1000 + Math.floor(data.readUInt32BE(offset + 12) / 1e6),
+			dev: data.readUInt32BE(offset + 16),
+			ino: data.readUInt32BE(offset + 20),
+			mode: data.readUInt32BE(offset + 24),
+			uid: data.readUInt32BE(offset + 28),
+			gid: data.readUInt32BE(offset + 32),
+			size: data.readUInt32BE(offset + 36),
+			hash: data.toString('hex', offset + 40, offset + 60),
+			stage: (flags >> 12) & 3,
+			path: data.toString('utf8', pathStart, pathEnd)
+		});
+		// Cada entrada é completada com 1 a 8 bytes nulos até um múltiplo de 8
+		offset += Math.floor((pathEnd - offset + 8) / 8) * 8;
+	}
+	return entries;
+}
+
+export function serializeIndex(entries: IndexEntry[]): Buffer {
+	const sorted = [...entries].sort((a, b) => comparePaths(a.path, b.path) || a.stage - b.stage);
+	const header = Buffer.alloc(12);
+	header.write('DIRC', 0, 'latin1');
+	header.writeUInt32BE(2, 4);
+	header.writeUInt32BE(sorted.length, 8);
+	const parts: Buffer[] = [header];
+	for (const entry of sorted) {
+		const name = Buffer.from(entry.path, 'utf8');
+		const length = Math.floor((62 + name.length + 8) / 8) * 8;
+		const buffer = Buffer.alloc(length);
+		const seconds = (ms: number) => Math.floor(ms / 1000) >>> 0;
+		const nanoseconds = (ms: number) => (Math.floor(ms) % 1000) * 1e6;
+		buffer.writeUInt32BE(seconds(entry.ctime), 0);
+		buffer.writeUInt32BE(nanoseconds(entry.ctime), 4);
+		buffer.writeUInt32BE(seconds(entry.mtime), 8);
+		buffer.writeUInt32BE(nanoseconds(entry.mtime), 12);
+		buffer.writeUInt32BE(entry.dev >>> 0, 16);
+		buffer.writeUInt32BE(entry.ino >>> 0, 20);
+		buffer.writeUInt32BE(entry.mode, 24);
+		buffer.writeUInt32BE(entry.uid >>> 0, 28);
+		buffer.writeUInt32BE(entry.gid >>> 0, 32);
+		// Como no git, o tamanho fica truncado em 32 bits
+		buffer.writeUInt32BE(entry.size % 2 ** 32, 36);
+		buffer.write(entry.hash, 40, 'hex');
+		buffer.writeUInt16BE((entry.stage << 12) | Math.min(name.length, 0xfff), 60);
+		name.copy(buffer, 62);
+		parts.push(buffer);
+	}
+	const body = Buffer.concat(parts);
+	return Buffer.concat([body, crypto.createHash('sha1').update(body).digest()]);
+}
@@ -0,0 +1,201 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { GitManager, GitSyncConfig } from './gitManager';
+import type { VaultFs } from './gitObjects';
+import { planSquash } from './squash';
+import { git, tempDir } from './testHelpers';
+
+// URL vista pelo plugin; o insteadOf de cada clone aponta para o remote local
+const REMOTE_URL = 'https://example.com/owner/vault.git';
+
+const root = tempDir('github-sync-');
+
+function writeNote(dir: string, file: string, content: string): void {
+	fs.writeFileSync(path.join(dir, file), content);
+}
+
+function readNote(dir: string, file: string): string {
+	return fs.readFileSync(path.join(dir, file), 'utf8');
+}
+
+/**
+ * Remote vazio com um primeiro commit em main; devolve o caminho do remote
+ */
+function createRemote(name: string): string {
+	const remote = path.join(root, `${name}.git`);
+	git(root, 'init', '-q', '--bare', '-b', 'main', remote);
+	const seed = cloneVault(remote, `${name}-seed`);
+	writeNote(seed, 'note.md', 'original\n');
+	git(seed, 'add', '-A');
+	git(seed, 'commit', '-q', '-m', 'primeiro commit');
+	git(seed, 'push', '-q', 'origin', 'main');
+	return remote;
+}
+
+function cloneVault(remote: string, name: string): string {
+	const dir = path.join(root, name);
+	git(root, 'clone', '-q', remote, dir);
+	git(dir, 'config', `url.${remote}.insteadOf`, REMOTE_URL);
+	return dir;
+}
+
+/**
+ * Commit e push feitos por outro dispositivo, direto pelo git
+ */
+function pushFromOtherDevice(remote: string, name: string, content: string, branch = 'main', file = 'note.md'): void {
+	const dir = cloneVault(remote, name);
+	if (branch !== 'main') {
+		git(dir, 'checkout', '-q', '-b', branch);
+	}
+	writeNote(dir, file, content);
+	git(dir, 'add', '-A');
+	git(dir, 'commit', '-q', '-m', `alteração de ${name}`);
+	git(dir, 'push', '-q', 'origin', branch);
+}
+
+// Backend JavaScript sem vault nem rede, para o que é decidido antes de tocar no repositório
+const JS_BACKEND: Partial<GitSyncConfig> = {
+	backend: 'js',
+	vault: { exists: () => Promise.resolve(false) } as unknown as VaultFs,
+	http: () => Promise.reject(new Error('sem rede nos testes'))
+};
+
+function createManager(dir: string, config: Partial<GitSyncConfig> = {}): GitManager {
+	return new GitManager({
+		repoPath: dir,
+		remoteUrl: REMOTE_URL,
+		branch: 'main',
+		userName: 'Test',
+		userEmail: 'test@example.com',
+		...config
+	});
+}
+
+void test('pull grava um ponto de restauração e desfazer volta ao estado anterior', async () => {
+	const remote = createRemote('undo');
+	const vault = cloneVault(remote, 'undo-vault');
+	pushFromOtherDevice(remote, 'undo-other', 'remoto\n');
+	const manager = createManager(vault);
+
+	const pulled = await manager.pull();
+	assert.ok(pulled.ok);
+	assert.strictEqual(readNote(vault, 'note.md'), 'remoto\n');
+
+	const snapshots = await manager.listSnapshots();
+	assert.strictEqual(snapshots.length, 1);
+	const [snapshot] = snapshots;
+	assert.ok(snapshot);
+	assert.strictEqual(snapshot.reason, 'pull');
+
+	assert.ok((await manager.restoreSnapshot(snapshot)).ok);
+	assert.strictEqual(readNote(vault, 'note.md'), 'original\n');
+});
+
+void test('pull sem novidades no remote não grava ponto de restauração', async () => {
+	const remote = createRemote('uptodate');
+	const vault = cloneVault(remote, 'uptodate-vault');
+	const manager = createManager(vault);
+
+	assert.ok((await manager.pull()).ok);
+	assert.strictEqual((await manager.listSnapshots()).length, 0);
+});
+
+void test('ponto de restauração com merge em andamento guarda o MERGE_HEAD', async () => {
+	const remote = createRemote('merge');
+	const vault = cloneVault(remote, 'merge-vault');
+	pushFromOtherDevice(remote, 'merge-other', 'remoto\n');
+	writeNote(vault, 'note.md', 'local\n');
+	git(vault, 'commit', '-q', '-am', 'alteração local');
+	const manager = createManager(vault);
+
+	const pulled = await manager.pull();
+	assert.ok(!pulled.ok && pulled.error.code === 'conflict');
+	assert.ok(await manager.isMergeInProgress());
+
+	assert.ok((await manager.createSnapshot('conflicts')).ok);
+	const [latest] = await manager.listSnapshots();
+	assert.deepStrictEqual(latest?.parents, [git(vault, 'rev-parse', 'HEAD'), git(vault, 'rev-parse', 'MERGE_HEAD')]);
+});
+
+void test('pull integra a branch de outro dispositivo que divergiu da branch compartilhada', async () => {
+	const remote = createRemote('devices');
+	const vault = cloneVault(remote, 'devices-vault');
+	pushFromOtherDevice(remote, 'devices-phone', 'do celular\n', 'devices/phone');
+	pushFromOtherDevice(remote, 'devices-desktop', 'do desktop\n', 'main', 'other.md');
+	const manager = createManager(vault, { deviceId: 'laptop' });
+
+	assert.ok((await manager.pull()).ok);
+	assert.strictEqual(git(vault, 'branch', '--show-current'), 'devices/laptop');
+	assert.strictEqual(readNote(vault, 'note.md'), 'do celular\n');
+	assert.strictEqual(readNote(vault, 'other.md'), 'do desktop\n');
+	assert.strictEqual(git(vault, 'merge-base', 'origin/devices/phone', 'HEAD'), git(vault, 'rev-parse', 'origin/devices/phone'));
+	assert.strictEqual((await manager.listSnapshots())[0]?.reason, 'pull');
+});
+
+void test('concluir o merge sai do estado de merge e não repete o commit', async () => {
+	const remote = createRemote('complete');
+	const vault = cloneVault(remote, 'complete-vault');
+	pushFromOtherDevice(remote, 'complete-other', 'remoto\n');
+	writeNote(vault, 'note.md', 'local\n');
+	git(vault, 'commit', '-q', '-am', 'alteração local');
+	const manager = createManager(vault);
+
+	assert.ok(!(await manager.pull()).ok);
+	assert.ok((await manager.resolveFile('note.md', 'resolvido\n')).ok);
+	assert.ok((await manager.completeMerge()).ok);
+	assert.strictEqual(await manager.isMergeInProgress(), false);
+	assert.strictEqual(git(vault, 'rev-list', '--count', '--merges', 'HEAD'), '1');
+	assert.ok(!(await manager.completeMerge()).ok);
+});
+
+void test('remote inexistente é classificado como remote-not-found', async () => {
+	const remote = createRemote('missing');
+	const vault = cloneVault(remote, 'missing-vault');
+	git(vault, 'config', '--unset', `url.${remote}.insteadOf`);
+	git(vault, 'config', `url.${path.join(root, 'nowhere.git')}.insteadOf`, REMOTE_URL);
+	const manager = createManager(vault);
+
+	const pulled = await manager.pull();
+	assert.ok(!pulled.ok && pulled.error.code === 'remote-not-found');
+});
+
+void test('agrupar commits automáticos nunca reescreve os já enviados', async () => {
+	const remote = createRemote('squash');
+	const vault = cloneVault(remote, 'squash-vault');
+	const autoCommit = (content: string) => {
+		writeNote(vault, 'note.md', content);
+		git(vault, 'commit', '-q', '-am', `automático: ${content}`, '-m', 'Sync-Trigger: interval');
+	};
+	autoCommit('um\n');
+	autoCommit('dois\n');
+	git(vault, 'push', '-q', 'origin', 'main');
+	const pushed = git(vault, 'rev-parse', 'HEAD');
+	autoCommit('três\n');
+	autoCommit('quatro\n');
+	const manager = createManager(vault);
+	assert.ok((await manager.initialize()).ok);
+
+	const unpushed = await manager.getUnpushedCommits();
+	assert.deepStrictEqual(unpushed.map(commit => commit.trigger), ['interval', 'interval']);
+	assert.ok((await manager.squashCommits(planSquash(unpushed, 'push'), () => 'agrupado')).ok);
+	assert.strictEqual(git(vault, 'rev-parse', 'HEAD~1'), pushed);
+	assert.strictEqual(git(vault, 'rev-list', '--count', 'origin/main..HEAD'), '1');
+	assert.strictEqual(readNote(vault, 'note.md'), 'quatro\n');
+	assert.strictEqual(git(vault, 'status', '--porcelain'), '');
+});
+
+void test('backend JavaScript ignora as branches por dispositivo', () => {
+	const js = createManager(root, { ...JS_BACKEND, deviceId: 'laptop' });
+	assert.strictEqual(js.backendKind, 'js');
+	assert.strictEqual(js.usesDeviceBranch, false);
+	assert.strictEqual(createManager(root, { deviceId: 'laptop' }).usesDeviceBranch, true);
+});
+
+void test('remote SSH sem token no backend JavaScript tem erro próprio', async () => {
+	const manager = createManager(root, { ...JS_BACKEND, remoteUrl: 'git@github.com:owner/vault.git' });
+
+	const inspected = await manager.inspectRemote();
+	assert.ok(!inspected.ok && inspected.error.code === 'ssh-unsupported');
+});
@@ -0,0 +1,160 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert';
+import { Buffer } from 'buffer';
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+	buildPack,
+	createSignature,
+	GitObject,
+	hashObject,
+	ObjectStore,
+	ObjectType,
+	parseCommit,
+	parseTree,
+	serializeCommit,
+	serializeTree,
+	TREE_MODE
+} from './gitObjects';
+import { git, GIT_ENV, nodeVaultFs, tempDir } from './testHelpers';
+
+const root = tempDir('github-sync-objects-');
+
+function gitBuffer(cwd: string, ...args: string[]): Buffer {
+	return execFileSync('git', args, { cwd, env: GIT_ENV });
+}
+
+function openStore(dir: string): ObjectStore {
+	return new ObjectStore(nodeVaultFs(dir), '.git');
+}
+
+/**
+ * Repositório do git do sistema com uma pasta e várias versões de uma nota longa (boas candidatas a delta)
+ */
+function createRepo(name: string): string {
+	const dir = path.join(root, name);
+	git(root, 'init', '-q', '-b', 'main', dir);
+	fs.mkdirSync(path.join(dir, 'pasta'));
+	const lines = Array.from({ length: 200 }, (_, i) => `- linha ${i} da nota com algum texto para comprimir`);
+	for (let version = 0; version < 5; version++) {
+		lines[version * 40] = `- linha alterada na versão ${version}`;
+		fs.writeFileSync(path.join(dir, 'nota.md'), `${lines.join('\n')}\n`);
+		fs.writeFileSync(path.join(dir, 'pasta', 'outra.md'), `versão ${version}\n`);
+		git(dir, 'add', '-A');
+		git(dir, 'commit', '-q', '-m', `versão ${version}`);
+	}
+	return dir;
+}
+
+/**
+ * Todos os objetos alcançáveis no repositório, com o tipo informado pelo git
+ */
+function listObjects(dir: string): { hash: string; type: ObjectType }[] {
+	const hashes = git(dir, 'rev-list', '--objects', '--all').split('\n').map(line => line.split(' ')[0] ?? '');
+	return hashes.map(hash => ({ hash, type: git(dir, 'cat-file', '-t', hash) as ObjectType }));
+}
+
+async function assertSameObjects(dir: string, store: ObjectStore): Promise<void> {
+	for (const { hash, type } of listObjects(dir)) {
+		const object = await store.read(hash);
+		assert.strictEqual(object.type, type);
+		assert.ok(object.data.equals(gitBuffer(dir, 'cat-file', type, hash)), `conteúdo de ${hash}`);
+	}
+}
+
+void test('commit e árvore do git são lidos e gravados byte a byte', () => {
+	const dir = createRepo('roundtrip');
+	const head = git(dir, 'rev-parse', 'HEAD');
+	const rawCommit = gitBuffer(dir, 'cat-file', 'commit', head);
+	const commit = parseCommit(rawCommit);
+	assert.strictEqual(commit.tree, git(dir, 'rev-parse', 'HEAD^{tree}'));
+	assert.deepStrictEqual(commit.parents, [git(dir, 'rev-parse', 'HEAD~1')]);
+	assert.strictEqual(commit.author.email, 'test@example.com');
+	assert.strictEqual(commit.message, 'versão 4\n');
+	assert.ok(serializeCommit(commit).equals(rawCommit));
+	assert.strictEqual(hashObject('commit', rawCommit), head);
+
+	const rawTree = gitBuffer(dir, 'cat-file', 'tree', commit.tree);
+	const entries = parseTree(rawTree);
+	assert.deepStrictEqual(entries.map(entry => [entry.mode, entry.name]), [['100644', 'nota.md'], [TREE_MODE, 'pasta']]);
+	// A ordem de entrada não importa: a árvore é gravada na ordem do git
+	assert.ok(serializeTree([...entries].reverse()).equals(rawTree));
+	assert.strictEqual(hashObject('tree', rawTree), commit.tree);
+});
+
+void test('lê objetos soltos e empacotados com deltas', async () => {
+	const dir = createRepo('packed');
+	await assertSameObjects(dir, openStore(dir));
+
+	git(dir, 'gc', '-q', '--aggressive');
+	const [pack] = fs.readdirSync(path.join(dir, '.git/objects/pack')).filter(file => file.endsWith('.idx'));
+	assert.ok(pack);
+	// Linhas do verify-pack com profundidade e base são objetos guardados como delta
+	const deltas = git(dir, 'verify-pack', '-v', `.git/objects/pack/${pack}`).split('\n').filter(line => /^[0-9a-f]{40} \w+\s+\d+ \d+ \d+ \d+ [0-9a-f]{40}$/.test(line));
+	assert.ok(deltas.length > 0);
+	await assertSameObjects(dir, openStore(dir));
+});
+
+void test('objetos gravados passam no git fsck', async () => {
+	const dir = path.join(root, 'written');
+	git(root, 'init', '-q', '-b', 'main', dir);
+	const store = openStore(dir);
+
+	const blob = await store.write('blob', Buffer.from('conteúdo\n', 'utf8'));
+	const subtree = await store.write('tree', serializeTree([{ mode: '100644', name: 'dentro.md', hash: blob }]));
+	const tree = await store.write('tree', serializeTree([
+		{ mode: TREE_MODE, name: 'pasta', hash: subtree },
+		{ mode: '100644', name: 'nota.md', hash: blob }
+	]));
+	const signature = createSignature('Test', 'test@example.com', new Date(1700000000000));
+	const commit = await store.write('commit', serializeCommit({ tree, parents: [], author: signature, committer: signature, message: 'gravado pelo JavaScript' }));
+	git(dir, 'update-ref', 'refs/heads/main', commit);
+
+	git(dir, 'fsck', '--strict', '--no-dangling');
+	assert.strictEqual(git(dir, 'cat-file', 'blob', 'main:pasta/dentro.md'), 'conteúdo');
+	assert.strictEqual(git(dir, 'log', '-1', '--format=%s', 'main'), 'gravado pelo JavaScript');
+	// Gravar de novo o mesmo objeto devolve o mesmo hash
+	assert.strictEqual(await store.write('blob', Buffer.from('conteúdo\n', 'utf8')), blob);
+});
+
+void test('pack recebido com deltas é indexado como pelo git', async () => {
+	const source = createRepo('pack-source');
+	const objects = listObjects(source).map(object => object.hash).join('\n');
+
+	for (const deltaBase of ['--delta-base-offset', '--no-delta-base-offset']) {
+		const pack = execFileSync('git', ['pack-objects', '--stdout', '--window=10', deltaBase], { cwd: source, env: GIT_ENV, input: `${objects}\n` });
+		const dir = path.join(root, `pack-target${deltaBase}`);
+		git(root, 'init', '-q', '-b', 'main', dir);
+		const store = openStore(dir);
+		await store.addPack(pack);
+
+		const packDir = path.join(dir, '.git/objects/pack');
+		const [index] = fs.readdirSync(packDir).filter(file => file.endsWith('.idx'));
+		assert.ok(index);
+		// O índice gravado é o mesmo que o git index-pack gera para o pack
+		const expected = path.join(root, `expected${deltaBase}.idx`);
+		git(dir, 'index-pack', '-o', expected, path.join(packDir, index.replace(/\.idx$/, '.pack')));
+		assert.ok(fs.readFileSync(path.join(packDir, index)).equals(fs.readFileSync(expected)));
+
+		git(dir, 'update-ref', 'refs/heads/main', git(source, 'rev-parse', 'HEAD'));
+		git(dir, 'fsck', '--strict', '--no-dangling');
+		await assertSameObjects(source, openStore(dir));
+	}
+});
+
+void test('pack montado para o push é aceito pelo git index-pack', async () => {
+	const source = createRepo('push-source');
+	const store = openStore(source);
+	const objects: GitObject[] = [];
+	for (const { hash } of listObjects(source)) {
+		objects.push(await store.read(hash));
+	}
+
+	const dir = path.join(root, 'push-target');
+	git(root, 'init', '-q', '--bare', '-b', 'main', dir);
+	execFileSync('git', ['index-pack', '--stdin', '--strict'], { cwd: dir, env: GIT_ENV, input: buildPack(objects) });
+	git(dir, 'update-ref', 'refs/heads/main', git(source, 'rev-parse', 'HEAD'));
+	git(dir, 'fsck', '--strict', '--no-dangling');
+	assert.strictEqual(git(dir, 'rev-parse', 'main^{tree}'), git(source, 'rev-parse', 'HEAD^{tree}'));
+});
@@ -0,0 +1,581 @@
+/**
+ * Banco de objetos do git para o backend em JavaScript: objetos soltos e packfiles (leitura com deltas,
+ * indexação dos packs recebidos no fetch e montagem dos enviados no push), além do formato das
+ * árvores e dos commits. Todo acesso ao disco passa pelo adapter do vault.
+ */
+import type { DataAdapter } from 'obsidian';
+import { Buffer } from 'buffer';
+import * as crypto from 'crypto';
+import * as zlib from 'zlib';
+
+export type VaultFs = Pick<DataAdapter, 'exists' | 'stat' | 'list' | 'readBinary' | 'writeBinary' | 'mkdir' | 'remove' | 'rmdir'>;
+
+export type ObjectType = 'commit' | 'tree' | 'blob' | 'tag';
+
+export interface GitObject {
+	type: ObjectType;
+	data: Buffer;
+}
+
+export interface TreeEntry {
+	mode: string;
+	name: string;
+	hash: string;
+}
+
+export interface Signature {
+	name: string;
+	email: string;
+	// Segundos desde a época
+	timestamp: number;
+	// Fuso no formato do git (+0100)
+	timezone: string;
+}
+
+export interface CommitObject {
+	tree: string;
+	parents: string[];
+	author: Signature;
+	committer: Signature;
+	message: string;
+}
+
+export const TREE_MODE = '40000';
+export const ZERO_HASH = '0'.repeat(40);
+
+const TYPE_CODES: Record<number, ObjectType> = { 1: 'commit', 2: 'tree', 3: 'blob', 4: 'tag' };
+const TYPE_NUMBERS: Record<ObjectType, number> = { commit: 1, tree: 2, blob: 3, tag: 4 };
+const OFS_DELTA = 6;
+const REF_DELTA = 7;
+
+// Objetos (árvores e commits) mantidos em memória; acima do limite o cache recomeça
+const CACHE_LIMIT = 20000;
+
+export function toArrayBuffer(data: Buffer): ArrayBuffer {
+	return data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength);
+}
+
+export function hashObject(type: ObjectType, data: Buffer): string {
+	return crypto.createHash('sha1').update(`${type} ${data.length}\0`).update(data).digest('hex');
+}
+
+/**
+ * Ordem das entradas de uma árvore no git: pelo nome, com as pastas comparadas como `nome/`
+ */
+function treeSortKey(entry: TreeEntry): Buffer {
+	return Buffer.from(entry.mode === TREE_MODE ? `${entry.name}/` : entry.name, 'utf8');
+}
+
+export function parseTree(data: Buffer): TreeEntry[] {
+	const entries: TreeEntry[] = [];
+	let offset = 0;
+	while (offset < data.length) {
+		const space = data.indexOf(0x20, offset);
+		const nul = data.indexOf(0, space);
+		entries.push({
+			mode: data.toString('utf8', offset, space),
+			name: data.toString('utf8', space + 1, nul),
+			hash: data.toString('hex', nul + 1, nul + 21)
+		});
+		offset = nul + 21;
+	}
+	return entries;
+}
+
+export function serializeTree(entries: TreeEntry[]): Buffer {
+	const sorted = [...entries].sort((a, b) => Buffer.compare(treeSortKey(a), treeSortKey(b)));
+	return Buffer.concat(sorted.flatMap(entry => [
+		Buffer.from(`${entry.mode} ${entry.name}\0`, 'utf8'),
+		Buffer.from(entry.hash, 'hex')
+	]));
+}
+
+function parseSignature(value: string): Signature {
+	const match = value.match(/^(.*) <(.*)> (\d+) ([+-]\d{4})$/);
+	return match
+		? { name: match[1] ?? '', email: match[2] ?? '', timestamp: Number(match[3]), timezone: match[4] ?? '+0000' }
+		: { name: value, email: '', timestamp: 0, timezone: '+0000' };
+}
+
+function formatSignature(signature: Signature): string {
+	return `${signature.name} <${signature.email}> ${signature.timestamp} ${signature.timezone}`;
+}
+
+export function parseCommit(data: Buffer): CommitObject {
+	const text = data.toString('utf8');
+	const headerEnd = text.indexOf('\n\n');
+	const headers = (headerEnd >= 0 ? text.slice(0, headerEnd) : text).split('\n');
+	const commit: CommitObject = {
+		tree: '',
+		parents: [],
+		author: parseSignature(''),
+		committer: parseSignature(''),
+		message: headerEnd >= 0 ? text.slice(headerEnd + 2) : ''
+	};
+	for (const line of headers) {
+		// Linhas iniciadas por espaço continuam o cabeçalho anterior (ex.: gpgsig)
+		const space = line.indexOf(' ');
+		const key = line.slice(0, space);
+		const value = line.slice(space + 1);
+		if (key === 'tree') {
+			commit.tree = value;
+		} else if (key === 'parent') {
+			commit.parents.push(value);
+		} else if (key === 'author') {
+			commit.author = parseSignature(value);
+		} else if (key === 'committer') {
+			commit.committer = parseSignature(value);
+		}
+	}
+	return commit;
+}
+
+export function serializeCommit(commit: CommitObject): Buffer {
+	const lines = [`tree ${commit.tree}`, ...commit.parents.map(parent => `parent ${parent}`)];
+	lines.push(`author ${formatSignature(commit.author)}`, `committer ${formatSignature(commit.committer)}`);
+	const message = commit.message.endsWith('\n') ? commit.message : `${commit.message}\n`;
+	return Buffer.from(`${lines.join('\n')}\n\n${message}`, 'utf8');
+}
+
+/**
+ * Assinatura com a data atual e o fuso local
+ */
+export function createSignature(name: string, email: string, date = new Date()): Signature {
+	const offset = -date.getTimezoneOffset();
+	const abs = Math.abs(offset);
+	const timezone = `${offset < 0 ? '-' : '+'}${String(Math.floor(abs / 60)).padStart(2, '0')}${String(abs % 60).padStart(2, '0')}`;
+	return { name, email, timestamp: Math.floor(date.getTime() / 1000), timezone };
+}
+
+/**
+ * Data ISO 8601 com o fuso do autor (mesmo formato do %aI do git)
+ */
+export function formatSignatureDate(signature: Signature): string {
+	const sign = signature.timezone.startsWith('-') ? -1 : 1;
+	const minutes = sign * (Number(signature.timezone.slice(1, 3)) * 60 + Number(signature.timezone.slice(3, 5)));
+	const local = new Date((signature.timestamp + minutes * 60) * 1000).toISOString().slice(0, 19);
+	return `${local}${signature.timezone.slice(0, 3)}:${signature.timezone.slice(3, 5)}`;
+}
+
+/**
+ * Aplica um delta do git (instruções de cópia da base e de inserção) sobre o objeto base
+ */
+function applyDelta(base: Buffer, delta: Buffer): Buffer {
+	let offset = 0;
+	const readSize = (): number => {
+		let size = 0;
+		let shift = 0;
+		let byte: number;
+		do {
+			byte = delta[offset++] ?? 0;
+			size += (byte & 0x7f) * 2 ** shift;
+			shift += 7;
+		} while (byte & 0x80);
+		return size;
+	};
+	readSize();
+	const target = Buffer.alloc(readSize());
+	let written = 0;
+	while (offset < delta.length) {
+		const op = delta[offset++] ?? 0;
+		if (op & 0x80) {
+			let copyOffset = 0;
+			let copySize = 0;
+			for (let bit = 0; bit < 4; bit++) {
+				if (op & (1 << bit)) {
+					copyOffset += (delta[offset++] ?? 0) * 2 ** (8 * bit);
+				}
+			}
+			for (let bit = 0; bit < 3; bit++) {
+				if (op & (0x10 << bit)) {
+					copySize += (delta[offset++] ?? 0) * 2 ** (8 * bit);
+				}
+			}
+			written += base.copy(target, written, copyOffset, copyOffset + (copySize || 0x10000));
+		} else if (op > 0) {
+			written += delta.copy(target, written, offset, offset + op);
+			offset += op;
+		} else {
+			throw new Error('fatal: failed to apply delta');
+		}
+	}
+	return target;
+}
+
+interface PackEntryHeader {
+	type: number;
+	// Início dos dados comprimidos
+	dataOffset: number;
+	baseOffset?: number;
+	baseHash?: string;
+}
+
+function readEntryHeader(pack: Buffer, offset: number): PackEntryHeader {
+	let byte = pack[offset++] ?? 0;
+	const type = (byte >> 4) & 7;
+	while (byte & 0x80) {
+		byte = pack[offset++] ?? 0;
+	}
+	if (type === OFS_DELTA) {
+		byte = pack[offset++] ?? 0;
+		let distance = byte & 0x7f;
+		while (byte & 0x80) {
+			byte = pack[offset++] ?? 0;
+			distance = (distance + 1) * 128 + (byte & 0x7f);
+		}
+		// A base fica antes, à distância informada do início desta entrada
+		return { type, dataOffset: offset, baseOffset: -distance };
+	}
+	if (type === REF_DELTA) {
+		return { type, dataOffset: offset + 20, baseHash: pack.toString('hex', offset, offset + 20) };
+	}
+	return { type, dataOffset: offset };
+}
+
+/**
+ * Inflate dos dados de uma entrada; devolve também quantos bytes comprimidos foram consumidos
+ */
+function inflateEntry(pack: Buffer, offset: number): { data: Buffer; consumed: number } {
+	const result = zlib.inflateSync(pack.subarray(offset), { info: true } as zlib.ZlibOptions) as unknown as { buffer: Buffer; engine: zlib.Inflate };
+	return { data: result.buffer, consumed: result.engine.bytesWritten };
+}
+
+const CRC_TABLE = (() => {
+	const table = new Int32Array(256);
+	for (let n = 0; n < 256; n++) {
+		let c = n;
+		for (let k = 0; k < 8; k++) {
+			c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+		}
+		table[n] = c;
+	}
+	return table;
+})();
+
+function crc32(data: Buffer): number {
+	let crc = -1;
+	for (const byte of data) {
+		crc = (CRC_TABLE[(crc ^ byte) & 0xff] ?? 0) ^ (crc >>> 8);
+	}
+	return (crc ^ -1) >>> 0;
+}
+
+/**
+ * Pack já indexado no disco (.pack + .idx versão 2); o conteúdo do .pack é lido na primeira consulta
+ */
+class PackFile {
+	private fs: VaultFs;
+	private packPath: string;
+	private index: Buffer;
+	private count: number;
+	private data: Buffer | null = null;
+
+	constructor(fs: VaultFs, packPath: string, index: Buffer) {
+		if (index.readUInt32BE(0) !== 0xff744f63 || index.readUInt32BE(4) !== 2) {
+			throw new Error(`fatal: index file ${packPath} is not supported by this binary`);
+		}
+		this.fs = fs;
+		this.packPath = packPath;
+		this.index = index;
+		this.count = index.readUInt32BE(8 + 255 * 4);
+	}
+
+	/**
+	 * Posição do objeto no pack (busca binária na tabela de nomes do índice), ou null se não estiver nele
+	 */
+	find(hash: string): number | null {
+		const target = Buffer.from(hash, 'hex');
+		const first = target[0] ?? 0;
+		let low = first === 0 ? 0 : this.index.readUInt32BE(8 + (first - 1) * 4);
+		let high = this.index.readUInt32BE(8 + first * 4);
+		const names = 8 + 256 * 4;
+		while (low < high) {
+			const middle = (low + high) >>> 1;
+			const cmp = Buffer.compare(this.index.subarray(names + middle * 20, names + middle * 20 + 20), target);
+			if (cmp === 0) {
+				const offsets = names + this.count * 24;
+				const value = this.index.readUInt32BE(offsets + middle * 4);
+				if (value & 0x80000000) {
+					const large = offsets + this.count * 4 + (value & 0x7fffffff) * 8;
+					return this.index.readUInt32BE(large) * 2 ** 32 + this.index.readUInt32BE(large + 4);
+				}
+				return value;
+			}
+			if (cmp < 0) {
+				low = middle + 1;
+			} else {
+				high = middle;
+			}
+		}
+		return null;
+	}
+
+	async read(offset: number, store: ObjectStore): Promise<GitObject> {
+		this.data ??= Buffer.from(await this.fs.readBinary(this.packPath));
+		const header = readEntryHeader(this.data, offset);
+		const { data } = inflateEntry(this.data, header.dataOffset);
+		if (header.type === OFS_DELTA || header.type === REF_DELTA) {
+			const base = header.baseHash
+				? await store.read(header.baseHash)
+				: await this.read(offset + (header.baseOffset ?? 0), store);
+			return { type: base.type, data: applyDelta(base.data, data) };
+		}
+		const type = TYPE_CODES[header.type];
+		if (!type) {
+			throw new Error(`fatal: unknown object type in pack ${this.packPath}`);
+		}
+		return { type, data };
+	}
+}
+
+/**
+ * Lê e grava objetos em .git/objects
+ */
+export class ObjectStore {
+	private fs: VaultFs;
+	private gitDir: string;
+	private packs: PackFile[] | null = null;
+	private cache = new Map<string, GitObject>();
+
+	constructor(fs: VaultFs, gitDir: string) {
+		this.fs = fs;
+		this.gitDir = gitDir;
+	}
+
+	private loosePath(hash: string): string {
+		return `${this.gitDir}/objects/${hash.slice(0, 2)}/${hash.slice(2)}`;
+	}
+
+	private async loadPacks(): Promise<PackFile[]> {
+		if (this.packs) {
+			return this.packs;
+		}
+		const packs: PackFile[] = [];
+		const dir = `${this.gitDir}/objects/pack`;
+		if (await this.fs.exists(dir)) {
+			for (const file of (await this.fs.list(dir)).files) {
+				if (file.endsWith('.idx')) {
+					const packPath = file.replace(/\.idx$/, '.pack');
+					packs.push(new PackFile(this.fs, packPath, Buffer.from(await this.fs.readBinary(file))));
+				}
+			}
+		}
+		this.packs = packs;
+		return packs;
+	}
+
+	async has(hash: string): Promise<boolean> {
+		if (this.cache.has(hash) || await this.fs.exists(this.loosePath(hash))) {
+			return true;
+		}
+		return (await this.loadPacks()).some(pack => pack.find(hash) !== null);
+	}
+
+	async read(hash: string): Promise<GitObject> {
+		const cached = this.cache.get(hash);
+		if (cached) {
+			return cached;
+		}
+		let object: GitObject | null = null;
+		const loose = this.loosePath(hash);
+		if (await this.fs.exists(loose)) {
+			const raw = zlib.inflateSync(Buffer.from(await this.fs.readBinary(loose)));
+			const nul = raw.indexOf(0);
+			const [type = ''] = raw.toString('utf8', 0, nul).split(' ');
+			object = { type: type as ObjectType, data: raw.subarray(nul + 1) };
+		} else {
+			for (const pack of await this.loadPacks()) {
+				const offset = pack.find(hash);
+				if (offset !== null) {
+					object = await pack.read(offset, this);
+					break;
+				}
+			}
+		}
+		if (!object) {
+			throw new Error(`fatal: bad object ${hash}`);
+		}
+		if (object.type !== 'blob') {
+			if (this.cache.size >= CACHE_LIMIT) {
+				this.cache.clear();
+			}
+			this.cache.set(hash, object);
+		}
+		return object;
+	}
+
+	async readCommit(hash: string): Promise<CommitObject> {
+		const object = await this.read(hash);
+		if (object.type !== 'commit') {
+			throw new Error(`fatal: object ${hash} is not a commit`);
+		}
+		return parseCommit(object.data);
+	}
+
+	async readTree(hash: string): Promise<TreeEntry[]> {
+		const object = await this.read(hash);
+		if (object.type !== 'tree') {
+			throw new Error(`fatal: not a tree object: ${hash}`);
+		}
+		return parseTree(object.data);
+	}
+
+	async write(type: ObjectType, data: Buffer): Promise<string> {
+		const hash = hashObject(type, data);
+		if (await this.has(hash)) {
+			return hash;
+		}
+		const loose = this.loosePath(hash);
+		const dir = loose.slice(0, loose.lastIndexOf('/'));
+		if (!(await this.fs.exists(dir))) {
+			await this.fs.mkdir(dir);
+		}
+		const raw = Buffer.concat([Buffer.from(`${type} ${data.length}\0`), data]);
+		await this.fs.writeBinary(loose, toArrayBuffer(zlib.deflateSync(raw)));
+		return hash;
+	}
+
+	/**
+	 * Grava um pack recebido do remote com o índice correspondente. Os deltas precisam ter a base
+	 * no próprio pack ou no repositório (o fetch não pede packs "thin").
+	 */
+	async addPack(pack: Buffer): Promise<void> {
+		if (pack.toString('latin1', 0, 4) !== 'PACK') {
+			throw new Error('fatal: protocol error: bad pack header');
+		}
+		const count = pack.readUInt32BE(8);
+		if (count === 0) {
+			return;
+		}
+		const checksum = pack.subarray(pack.length - 20);
+		if (!crypto.createHash('sha1').update(pack.subarray(0, pack.length - 20)).digest().equals(checksum)) {
+			throw new Error('fatal: pack is corrupted (SHA1 mismatch)');
+		}
+
+		interface RawEntry { offset: number; header: PackEntryHeader; data: Buffer; crc: number; hash?: string; type?: ObjectType }
+		const entries: RawEntry[] = [];
+		const byOffset = new Map<number, RawEntry>();
+		let offset = 12;
+		for (let i = 0; i < count; i++) {
+			const header = readEntryHeader(pack, offset);
+			const { data, consumed } = inflateEntry(pack, header.dataOffset);
+			const end = header.dataOffset + consumed;
+			const entry: RawEntry = { offset, header, data, crc: crc32(pack.subarray(offset, end)) };
+			entries.push(entry);
+			byOffset.set(offset, entry);
+			offset = end;
+		}
+
+		// Resolve os deltas guardando o conteúdo de cada objeto enquanto o pack é indexado
+		const byHash = new Map<string, RawEntry>();
+		const resolve = async (entry: RawEntry): Promise<GitObject> => {
+			if (!entry.type) {
+				if (entry.header.type === OFS_DELTA || entry.header.type === REF_DELTA) {
+					const baseEntry = entry.header.type === OFS_DELTA
+						? byOffset.get(entry.offset + (entry.header.baseOffset ?? 0))
+						: byHash.get(entry.header.baseHash ?? '');
+					const base = baseEntry ? await resolve(baseEntry) : await this.read(entry.header.baseHash ?? '');
+					entry.data = applyDelta(base.data, entry.data);
+					entry.type = base.type;
+				} else {
+					const type = TYPE_CODES[entry.header.type];
+					if (!type) {
+						throw new Error('fatal: unknown object type in pack');
+					}
+					entry.type = type;
+				}
+				entry.hash = hashObject(entry.type, entry.data);
+			}
+			return { type: entry.type, data: entry.data };
+		};
+		// Deltas por hash podem apontar para objetos que aparecem depois no pack
+		let pending = entries;
+		while (pending.length > 0) {
+			const deferred: RawEntry[] = [];
+			for (const entry of pending) {
+				const baseHash = entry.header.baseHash;
+				if (baseHash && !byHash.has(baseHash) && !(await this.has(baseHash))) {
+					deferred.push(entry);
+					continue;
+				}
+				await resolve(entry);
+				byHash.set(entry.hash ?? '', entry);
+			}
+			if (deferred.length === pending.length) {
+				throw new Error('fatal: pack has unresolved deltas');
+			}
+			pending = deferred;
+		}
+
+		const sorted = [...entries].sort((a, b) => (a.hash ?? '').localeCompare(b.hash ?? ''));
+		const name = checksum.toString('hex');
+		const dir = `${this.gitDir}/objects/pack`;
+		if (!(await this.fs.exists(dir))) {
+			await this.fs.mkdir(dir);
+		}
+		await this.fs.writeBinary(`${dir}/pack-${name}.pack`, toArrayBuffer(pack));
+		const index = buildPackIndex(sorted.map(entry => ({ hash: entry.hash ?? '', offset: entry.offset, crc: entry.crc })), checksum);
+		await this.fs.writeBinary(`${dir}/pack-${name}.idx`, toArrayBuffer(index));
+		this.packs = null;
+	}
+}
+
+/**
+ * Índice (.idx versão 2) de um pack; as entradas devem estar ordenadas pelo hash
+ */
+function buildPackIndex(entries: { hash: string; offset: number; crc: number }[], packChecksum: Buffer): Buffer {
+	const fanout = Buffer.alloc(256 * 4);
+	const counts = new Array<number>(256).fill(0);
+	for (const entry of entries) {
+		const first = parseInt(entry.hash.slice(0, 2), 16);
+		counts[first] = (counts[first] ?? 0) + 1;
+	}
+	let total = 0;
+	counts.forEach((count, i) => {
+		total += count;
+		fanout.writeUInt32BE(total, i * 4);
+	});
+	const names = Buffer.concat(entries.map(entry => Buffer.from(entry.hash, 'hex')));
+	const crcs = Buffer.alloc(entries.length * 4);
+	const offsets = Buffer.alloc(entries.length * 4);
+	const large: Buffer[] = [];
+	entries.forEach((entry, i) => {
+		crcs.writeUInt32BE(entry.crc, i * 4);
+		if (entry.offset < 0x80000000) {
+			offsets.writeUInt32BE(entry.offset, i * 4);
+		} else {
+			offsets.writeUInt32BE((0x80000000 | large.length) >>> 0, i * 4);
+			const value = Buffer.alloc(8);
+			value.writeUInt32BE(Math.floor(entry.offset / 2 ** 32), 0);
+			value.writeUInt32BE(entry.offset % 2 ** 32, 4);
+			large.push(value);
+		}
+	});
+	const header = Buffer.from([0xff, 0x74, 0x4f, 0x63, 0, 0, 0, 2]);
+	const body = Buffer.concat([header, fanout, names, crcs, offsets, ...large, packChecksum]);
+	return Buffer.concat([body, crypto.createHash('sha1').update(body).digest()]);
+}
+
+/**
+ * Monta um pack sem deltas com os objetos informados (para o push)
+ */
+export function buildPack(objects: GitObject[]): Buffer {
+	const header = Buffer.alloc(12);
+	header.write('PACK', 0, 'latin1');
+	header.writeUInt32BE(2, 4);
+	header.writeUInt32BE(objects.length, 8);
+	const parts: Buffer[] = [header];
+	for (const object of objects) {
+		let size = object.data.length;
+		const bytes = [(TYPE_NUMBERS[object.type] << 4) | (size & 0x0f)];
+		size = Math.floor(size / 16);
+		while (size > 0) {
+			bytes[bytes.length - 1] = (bytes[bytes.length - 1] ?? 0) | 0x80;
+			bytes.push(size & 0x7f);
+			size = Math.floor(size / 128);
+		}
+		parts.push(Buffer.from(bytes), zlib.deflateSync(object.data));
+	}
+	const pack = Buffer.concat(parts);
+	return Buffer.concat([pack, crypto.createHash('sha1').update(pack).digest()]);
+}
@@ -0,0 +1,144 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert';
+import { Buffer } from 'buffer';
+import * as fs from 'fs';
+import * as path from 'path';
+import { buildPack, createSignature, GitObject, hashObject, ObjectStore, serializeCommit, serializeTree, toArrayBuffer } from './gitObjects';
+import { discoverRefs, fetchPack, HttpTransport, sendPack } from './gitProtocol';
+import { git, httpBackendTransport, nodeVaultFs, tempDir } from './testHelpers';
+
+const root = tempDir('github-sync-protocol-');
+const http = httpBackendTransport(root);
+
+// Anúncios de refs capturados do git http-backend (git 2.39), byte a byte
+const UPLOAD_PACK_REFS = [
+	'001e# service=git-upload-pack\n',
+	'0000',
+	'010b7397a8f952ebc5e7bb19b4248534e0261746d44f HEAD\0multi_ack thin-pack side-band side-band-64k ofs-delta shallow deepen-since deepen-not deepen-relative no-progress include-tag multi_ack_detailed no-done symref=HEAD:refs/heads/main object-format=sha1 agent=git/2.39.5\n',
+	'00467397a8f952ebc5e7bb19b4248534e0261746d44f refs/heads/devices/phone\n',
+	'003d7397a8f952ebc5e7bb19b4248534e0261746d44f refs/heads/main\n',
+	'003a1595f7b46b01ca332879cb1a43fc41e0d952629c refs/tags/v1\n',
+	'003d7397a8f952ebc5e7bb19b4248534e0261746d44f refs/tags/v1^{}\n',
+	'0000'
+].join('');
+
+const EMPTY_RECEIVE_PACK_REFS = [
+	'001f# service=git-receive-pack\n',
+	'0000',
+	'00b10000000000000000000000000000000000000000 capabilities^{}\0report-status report-status-v2 delete-refs side-band-64k quiet atomic ofs-delta object-format=sha1 agent=git/2.39.5\n',
+	'0000'
+].join('');
+
+// Relatórios de push e erro do fetch no formato enviado pelo receive-pack e pelo upload-pack
+const REJECTED_PUSH_REPORT = '000eunpack ok\n0028ng refs/heads/main non-fast-forward\n0000';
+const FAILED_UNPACK_REPORT = '0024unpack index-pack abnormal exit\n0000';
+const FETCH_ERROR = '0008NAK\n0023\x02Enumerating objects: 3, done.\n001e\x03upload-pack: not our ref\n0000';
+
+function replay(response: string, status = 200): HttpTransport {
+	return () => Promise.resolve({ status, body: toArrayBuffer(Buffer.from(response, 'latin1')) });
+}
+
+const REMOTE_URL = 'https://example.com/vault.git';
+
+/**
+ * Repositório bare servido pelo http-backend, com um commit em main
+ */
+function createRemote(name: string): string {
+	const remote = path.join(root, `${name}.git`);
+	git(root, 'init', '-q', '--bare', '-b', 'main', remote);
+	const seed = path.join(root, `${name}-seed`);
+	git(root, 'clone', '-q', remote, seed);
+	fs.writeFileSync(path.join(seed, 'note.md'), 'original\n');
+	git(seed, 'add', '-A');
+	git(seed, 'commit', '-q', '-m', 'primeiro commit');
+	git(seed, 'push', '-q', 'origin', 'main');
+	return remote;
+}
+
+void test('lista de refs capturada do git-upload-pack', async () => {
+	const advertised = await discoverRefs(replay(UPLOAD_PACK_REFS), undefined, REMOTE_URL, 'git-upload-pack');
+	assert.deepStrictEqual([...advertised.refs], [
+		['HEAD', '7397a8f952ebc5e7bb19b4248534e0261746d44f'],
+		['refs/heads/devices/phone', '7397a8f952ebc5e7bb19b4248534e0261746d44f'],
+		['refs/heads/main', '7397a8f952ebc5e7bb19b4248534e0261746d44f'],
+		['refs/tags/v1', '1595f7b46b01ca332879cb1a43fc41e0d952629c']
+	]);
+	assert.strictEqual(advertised.head, 'refs/heads/main');
+	assert.ok(advertised.capabilities.has('side-band-64k'));
+	assert.ok(advertised.capabilities.has('ofs-delta'));
+});
+
+void test('repositório vazio anuncia só as capacidades', async () => {
+	const advertised = await discoverRefs(replay(EMPTY_RECEIVE_PACK_REFS), undefined, REMOTE_URL, 'git-receive-pack');
+	assert.strictEqual(advertised.refs.size, 0);
+	assert.strictEqual(advertised.head, null);
+	assert.ok(advertised.capabilities.has('report-status'));
+});
+
+void test('respostas de erro viram mensagens no formato do git', async () => {
+	await assert.rejects(discoverRefs(replay('<html>Not Found</html>'), undefined, REMOTE_URL, 'git-upload-pack'), /^Error: fatal: https:\/\/example\.com\/vault\.git\/info\/refs not valid: is this a git repository\?$/);
+	await assert.rejects(discoverRefs(replay('', 401), undefined, REMOTE_URL, 'git-upload-pack'), /^Error: Authentication failed for /);
+	await assert.rejects(discoverRefs(replay('', 404), undefined, REMOTE_URL, 'git-upload-pack'), /^Error: repository '.*' not found$/);
+	await assert.rejects(discoverRefs(replay('', 500), undefined, REMOTE_URL, 'git-upload-pack'), /returned error: 500$/);
+
+	const advertised = await discoverRefs(replay(UPLOAD_PACK_REFS), undefined, REMOTE_URL, 'git-upload-pack');
+	await assert.rejects(fetchPack(replay(FETCH_ERROR), undefined, REMOTE_URL, advertised, ['7397a8f952ebc5e7bb19b4248534e0261746d44f'], []), /^Error: remote: upload-pack: not our ref$/);
+	await assert.rejects(sendPack(replay(REJECTED_PUSH_REPORT), undefined, REMOTE_URL, [], buildPack([])), /^Error: ! \[remote rejected\] refs\/heads\/main \(non-fast-forward\)$/);
+	await assert.rejects(sendPack(replay(FAILED_UNPACK_REPORT), undefined, REMOTE_URL, [], buildPack([])), /^Error: remote unpack index-pack abnormal exit$/);
+});
+
+void test('fetch pelo git http-backend traz só os objetos que faltam', async () => {
+	const remote = createRemote('fetch');
+	const url = 'https://example.com/fetch.git';
+	const first = git(remote, 'rev-parse', 'main');
+
+	const advertised = await discoverRefs(http, undefined, url, 'git-upload-pack');
+	assert.strictEqual(advertised.refs.get('refs/heads/main'), first);
+	assert.strictEqual(advertised.head, 'refs/heads/main');
+
+	const dir = path.join(root, 'fetch-local');
+	git(root, 'init', '-q', '-b', 'main', dir);
+	const store = new ObjectStore(nodeVaultFs(dir), '.git');
+	await store.addPack(await fetchPack(http, undefined, url, advertised, [first], []));
+	git(dir, 'update-ref', 'refs/heads/main', first);
+	git(dir, 'fsck', '--strict', '--no-dangling');
+
+	// Com o primeiro commit informado como "have", o segundo pack traz só os objetos novos
+	const seed = path.join(root, 'fetch-seed');
+	fs.writeFileSync(path.join(seed, 'note.md'), 'segunda versão\n');
+	git(seed, 'commit', '-q', '-am', 'segundo commit');
+	git(seed, 'push', '-q', 'origin', 'main');
+	const second = git(remote, 'rev-parse', 'main');
+	const pack = await fetchPack(http, undefined, url, await discoverRefs(http, undefined, url, 'git-upload-pack'), [second], [first]);
+	assert.strictEqual(pack.readUInt32BE(8), 3);
+	await store.addPack(pack);
+	git(dir, 'update-ref', 'refs/heads/main', second);
+	git(dir, 'fsck', '--strict', '--no-dangling');
+});
+
+void test('push pelo git http-backend atualiza a branch ou informa a recusa', async () => {
+	const remote = createRemote('push');
+	const url = 'https://example.com/push.git';
+	const parent = git(remote, 'rev-parse', 'main');
+	const objects: GitObject[] = [];
+	const blob: GitObject = { type: 'blob', data: Buffer.from('do JavaScript\n', 'utf8') };
+	const tree: GitObject = { type: 'tree', data: serializeTree([{ mode: '100644', name: 'note.md', hash: hashObject('blob', blob.data) }]) };
+	const signature = createSignature('Test', 'test@example.com', new Date(1700000000000));
+	const commit: GitObject = { type: 'commit', data: serializeCommit({ tree: hashObject('tree', tree.data), parents: [parent], author: signature, committer: signature, message: 'push do JavaScript' }) };
+	objects.push(blob, tree, commit);
+	const newHash = hashObject('commit', commit.data);
+
+	const advertised = await discoverRefs(http, undefined, url, 'git-receive-pack');
+	assert.strictEqual(advertised.refs.get('refs/heads/main'), parent);
+	await sendPack(http, undefined, url, [{ ref: 'refs/heads/main', oldHash: parent, newHash }], buildPack(objects));
+	assert.strictEqual(git(remote, 'rev-parse', 'main'), newHash);
+	git(remote, 'fsck', '--strict', '--no-dangling');
+
+	// Servidor que recusa reescrever o histórico: voltar a branch para o commit anterior não é aceito
+	git(remote, 'config', 'receive.denyNonFastForwards', 'true');
+	await assert.rejects(
+		sendPack(http, undefined, url, [{ ref: 'refs/heads/main', oldHash: newHash, newHash: parent }], buildPack([])),
+		/^Error: ! \[remote rejected\] refs\/heads\/main \(non-fast-forward\)$/
+	);
+	assert.strictEqual(git(remote, 'rev-parse', 'main'), newHash);
+});
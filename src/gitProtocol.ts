@@ -0,0 +1,213 @@
+/**
+ * Protocolo smart HTTP do git (versão 0) para o backend em JavaScript: lista de refs, fetch
+ * (git-upload-pack) e push (git-receive-pack). As requisições passam por um transporte injetado
+ * (no plugin, o requestUrl do Obsidian, que não sofre com CORS).
+ */
+import { Buffer } from 'buffer';
+import { toArrayBuffer } from './gitObjects';
+
+export interface HttpRequest {
+	url: string;
+	method: 'GET' | 'POST';
+	headers: Record<string, string>;
+	body?: ArrayBuffer;
+}
+
+export interface HttpResponse {
+	status: number;
+	body: ArrayBuffer;
+}
+
+export type HttpTransport = (request: HttpRequest) => Promise<HttpResponse>;
+
+export interface HttpCredentials {
+	username: string;
+	password: string;
+}
+
+export type GitService = 'git-upload-pack' | 'git-receive-pack';
+
+export interface AdvertisedRefs {
+	// Nome completo da ref -> hash
+	refs: Map<string, string>;
+	capabilities: Set<string>;
+	// Branch apontada pelo HEAD do remote (refs/heads/...), se anunciada
+	head: string | null;
+}
+
+export interface RefUpdate {
+	ref: string;
+	oldHash: string;
+	newHash: string;
+}
+
+const AGENT = 'agent=git/github-sync';
+
+function pktLine(data: string | Buffer): Buffer {
+	const payload = typeof data === 'string' ? Buffer.from(data, 'utf8') : data;
+	return Buffer.concat([Buffer.from((payload.length + 4).toString(16).padStart(4, '0'), 'latin1'), payload]);
+}
+
+const FLUSH_PKT = Buffer.from('0000', 'latin1');
+
+/**
+ * Divide uma resposta em pkt-lines a partir de `offset`; `null` marca um flush
+ */
+function readPktLines(data: Buffer, offset = 0): (Buffer | null)[] {
+	const lines: (Buffer | null)[] = [];
+	while (offset + 4 <= data.length) {
+		const length = parseInt(data.toString('latin1', offset, offset + 4), 16);
+		if (Number.isNaN(length)) {
+			break;
+		}
+		if (length < 4) {
+			lines.push(null);
+			offset += 4;
+			continue;
+		}
+		lines.push(data.subarray(offset + 4, offset + length));
+		offset += length;
+	}
+	return lines;
+}
+
+function lineText(line: Buffer): string {
+	return line.toString('utf8').replace(/\n$/, '');
+}
+
+function baseUrl(url: string): string {
+	return url.replace(/\/+$/, '');
+}
+
+/**
+ * Requisição ao servidor; erros HTTP viram mensagens no formato do git, reconhecidas pelo classificador de erros
+ */
+async function request(transport: HttpTransport, credentials: HttpCredentials | undefined, url: string, service: GitService, body?: Buffer): Promise<Buffer> {
+	const headers: Record<string, string> = {
+		'User-Agent': 'git/github-sync',
+		Accept: body ? `application/x-${service}-result` : `application/x-${service}-advertisement`
+	};
+	if (body) {
+		headers['Content-Type'] = `application/x-${service}-request`;
+	}
+	if (credentials) {
+		headers.Authorization = `Basic ${Buffer.from(`${credentials.username}:${credentials.password}`, 'utf8').toString('base64')}`;
+	}
+	const response = await transport({ url, method: body ? 'POST' : 'GET', headers, body: body ? toArrayBuffer(body) : undefined });
+	if (response.status === 401) {
+		throw new Error(`Authentication failed for '${url}'`);
+	}
+	if (response.status === 404) {
+		throw new Error(`repository '${url}' not found`);
+	}
+	if (response.status >= 400) {
+		throw new Error(`The requested URL returned error: ${response.status}`);
+	}
+	return Buffer.from(response.body);
+}
+
+/**
+ * Refs e capacidades anunciadas pelo servidor para o serviço
+ */
+export async function discoverRefs(transport: HttpTransport, credentials: HttpCredentials | undefined, url: string, service: GitService): Promise<AdvertisedRefs> {
+	const response = await request(transport, credentials, `${baseUrl(url)}/info/refs?service=${service}`, service);
+	const lines = readPktLines(response);
+	const [first] = lines;
+	if (!first || lineText(first) !== `# service=${service}`) {
+		// Servidor sem o protocolo smart HTTP
+		throw new Error(`fatal: ${baseUrl(url)}/info/refs not valid: is this a git repository?`);
+	}
+	const result: AdvertisedRefs = { refs: new Map(), capabilities: new Set(), head: null };
+	for (const line of lines.slice(1)) {
+		if (!line) {
+			continue;
+		}
+		let text = lineText(line);
+		const nul = text.indexOf('\0');
+		if (nul >= 0) {
+			for (const capability of text.slice(nul + 1).split(' ').filter(c => c)) {
+				result.capabilities.add(capability);
+				if (capability.startsWith('symref=HEAD:')) {
+					result.head = capability.slice('symref=HEAD:'.length);
+				}
+			}
+			text = text.slice(0, nul);
+		}
+		const [hash = '', ref = ''] = text.split(' ');
+		// Repositório vazio anuncia só as capacidades; refs "^{}" são tags já resolvidas
+		if (ref && ref !== 'capabilities^{}' && !ref.endsWith('^{}')) {
+			result.refs.set(ref, hash);
+		}
+	}
+	return result;
+}
+
+/**
+ * Pede ao servidor os objetos que faltam para chegar nos commits `wants`, informando os que já existem aqui.
+ * Devolve o packfile recebido.
+ */
+export async function fetchPack(transport: HttpTransport, credentials: HttpCredentials | undefined, url: string, advertised: AdvertisedRefs, wants: string[], haves: string[]): Promise<Buffer> {
+	const sideBand = advertised.capabilities.has('side-band-64k');
+	const capabilities = [
+		...(sideBand ? ['side-band-64k'] : []),
+		...(advertised.capabilities.has('ofs-delta') ? ['ofs-delta'] : []),
+		...(advertised.capabilities.has('no-progress') ? ['no-progress'] : []),
+		AGENT
+	];
+	const parts = wants.map((want, i) => pktLine(i === 0 ? `want ${want} ${capabilities.join(' ')}\n` : `want ${want}\n`));
+	parts.push(FLUSH_PKT, ...haves.map(have => pktLine(`have ${have}\n`)), pktLine('done\n'));
+	const response = await request(transport, credentials, `${baseUrl(url)}/git-upload-pack`, 'git-upload-pack', Buffer.concat(parts));
+
+	// Respostas de negociação (ACK/NAK) antes do pack
+	let offset = 0;
+	while (offset + 4 <= response.length) {
+		const length = parseInt(response.toString('latin1', offset, offset + 4), 16);
+		if (Number.isNaN(length) || length < 4 || !/^(ACK|NAK)/.test(response.toString('latin1', offset + 4, offset + 7))) {
+			break;
+		}
+		offset += length;
+	}
+	if (!sideBand) {
+		return response.subarray(offset);
+	}
+
+	// Side-band: canal 1 traz o pack, 2 o progresso e 3 um erro fatal
+	const pack: Buffer[] = [];
+	for (const line of readPktLines(response, offset)) {
+		if (!line || line.length === 0) {
+			continue;
+		}
+		const channel = line[0];
+		if (channel === 1) {
+			pack.push(line.subarray(1));
+		} else if (channel === 3) {
+			throw new Error(`remote: ${lineText(line.subarray(1))}`);
+		}
+	}
+	return Buffer.concat(pack);
+}
+
+/**
+ * Atualiza refs no remote enviando o pack com os objetos novos. Recusas do servidor viram erro
+ * com o motivo informado por ele (ex.: non-fast-forward).
+ */
+export async function sendPack(transport: HttpTransport, credentials: HttpCredentials | undefined, url: string, updates: RefUpdate[], pack: Buffer): Promise<void> {
+	const parts = updates.map((update, i) => {
+		const command = `${update.oldHash} ${update.newHash} ${update.ref}`;
+		return pktLine(i === 0 ? `${command}\0report-status ${AGENT}\n` : `${command}\n`);
+	});
+	parts.push(FLUSH_PKT, pack);
+	const response = await request(transport, credentials, `${baseUrl(url)}/git-receive-pack`, 'git-receive-pack', Buffer.concat(parts));
+
+	const report = readPktLines(response).filter((line): line is Buffer => line !== null).map(lineText);
+	const unpack = report.find(line => line.startsWith('unpack '));
+	if (unpack && unpack !== 'unpack ok') {
+		throw new Error(`remote ${unpack}`);
+	}
+	for (const line of report) {
+		if (line.startsWith('ng ')) {
+			const [, ref = '', ...reason] = line.split(' ');
+			throw new Error(`! [remote rejected] ${ref} (${reason.join(' ')})`);
+		}
+	}
+}
@@ -0,0 +1,63 @@
+/**
+ * Motivos de falha das operações git, para que a interface (ou outros plugins) decida o que mostrar
+ */
+export type GitErrorCode =
+	// Repositório remoto ou Git não configurados no plugin
+	| 'not-configured'
+	| 'init-failed'
+	| 'invalid-url'
+	| 'auth-failed'
+	// SSH key ausente ou ilegível
+	| 'ssh-key'
+	| 'ssh-passphrase'
+	// Chave do host SSH desconhecida ou recusada pelo usuário
+	| 'host-key'
+	// Chave do host SSH diferente da guardada (troca legítima ou man-in-the-middle)
+	| 'host-key-changed'
+	| 'remote-not-found'
+	| 'branch-missing'
+	// O pull parou com arquivos em conflito
+	| 'conflict'
+	// Merge ou rebase de uma sincronização anterior ainda não resolvido
+	| 'merge-in-progress'
+	| 'rebase-in-progress'
+	| 'network'
+	| 'non-fast-forward'
+	// Alterações locais impedem o pull (sem autostash)
+	| 'local-changes'
+	| 'nothing-to-commit'
+	| 'lfs-unavailable'
+	| 'lfs-failed'
+	// Repositório com criptografia, mas a senha ainda não foi digitada neste dispositivo
+	| 'encryption-locked'
+	// Senha de criptografia não confere com a do repositório
+	| 'encryption-passphrase'
+	// Recurso que só existe com o git do sistema (ex.: LFS ou SSH no backend JavaScript)
+	| 'backend-unsupported'
+	// Remote SSH sem token no backend JavaScript, que só usa HTTPS
+	| 'ssh-unsupported'
+	| 'cancelled'
+	| 'unknown';
+
+export interface GitError {
+	code: GitErrorCode;
+	// Detalhe técnico (mensagem do git ou diagnóstico do plugin), para logs e mensagens detalhadas
+	details: string;
+	// Arquivos afetados (ex.: em conflito)
+	files: string[];
+}
+
+/**
+ * Resultado de uma operação do GitManager. Sucessos podem trazer um aviso (ex.: LFS que não baixou no pull).
+ */
+export type GitResult =
+	| { ok: true; files: string[]; warning?: GitError }
+	| { ok: false; error: GitError };
+
+export function succeeded(files: string[] = [], warning?: GitError): GitResult {
+	return { ok: true, files, warning };
+}
+
+export function failed(code: GitErrorCode, details: string = '', files: string[] = []): GitResult {
+	return { ok: false, error: { code, details, files } };
+}
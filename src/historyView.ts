@@ -0,0 +1,177 @@
+import { ItemView, WorkspaceLeaf } from 'obsidian';
+import type { LogEntry } from './gitBackend';
+import MyPlugin from './main';
+import { CommitFileChange, getCommitDevice, LogFilter } from './gitManager';
+import { renderUnifiedDiff } from './diffRenderer';
+import { t } from './i18n';
+
+export const VIEW_TYPE_HISTORY = 'github-sync-history';
+
+const PAGE_SIZE = 50;
+
+/**
+ * Visão lateral com o histórico de commits do vault e o diff de cada commit
+ */
+export class HistoryView extends ItemView {
+	plugin: MyPlugin;
+	private filter: LogFilter = {};
+	private commits: LogEntry[] = [];
+	private hasMore = false;
+	private selected: string | null = null;
+	private listEl: HTMLElement | null = null;
+
+	constructor(leaf: WorkspaceLeaf, plugin: MyPlugin) {
+		super(leaf);
+		this.plugin = plugin;
+	}
+
+	getViewType(): string {
+		return VIEW_TYPE_HISTORY;
+	}
+
+	getDisplayText(): string {
+		return t('history.title');
+	}
+
+	getIcon(): string {
+		return 'history';
+	}
+
+	async onOpen() {
+		this.renderFilters();
+		await this.refresh();
+	}
+
+	/**
+	 * Recarrega o histórico desde o commit mais recente
+	 */
+	async refresh() {
+		this.commits = [];
+		this.selected = null;
+		await this.loadPage();
+	}
+
+	private async loadPage() {
+		const gitManager = this.plugin.gitManager;
+		if (!gitManager) {
+			this.commits = [];
+			this.hasMore = false;
+			this.renderList();
+			return;
+		}
+
+		const log = await gitManager.getLog(PAGE_SIZE, { ...this.filter, skip: this.commits.length });
+		const page = log ?? [];
+		this.commits.push(...page);
+		this.hasMore = page.length === PAGE_SIZE;
+		this.renderList();
+	}
+
+	private renderFilters() {
+		const container = this.contentEl;
+		container.empty();
+		container.addClass('github-sync-history');
+
+		const filters = container.createDiv({ cls: 'github-sync-history-filters' });
+		const addInput = (placeholder: string, type: string, key: 'author' | 'since' | 'until' | 'path') => {
+			const input = filters.createEl('input', { type, placeholder });
+			input.addEventListener('change', () => {
+				this.filter[key] = input.value.trim() || undefined;
+				void this.refresh();
+			});
+		};
+		addInput(t('history.author'), 'text', 'author');
+		addInput(t('history.since'), 'date', 'since');
+		addInput(t('history.until'), 'date', 'until');
+		addInput(t('history.path'), 'text', 'path');
+
+		this.listEl = container.createDiv({ cls: 'github-sync-history-list' });
+	}
+
+	private renderList() {
+		const listEl = this.listEl;
+		if (!listEl) {
+			return;
+		}
+		listEl.empty();
+
+		if (!this.plugin.gitManager) {
+			listEl.createEl('p', { text: t('view.gitNotConfigured') });
+			return;
+		}
+		if (this.commits.length === 0) {
+			listEl.createEl('p', { text: t('history.noCommits') });
+			return;
+		}
+
+		for (const commit of this.commits) {
+			const item = listEl.createDiv({ cls: 'github-sync-history-commit' });
+			const header = item.createDiv({ cls: 'github-sync-history-commit-header' });
+			header.createSpan({ text: commit.hash.slice(0, 7), cls: 'github-sync-history-hash' });
+			header.createSpan({ text: commit.message, cls: 'github-sync-history-message' });
+			const device = getCommitDevice(commit.body);
+			item.createDiv({
+				text: [commit.author_name, device && t('history.device', { device }), this.plugin.formatDate(new Date(commit.date))]
+					.filter(part => part)
+					.join(' · '),
+				cls: 'github-sync-history-meta'
+			});
+
+			if (commit.hash === this.selected) {
+				item.addClass('is-active');
+				void this.renderDetails(item.createDiv({ cls: 'github-sync-history-details' }), commit.hash);
+			}
+			header.addEventListener('click', () => {
+				this.selected = this.selected === commit.hash ? null : commit.hash;
+				this.renderList();
+			});
+		}
+
+		if (this.hasMore) {
+			const more = listEl.createEl('button', { text: t('history.loadMore') });
+			more.addEventListener('click', () => void this.loadPage());
+		}
+	}
+
+	private async renderDetails(container: HTMLElement, hash: string) {
+		const gitManager = this.plugin.gitManager;
+		if (!gitManager) {
+			return;
+		}
+
+		const files = await gitManager.getCommitFiles(hash);
+		if (files.length === 0) {
+			container.createEl('p', { text: t('history.noFiles') });
+			return;
+		}
+
+		for (const file of files) {
+			const fileEl = container.createDiv({ cls: 'github-sync-history-file' });
+			const label = file.oldPath ? `${file.oldPath} → ${file.path}` : file.path;
+			const header = fileEl.createDiv({ cls: 'github-sync-history-file-header' });
+			header.createSpan({ text: file.status, cls: `github-sync-status github-sync-status-${file.status}` });
+			header.createSpan({ text: label });
+
+			let diffEl: HTMLElement | null = null;
+			header.addEventListener('click', () => {
+				if (diffEl) {
+					diffEl.remove();
+					diffEl = null;
+					return;
+				}
+				diffEl = fileEl.createDiv();
+				void this.renderFileDiff(diffEl, hash, file);
+			});
+		}
+	}
+
+	private async renderFileDiff(container: HTMLElement, hash: string, file: CommitFileChange) {
+		const paths = file.oldPath ? [file.oldPath, file.path] : [file.path];
+		const patch = await this.plugin.gitManager?.getCommitDiff(hash, paths);
+		if (patch === null || patch === undefined) {
+			container.createEl('p', { text: t('view.diffUnavailable') });
+			return;
+		}
+		renderUnifiedDiff(container, patch);
+	}
+}
@@ -0,0 +1,45 @@
+import { getLanguage, moment } from 'obsidian';
+import en from './localeEn';
+import pt from './localePt';
+
+export type MessageKey = keyof typeof en;
+
+export type MessageCatalog = Record<MessageKey, string>;
+
+const CATALOGS: Record<string, MessageCatalog> = { en, pt };
+
+/**
+ * Idioma da interface do Obsidian (getLanguage só existe a partir da 1.8.7)
+ */
+export function getLocale(): string {
+	if (typeof getLanguage === 'function') {
+		return getLanguage();
+	}
+	return window.localStorage.getItem('language') || 'en';
+}
+
+function getCatalog(): MessageCatalog {
+	return CATALOGS[getLocale().split('-')[0] ?? 'en'] ?? en;
+}
+
+/**
+ * Mensagem traduzida. Só os parâmetros informados são substituídos, então
+ * placeholders de templates (ex.: {date}) dentro do texto ficam intactos.
+ */
+export function t(key: MessageKey, params?: Record<string, string | number>): string {
+	const message = getCatalog()[key] ?? en[key];
+	if (!params) {
+		return message;
+	}
+	return message.replace(/\{(\w+)\}/g, (match, name: string) => name in params ? String(params[name]) : match);
+}
+
+/**
+ * Data formatada com o formato do moment configurado ou, sem formato, no padrão do idioma
+ */
+export function formatDate(date: Date | number, format?: string): string {
+	if (format) {
+		return moment(date).format(format);
+	}
+	return new Date(date).toLocaleString(getLocale());
+}
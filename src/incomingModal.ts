@@ -0,0 +1,110 @@
+import { App, Modal } from 'obsidian';
+import MyPlugin from './main';
+import { IncomingCommit, IncomingFile } from './gitManager';
+import { renderUnifiedDiff } from './diffRenderer';
+import { t } from './i18n';
+
+/**
+ * Prévia das alterações remotas já buscadas: commits, diff de cada arquivo contra a cópia de trabalho
+ * e a escolha entre aplicar tudo, só alguns arquivos ou adiar
+ */
+export class IncomingChangesModal extends Modal {
+	plugin: MyPlugin;
+	private commits: IncomingCommit[];
+	private files: IncomingFile[];
+	private selected = new Set<IncomingFile>();
+
+	constructor(app: App, plugin: MyPlugin, commits: IncomingCommit[], files: IncomingFile[]) {
+		super(app);
+		this.plugin = plugin;
+		this.commits = commits;
+		this.files = files;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		this.modalEl.addClass('github-sync-incoming');
+		this.titleEl.setText(t('incoming.title', { count: this.commits.length }));
+
+		contentEl.createEl('h4', { text: t('incoming.commits') });
+		for (const commit of this.commits) {
+			const header = contentEl.createDiv({ cls: 'github-sync-history-commit-header' });
+			header.createSpan({ text: commit.hash.slice(0, 7), cls: 'github-sync-history-hash' });
+			header.createSpan({ text: commit.message });
+			contentEl.createDiv({
+				text: `${commit.authorName} · ${this.plugin.formatDate(new Date(commit.date))}`,
+				cls: 'github-sync-history-meta'
+			});
+		}
+
+		contentEl.createEl('h4', { text: t('incoming.files', { count: this.files.length }) });
+		const withLocalEdits = this.files.filter(file => file.localEdits).length;
+		if (withLocalEdits > 0) {
+			contentEl.createEl('p', { text: t('incoming.localEditsWarning', { count: withLocalEdits }), cls: 'github-sync-incoming-conflict' });
+		}
+		for (const file of this.files) {
+			this.renderFile(contentEl.createDiv(), file);
+		}
+
+		const actions = contentEl.createDiv({ cls: 'modal-button-container' });
+		actions.createEl('button', { text: t('incoming.mergeAll'), cls: 'mod-cta' }).addEventListener('click', () => {
+			this.close();
+			void this.plugin.mergeRemoteChanges();
+		});
+		const mergeSelected = actions.createEl('button', { text: t('incoming.mergeSelected') });
+		mergeSelected.disabled = true;
+		mergeSelected.addEventListener('click', () => {
+			this.close();
+			void this.plugin.mergeIncomingFiles([...this.selected]);
+		});
+		actions.createEl('button', { text: t('incoming.postpone') }).addEventListener('click', () => {
+			this.close();
+			this.plugin.postponeRemoteChanges();
+		});
+
+		this.contentEl.addEventListener('change', () => {
+			mergeSelected.disabled = this.selected.size === 0;
+		});
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+
+	private renderFile(container: HTMLElement, file: IncomingFile) {
+		const row = container.createDiv({ cls: 'github-sync-change' });
+		const checkbox = row.createEl('input', { type: 'checkbox' });
+		// Com alterações locais não commitadas o patch não se aplica: só o merge completo resolve
+		checkbox.disabled = file.localEdits;
+		checkbox.addEventListener('change', () => {
+			if (checkbox.checked) {
+				this.selected.add(file);
+			} else {
+				this.selected.delete(file);
+			}
+		});
+		row.createSpan({ text: file.status, cls: `github-sync-status github-sync-status-${file.status}` });
+		row.createSpan({ text: file.oldPath ? `${file.oldPath} → ${file.path}` : file.path, cls: 'github-sync-change-path' });
+		if (file.localEdits) {
+			row.createSpan({ text: t('incoming.localEdits'), cls: 'github-sync-incoming-conflict' });
+		}
+
+		const detail = container.createDiv();
+		row.createEl('button', { text: t('incoming.diff') }).addEventListener('click', () => {
+			if (detail.childElementCount > 0) {
+				detail.empty();
+				return;
+			}
+			void this.showDiff(detail, file);
+		});
+	}
+
+	private async showDiff(container: HTMLElement, file: IncomingFile) {
+		const patch = await this.plugin.gitManager?.getIncomingDiff(file.oldPath ? [file.oldPath, file.path] : [file.path]);
+		if (patch === null || patch === undefined) {
+			container.createEl('p', { text: t('view.diffUnavailable') });
+			return;
+		}
+		renderUnifiedDiff(container, patch);
+	}
+}
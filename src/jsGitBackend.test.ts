@@ -0,0 +1,169 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert';
+import { execFileSync } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import { BACKEND_UNSUPPORTED } from './gitBackend';
+import { JsGitBackend } from './jsGitBackend';
+import { git, GIT_ENV, httpBackendTransport, nodeVaultFs, tempDir } from './testHelpers';
+
+const root = tempDir('github-sync-js-');
+
+// Remotes em https://example.com/<nome>.git, servidos pelo git http-backend a partir da pasta dos testes
+const http = httpBackendTransport(root);
+
+function createBackend(dir: string): JsGitBackend {
+	return new JsGitBackend(nodeVaultFs(dir), { http, userName: 'Test', userEmail: 'test@example.com' });
+}
+
+/**
+ * Commit pelo git do sistema com data fixa, para o histórico ter uma ordem previsível
+ */
+function commitAt(dir: string, file: string, content: string, seconds: number): void {
+	fs.writeFileSync(path.join(dir, file), content);
+	const date = `${1700000000 + seconds} +0000`;
+	git(dir, 'add', '-A');
+	execFileSync('git', ['commit', '-q', '-m', `${file} em ${seconds}`], {
+		cwd: dir,
+		env: { ...GIT_ENV, GIT_AUTHOR_DATE: date, GIT_COMMITTER_DATE: date }
+	});
+}
+
+/**
+ * Remote com um primeiro commit em main e um clone dele pelo git do sistema, com o origin na URL HTTPS
+ */
+function createVault(name: string): { remote: string; vault: string } {
+	const remote = path.join(root, `${name}.git`);
+	git(root, 'init', '-q', '--bare', '-b', 'main', remote);
+	const vault = path.join(root, name);
+	git(root, 'clone', '-q', remote, vault);
+	commitAt(vault, 'note.md', 'original\n', 0);
+	git(vault, 'push', '-q', 'origin', 'main');
+	git(vault, 'remote', 'set-url', 'origin', `https://example.com/${name}.git`);
+	return { remote, vault };
+}
+
+/**
+ * Commit e push feitos por outro dispositivo, direto pelo git
+ */
+function pushFromOtherDevice(remote: string, name: string, file: string, content: string, seconds: number): void {
+	const dir = path.join(root, name);
+	git(root, 'clone', '-q', remote, dir);
+	commitAt(dir, file, content, seconds);
+	git(dir, 'push', '-q', 'origin', 'main');
+}
+
+void test('status conta ahead e behind como o git', async () => {
+	const dir = path.join(root, 'divergence');
+	git(root, 'init', '-q', '-b', 'main', dir);
+	for (let i = 0; i < 20; i++) {
+		commitAt(dir, 'base.md', `versão ${i}\n`, i);
+	}
+	git(dir, 'branch', 'upstream');
+	git(dir, 'checkout', '-q', 'upstream');
+	commitAt(dir, 'remoto.md', 'um\n', 100);
+	git(dir, 'checkout', '-q', '-b', 'lateral', 'main~5');
+	commitAt(dir, 'lateral.md', 'lateral\n', 101);
+	git(dir, 'checkout', '-q', 'upstream');
+	git(dir, 'merge', '-q', '--no-edit', 'lateral');
+	commitAt(dir, 'remoto.md', 'dois\n', 103);
+	git(dir, 'checkout', '-q', 'main');
+	commitAt(dir, 'local.md', 'um\n', 102);
+	commitAt(dir, 'local.md', 'dois\n', 104);
+	git(dir, 'update-ref', 'refs/remotes/origin/main', 'upstream');
+	git(dir, 'config', 'branch.main.remote', 'origin');
+	git(dir, 'config', 'branch.main.merge', 'refs/heads/main');
+
+	const status = await createBackend(dir).status();
+	const [behind, ahead] = git(dir, 'rev-list', '--left-right', '--count', 'origin/main...main').split(/\s+/).map(Number);
+	assert.strictEqual(status.tracking, 'origin/main');
+	assert.deepStrictEqual({ ahead: status.ahead, behind: status.behind }, { ahead, behind });
+	assert.deepStrictEqual({ ahead: status.ahead, behind: status.behind }, { ahead: 2, behind: 4 });
+});
+
+void test('status acompanha o HEAD depois de um commit', async () => {
+	const dir = path.join(root, 'head-cache');
+	git(root, 'init', '-q', '-b', 'main', dir);
+	commitAt(dir, 'note.md', 'original\n', 0);
+	const backend = createBackend(dir);
+	assert.deepStrictEqual((await backend.status()).files, []);
+
+	fs.writeFileSync(path.join(dir, 'note.md'), 'alterada\n');
+	await backend.add(['note.md']);
+	assert.deepStrictEqual((await backend.status()).files, [{ path: 'note.md', index: 'M', working_dir: ' ' }]);
+
+	await backend.commit('alteração');
+	assert.deepStrictEqual((await backend.status()).files, []);
+	assert.strictEqual(git(dir, 'status', '--porcelain'), '');
+});
+
+void test('lê um repositório gravado pelo git do sistema, com refs e objetos empacotados', async () => {
+	const dir = path.join(root, 'system');
+	git(root, 'init', '-q', '-b', 'main', dir);
+	fs.mkdirSync(path.join(dir, 'pasta'));
+	fs.writeFileSync(path.join(dir, '.gitignore'), '*.tmp\n');
+	fs.writeFileSync(path.join(dir, 'pasta', 'dentro.md'), 'dentro\n');
+	commitAt(dir, 'note.md', 'primeira\n', 0);
+	commitAt(dir, 'note.md', 'segunda\n', 1);
+	git(dir, 'branch', 'devices/phone', 'HEAD~1');
+	git(dir, 'gc', '-q');
+	assert.ok(fs.existsSync(path.join(dir, '.git/packed-refs')));
+	fs.writeFileSync(path.join(dir, 'rascunho.tmp'), 'ignorado\n');
+	const backend = createBackend(dir);
+
+	assert.strictEqual(await backend.revParse('HEAD'), git(dir, 'rev-parse', 'HEAD'));
+	assert.strictEqual(await backend.revParse('devices/phone'), git(dir, 'rev-parse', 'devices/phone'));
+	assert.deepStrictEqual(await backend.listBranches(), { current: 'main', all: ['devices/phone', 'main'] });
+	assert.deepStrictEqual(await backend.listTrackedFiles(), ['.gitignore', 'note.md', 'pasta/dentro.md']);
+	assert.deepStrictEqual((await backend.status()).files, []);
+	assert.deepStrictEqual((await backend.log({ maxCount: 10 })).map(entry => entry.hash), git(dir, 'log', '--format=%H').split('\n'));
+	assert.strictEqual((await backend.show(git(dir, 'rev-parse', 'HEAD~1'), 'note.md')).toString('utf8'), 'primeira\n');
+});
+
+void test('commit do backend passa no git fsck e deixa o git status limpo', async () => {
+	const dir = path.join(root, 'written');
+	git(root, 'init', '-q', '-b', 'main', dir);
+	fs.mkdirSync(path.join(dir, 'pasta'));
+	fs.writeFileSync(path.join(dir, 'pasta', 'apagar.md'), 'apagar\n');
+	commitAt(dir, 'note.md', 'original\n', 0);
+	const backend = createBackend(dir);
+
+	fs.writeFileSync(path.join(dir, 'note.md'), 'alterada\n');
+	fs.writeFileSync(path.join(dir, 'pasta', 'nova.md'), 'nova\n');
+	fs.rmSync(path.join(dir, 'pasta', 'apagar.md'));
+	await backend.add('all');
+	await backend.commit('alterações pelo JavaScript');
+
+	git(dir, 'fsck', '--strict', '--no-dangling');
+	assert.strictEqual(git(dir, 'status', '--porcelain'), '');
+	assert.strictEqual(git(dir, 'log', '-1', '--format=%s|%an|%ae'), 'alterações pelo JavaScript|Test|test@example.com');
+	assert.strictEqual(git(dir, 'diff', '--name-status', 'HEAD~1', 'HEAD'), 'M\tnote.md\nD\tpasta/apagar.md\nA\tpasta/nova.md');
+});
+
+void test('pull mescla o remote e o push é aceito pelo git http-backend', async () => {
+	const { remote, vault } = createVault('sync');
+	pushFromOtherDevice(remote, 'sync-other', 'outra.md', 'do outro dispositivo\n', 10);
+	commitAt(vault, 'note.md', 'local\n', 20);
+	const backend = createBackend(vault);
+
+	assert.deepStrictEqual(await backend.pull('origin', 'main', { strategy: 'merge', autostash: false }), ['outra.md']);
+	assert.strictEqual(fs.readFileSync(path.join(vault, 'outra.md'), 'utf8'), 'do outro dispositivo\n');
+	assert.strictEqual(git(vault, 'rev-list', '--count', '--merges', 'HEAD'), '1');
+	git(vault, 'fsck', '--strict', '--no-dangling');
+	assert.strictEqual(git(vault, 'status', '--porcelain'), '');
+
+	await backend.push('origin', 'main');
+	assert.strictEqual(git(remote, 'rev-parse', 'main'), git(vault, 'rev-parse', 'HEAD'));
+	git(remote, 'fsck', '--strict', '--no-dangling');
+});
+
+void test('pull com rebase é recusado no backend JavaScript sem mesclar', async () => {
+	const { remote, vault } = createVault('rebase');
+	pushFromOtherDevice(remote, 'rebase-other', 'outra.md', 'do outro dispositivo\n', 10);
+	commitAt(vault, 'note.md', 'local\n', 20);
+	const head = git(vault, 'rev-parse', 'HEAD');
+
+	await assert.rejects(createBackend(vault).pull('origin', 'main', { strategy: 'rebase', autostash: false }), new RegExp(BACKEND_UNSUPPORTED));
+	assert.strictEqual(git(vault, 'rev-parse', 'HEAD'), head);
+	assert.ok(!fs.existsSync(path.join(vault, 'outra.md')));
+});
@@ -0,0 +1,1417 @@
+/**
+ * Backend do git em JavaScript: trabalha direto no .git do vault pelo adapter do Obsidian, sem o
+ * executável do git. Cobre o fluxo de sincronização (status, commit, fetch, pull com merge, push pelo
+ * HTTPS com token); recursos que dependem do git do sistema (LFS, filtros, rebase, SSH) não existem aqui.
+ */
+import { Buffer } from 'buffer';
+import { conflictMarkers, diff3Merge, lineEnding, splitLines } from './diff3';
+import { mergeMarkdown } from './markdownMerge';
+import {
+	BACKEND_UNSUPPORTED,
+	BackendStatus,
+	BranchList,
+	CheckoutOptions,
+	GitBackend,
+	LogEntry,
+	LogQuery,
+	MergeState,
+	PullOptions,
+	RemoteInfo,
+	RemoteRefs,
+	StatusEntry
+} from './gitBackend';
+import {
+	buildPack,
+	CommitObject,
+	createSignature,
+	formatSignatureDate,
+	GitObject,
+	ObjectStore,
+	serializeCommit,
+	serializeTree,
+	toArrayBuffer,
+	TREE_MODE,
+	TreeEntry,
+	VaultFs,
+	ZERO_HASH,
+	hashObject
+} from './gitObjects';
+import { comparePaths, FILE_MODE, GITLINK_MODE, IndexEntry, modeString, parseIndex, serializeIndex } from './gitIndex';
+import { IgnoreRules } from './gitIgnore';
+import { discoverRefs, fetchPack, HttpCredentials, HttpTransport, sendPack } from './gitProtocol';
+
+const GIT_DIR = '.git';
+
+// Commits locais informados ao servidor no fetch, para ele mandar só o que falta
+const MAX_HAVES = 256;
+
+export interface JsGitOptions {
+	http: HttpTransport;
+	credentials?: HttpCredentials;
+	userName: string;
+	userEmail: string;
+	// Notas Markdown mescladas pelo mesmo algoritmo do merge driver
+	markdownMerge?: boolean;
+}
+
+interface FileEntry {
+	hash: string;
+	mode: string;
+}
+
+// Árvore achatada: caminho completo -> blob
+type FileTree = Map<string, FileEntry>;
+
+interface MergeConflict {
+	base?: FileEntry;
+	ours?: FileEntry;
+	theirs?: FileEntry;
+	// Conteúdo deixado no arquivo (com marcadores de conflito, ou o lado que ainda existe)
+	content: Buffer;
+}
+
+interface ConfigEntry {
+	section: string;
+	subsection: string | null;
+	key: string;
+	value: string;
+}
+
+// Mudança a aplicar na cópia de trabalho: novo blob, remoção (null) ou conteúdo já mesclado com as edições locais
+interface WorkTreeChange {
+	entry: FileEntry | null;
+	content?: Buffer;
+}
+
+function sameEntry(a: FileEntry | undefined, b: FileEntry | undefined): boolean {
+	return a?.hash === b?.hash && a?.mode === b?.mode;
+}
+
+function parentDir(file: string): string {
+	const slash = file.lastIndexOf('/');
+	return slash >= 0 ? file.slice(0, slash) : '';
+}
+
+function isBinary(data: Buffer): boolean {
+	return data.subarray(0, 8000).includes(0);
+}
+
+function parseConfigKey(name: string): { section: string; subsection: string | null; key: string } {
+	const first = name.indexOf('.');
+	const last = name.lastIndexOf('.');
+	return {
+		section: name.slice(0, first).toLowerCase(),
+		subsection: last > first ? name.slice(first + 1, last) : null,
+		key: name.slice(last + 1).toLowerCase()
+	};
+}
+
+function parseConfig(text: string): ConfigEntry[] {
+	const entries: ConfigEntry[] = [];
+	let section = '';
+	let subsection: string | null = null;
+	for (const line of text.split(/\r?\n/)) {
+		const header = line.match(/^\s*\[([^\s\]"]+)(?:\s+"((?:[^"\\]|\\.)*)")?\s*\]/);
+		if (header) {
+			const [name = '', dotted] = (header[1] ?? '').split(/\.(.*)/);
+			section = name.toLowerCase();
+			subsection = header[2] !== undefined ? header[2].replace(/\\(.)/g, '$1') : (dotted ?? null);
+			continue;
+		}
+		const pair = line.match(/^\s*([A-Za-z][-A-Za-z0-9]*)\s*(?:=\s*(.*))?$/);
+		if (pair && section) {
+			let value = (pair[2] ?? 'true').trim();
+			if (value.startsWith('"')) {
+				value = value.slice(1, value.lastIndexOf('"') > 0 ? value.lastIndexOf('"') : undefined).replace(/\\(.)/g, '$1');
+			} else {
+				value = value.replace(/\s[;#].*$/, '');
+			}
+			entries.push({ section, subsection, key: (pair[1] ?? '').toLowerCase(), value });
+		}
+	}
+	return entries;
+}
+
+function formatConfigValue(value: string): string {
+	return /^\s|\s$|[;#"\\]/.test(value) ? `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"` : value;
+}
+
+/**
+ * Merge de texto de um arquivo alterado dos dois lados; null para conteúdo binário
+ */
+function mergeContent(file: string, base: Buffer, ours: Buffer, theirs: Buffer, markdown: boolean): { data: Buffer; conflicts: number } | null {
+	if (isBinary(base) || isBinary(ours) || isBinary(theirs)) {
+		return null;
+	}
+	const [baseText, oursText, theirsText] = [base, ours, theirs].map(data => data.toString('utf8')) as [string, string, string];
+	if (markdown && file.toLowerCase().endsWith('.md')) {
+		const result = mergeMarkdown(baseText, oursText, theirsText);
+		return { data: Buffer.from(result.text, 'utf8'), conflicts: result.conflicts };
+	}
+	let conflicts = 0;
+	const lines: string[] = [];
+	for (const chunk of diff3Merge(splitLines(baseText), splitLines(oursText), splitLines(theirsText))) {
+		if (chunk.kind === 'stable') {
+			lines.push(...chunk.lines);
+		} else {
+			conflicts++;
+			lines.push(...conflictMarkers(chunk.ours, chunk.theirs));
+		}
+	}
+	return { data: Buffer.from(lines.join(lineEnding(oursText, theirsText, baseText)), 'utf8'), conflicts };
+}
+
+export class JsGitBackend implements GitBackend {
+	readonly kind = 'js';
+	private fs: VaultFs;
+	private options: JsGitOptions;
+	private store: ObjectStore;
+	// Árvore achatada do último HEAD visto pelo status (commits não mudam, então o hash basta como chave)
+	private headFilesCache: { hash: string; files: FileTree } | null = null;
+
+	constructor(fs: VaultFs, options: JsGitOptions) {
+		this.fs = fs;
+		this.options = options;
+		this.store = new ObjectStore(fs, GIT_DIR);
+	}
+
+	// --- Arquivos ---
+
+	private async readFile(file: string): Promise<Buffer | null> {
+		return await this.fs.exists(file) ? Buffer.from(await this.fs.readBinary(file)) : null;
+	}
+
+	private async readText(file: string): Promise<string | null> {
+		return (await this.readFile(file))?.toString('utf8') ?? null;
+	}
+
+	private async ensureDir(dir: string): Promise<void> {
+		let current = '';
+		for (const part of dir.split('/').filter(p => p)) {
+			current = current ? `${current}/${part}` : part;
+			if (!(await this.fs.exists(current))) {
+				await this.fs.mkdir(current);
+			}
+		}
+	}
+
+	private async writeFile(file: string, data: Buffer | string): Promise<void> {
+		await this.ensureDir(parentDir(file));
+		await this.fs.writeBinary(file, toArrayBuffer(typeof data === 'string' ? Buffer.from(data, 'utf8') : data));
+	}
+
+	private async removeFile(file: string): Promise<void> {
+		if (await this.fs.exists(file)) {
+			await this.fs.remove(file);
+		}
+	}
+
+	/**
+	 * Remove as pastas que ficaram vazias depois de apagar um arquivo, como o git faz
+	 */
+	private async removeEmptyParents(file: string): Promise<void> {
+		for (let dir = parentDir(file); dir; dir = parentDir(dir)) {
+			const stat = await this.fs.stat(dir);
+			if (!stat || stat.type !== 'folder') {
+				continue;
+			}
+			const listing = await this.fs.list(dir);
+			if (listing.files.length > 0 || listing.folders.length > 0) {
+				return;
+			}
+			await this.fs.rmdir(dir, false);
+		}
+	}
+
+	// --- Config ---
+
+	private async readConfig(): Promise<ConfigEntry[]> {
+		return parseConfig(await this.readText(`${GIT_DIR}/config`) ?? '');
+	}
+
+	private async getConfig(name: string): Promise<string | null> {
+		const { section, subsection, key } = parseConfigKey(name);
+		const matches = (await this.readConfig()).filter(entry => entry.section === section && entry.subsection === subsection && entry.key === key);
+		return matches[matches.length - 1]?.value ?? null;
+	}
+
+	async setConfig(name: string, value: string): Promise<void> {
+		const { section, subsection, key } = parseConfigKey(name);
+		const lines = (await this.readText(`${GIT_DIR}/config`) ?? '').split(/\r?\n/);
+		while (lines.length > 0 && lines[lines.length - 1] === '') {
+			lines.pop();
+		}
+		const entry = `\t${key} = ${formatConfigValue(value)}`;
+
+		let inSection = false;
+		let sectionEnd = -1;
+		let replaced = false;
+		lines.forEach((line, i) => {
+			const header = line.match(/^\s*\[([^\s\]"]+)(?:\s+"((?:[^"\\]|\\.)*)")?\s*\]/);
+			if (header) {
+				const [name = '', dotted] = (header[1] ?? '').split(/\.(.*)/);
+				const sub = header[2] !== undefined ? header[2].replace(/\\(.)/g, '$1') : (dotted ?? null);
+				inSection = name.toLowerCase() === section && sub === subsection;
+				if (inSection) {
+					sectionEnd = i;
+				}
+				return;
+			}
+			if (inSection) {
+				sectionEnd = i;
+				const pair = line.match(/^\s*([A-Za-z][-A-Za-z0-9]*)\s*(?:=|$)/);
+				if (pair && pair[1]?.toLowerCase() === key && !replaced) {
+					lines[i] = entry;
+					replaced = true;
+				}
+			}
+		});
+		if (!replaced) {
+			if (sectionEnd >= 0) {
+				lines.splice(sectionEnd + 1, 0, entry);
+			} else {
+				lines.push(subsection !== null ? `[${section} "${subsection.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"]` : `[${section}]`, entry);
+			}
+		}
+		await this.writeFile(`${GIT_DIR}/config`, lines.join('\n') + '\n');
+	}
+
+	private async getRemoteUrl(remote: string, push = false): Promise<string> {
+		const url = (push ? await this.getConfig(`remote.${remote}.pushurl`) : null) ?? await this.getConfig(`remote.${remote}.url`);
+		if (!url) {
+			throw new Error(`'${remote}' does not appear to be a git repository`);
+		}
+		return url;
+	}
+
+	// --- Refs ---
+
+	private async readPackedRefs(): Promise<Map<string, string>> {
+		const refs = new Map<string, string>();
+		for (const line of (await this.readText(`${GIT_DIR}/packed-refs`) ?? '').split('\n')) {
+			const match = line.match(/^([0-9a-f]{40}) (.+)$/);
+			if (match?.[1] && match[2]) {
+				refs.set(match[2], match[1]);
+			}
+		}
+		return refs;
+	}
+
+	/**
+	 * Hash de uma ref (seguindo refs simbólicas), ou null se ela não existir
+	 */
+	private async readRef(name: string): Promise<string | null> {
+		let current = name;
+		for (let depth = 0; depth < 5; depth++) {
+			const content = (await this.readText(`${GIT_DIR}/${current}`))?.trim();
+			if (content === undefined) {
+				return (await this.readPackedRefs()).get(current) ?? null;
+			}
+			if (!content.startsWith('ref: ')) {
+				return content || null;
+			}
+			current = content.slice(5);
+		}
+		return null;
+	}
+
+	/**
+	 * Branch atual (refs/heads/...), ou null com o HEAD destacado
+	 */
+	private async readHeadTarget(): Promise<string | null> {
+		const content = (await this.readText(`${GIT_DIR}/HEAD`))?.trim() ?? '';
+		return content.startsWith('ref: ') ? content.slice(5) : null;
+	}
+
+	private async writeRef(name: string, hash: string): Promise<void> {
+		await this.writeFile(`${GIT_DIR}/${name}`, `${hash}\n`);
+	}
+
+	/**
+	 * Refs com o prefixo informado (soltas e empacotadas), pelo nome completo
+	 */
+	private async listRefs(prefix: string): Promise<Map<string, string>> {
+		const refs = new Map<string, string>();
+		for (const [name, hash] of await this.readPackedRefs()) {
+			if (name.startsWith(prefix)) {
+				refs.set(name, hash);
+			}
+		}
+		const visit = async (dir: string) => {
+			if (!(await this.fs.exists(dir))) {
+				return;
+			}
+			const listing = await this.fs.list(dir);
+			for (const file of listing.files) {
+				const name = file.replace(/^\/+/, '').slice(GIT_DIR.length + 1);
+				const hash = (await this.readText(file))?.trim();
+				if (hash && /^[0-9a-f]{40}$/.test(hash)) {
+					refs.set(name, hash);
+				}
+			}
+			for (const folder of listing.folders) {
+				await visit(folder.replace(/^\/+/, ''));
+			}
+		};
+		await visit(`${GIT_DIR}/${prefix.replace(/\/$/, '')}`);
+		return refs;
+	}
+
+	/**
+	 * Atualiza a branch atual (ou o HEAD destacado) para o commit informado
+	 */
+	private async updateHead(hash: string): Promise<void> {
+		const target = await this.readHeadTarget();
+		await this.writeRef(target ?? 'HEAD', hash);
+	}
+
+	async revParse(revision: string): Promise<string | null> {
+		let hash: string | null = null;
+		if (/^[0-9a-f]{40}$/.test(revision)) {
+			hash = revision;
+		} else {
+			const candidates = /^[A-Z_]+$/.test(revision) ? [revision] : [];
+			candidates.push(`refs/${revision}`, `refs/tags/${revision}`, `refs/heads/${revision}`, `refs/remotes/${revision}`);
+			for (const candidate of candidates) {
+				hash = await this.readRef(candidate);
+				if (hash) {
+					break;
+				}
+			}
+		}
+		// Tags anotadas apontam para o commit no cabeçalho "object"
+		for (let depth = 0; hash && depth < 5; depth++) {
+			if (!(await this.store.has(hash))) {
+				return null;
+			}
+			const object = await this.store.read(hash);
+			if (object.type === 'commit') {
+				return hash;
+			}
+			if (object.type !== 'tag') {
+				return null;
+			}
+			hash = object.data.toString('utf8').match(/^object ([0-9a-f]{40})/)?.[1] ?? null;
+		}
+		return null;
+	}
+
+	// --- Árvores e histórico ---
+
+	private async flattenTree(treeHash: string, prefix = '', files: FileTree = new Map()): Promise<FileTree> {
+		for (const entry of await this.store.readTree(treeHash)) {
+			const file = prefix ? `${prefix}/${entry.name}` : entry.name;
+			if (entry.mode === TREE_MODE) {
+				await this.flattenTree(entry.hash, file, files);
+			} else {
+				files.set(file, { hash: entry.hash, mode: entry.mode });
+			}
+		}
+		return files;
+	}
+
+	private async commitFiles(hash: string | null): Promise<FileTree> {
+		return hash ? await this.flattenTree((await this.store.readCommit(hash)).tree) : new Map();
+	}
+
+	private async headFiles(head: string | null): Promise<FileTree> {
+		if (!head) {
+			return new Map();
+		}
+		if (this.headFilesCache?.hash !== head) {
+			this.headFilesCache = { hash: head, files: await this.commitFiles(head) };
+		}
+		return this.headFilesCache.files;
+	}
+
+	/**
+	 * Entrada de um caminho (arquivo ou pasta) em uma árvore, sem achatar a árvore inteira
+	 */
+	private async lookupPath(treeHash: string, file: string): Promise<TreeEntry | null> {
+		let entry: TreeEntry | null = { mode: TREE_MODE, name: '', hash: treeHash };
+		for (const part of file.split('/').filter(p => p)) {
+			if (entry?.mode !== TREE_MODE) {
+				return null;
+			}
+			entry = (await this.store.readTree(entry.hash)).find(e => e.name === part) ?? null;
+		}
+		return entry;
+	}
+
+	/**
+	 * Grava as árvores (das pastas mais profundas para a raiz) e devolve o hash da raiz
+	 */
+	private async writeTree(files: FileTree): Promise<string> {
+		interface Node { entries: TreeEntry[]; dirs: Map<string, Node> }
+		const root: Node = { entries: [], dirs: new Map() };
+		for (const [file, entry] of files) {
+			const parts = file.split('/');
+			const name = parts.pop() ?? '';
+			let node = root;
+			for (const part of parts) {
+				let child = node.dirs.get(part);
+				if (!child) {
+					child = { entries: [], dirs: new Map() };
+					node.dirs.set(part, child);
+				}
+				node = child;
+			}
+			node.entries.push({ mode: entry.mode, name, hash: entry.hash });
+		}
+		const write = async (node: Node): Promise<string> => {
+			const entries = [...node.entries];
+			for (const [name, child] of node.dirs) {
+				entries.push({ mode: TREE_MODE, name, hash: await write(child) });
+			}
+			return await this.store.write('tree', serializeTree(entries));
+		};
+		return await write(root);
+	}
+
+	/**
+	 * Percorre o histórico a partir dos commits informados, do mais recente para o mais antigo.
+	 * `visit` devolve false para parar.
+	 */
+	private async walkCommits(starts: string[], visit: (hash: string, commit: CommitObject) => boolean | Promise<boolean>, stop?: Set<string>): Promise<void> {
+		const seen = new Set<string>();
+		const queue: { hash: string; commit: CommitObject }[] = [];
+		const enqueue = async (hash: string) => {
+			if (seen.has(hash) || stop?.has(hash) || !(await this.store.has(hash))) {
+				return;
+			}
+			seen.add(hash);
+			queue.push({ hash, commit: await this.store.readCommit(hash) });
+		};
+		for (const start of starts) {
+			await enqueue(start);
+		}
+		while (queue.length > 0) {
+			queue.sort((a, b) => b.commit.committer.timestamp - a.commit.committer.timestamp);
+			const next = queue.shift();
+			if (!next) {
+				break;
+			}
+			if (!(await visit(next.hash, next.commit))) {
+				return;
+			}
+			for (const parent of next.commit.parents) {
+				await enqueue(parent);
+			}
+		}
+	}
+
+	private async ancestors(hash: string): Promise<Set<string>> {
+		const result = new Set<string>();
+		await this.walkCommits([hash], ancestor => {
+			result.add(ancestor);
+			return true;
+		});
+		return result;
+	}
+
+	private async isAncestor(ancestor: string, descendant: string): Promise<boolean> {
+		let found = false;
+		await this.walkCommits([descendant], hash => {
+			found = hash === ancestor;
+			return !found;
+		});
+		return found;
+	}
+
+	private async mergeBase(ours: string, theirs: string): Promise<string | null> {
+		const oursAncestors = await this.ancestors(ours);
+		let base: string | null = null;
+		await this.walkCommits([theirs], hash => {
+			if (oursAncestors.has(hash)) {
+				base = hash;
+				return false;
+			}
+			return true;
+		});
+		return base;
+	}
+
+	/**
+	 * Commits só de `ours` (ahead) e só de `theirs` (behind). Percorre os dois lados juntos, do mais recente
+	 * para o mais antigo, e para quando só restam na fila commits dos dois lados (a base do merge e o que vem antes).
+	 */
+	private async countDivergence(ours: string, theirs: string): Promise<{ ahead: number; behind: number }> {
+		const OURS = 1;
+		const THEIRS = 2;
+		const flags = new Map<string, number>();
+		const queue: { hash: string; commit: CommitObject }[] = [];
+		const mark = async (hash: string, side: number) => {
+			const current = flags.get(hash) ?? 0;
+			if ((current | side) === current || !(await this.store.has(hash))) {
+				return;
+			}
+			flags.set(hash, current | side);
+			// Um commit que ganhou outro lado volta à fila para repassar a marca aos pais
+			if (!queue.some(item => item.hash === hash)) {
+				queue.push({ hash, commit: await this.store.readCommit(hash) });
+			}
+		};
+		await mark(ours, OURS);
+		await mark(theirs, THEIRS);
+		while (queue.some(item => flags.get(item.hash) !== (OURS | THEIRS))) {
+			queue.sort((a, b) => b.commit.committer.timestamp - a.commit.committer.timestamp);
+			const next = queue.shift();
+			if (!next) {
+				break;
+			}
+			for (const parent of next.commit.parents) {
+				await mark(parent, flags.get(next.hash) ?? 0);
+			}
+		}
+		let ahead = 0;
+		let behind = 0;
+		for (const side of flags.values()) {
+			if (side === OURS) {
+				ahead++;
+			} else if (side === THEIRS) {
+				behind++;
+			}
+		}
+		return { ahead, behind };
+	}
+
+	// --- Índice e cópia de trabalho ---
+
+	private async readIndex(): Promise<IndexEntry[]> {
+		const data = await this.readFile(`${GIT_DIR}/index`);
+		return data ? parseIndex(data) : [];
+	}
+
+	private async writeIndex(entries: IndexEntry[]): Promise<void> {
+		await this.writeFile(`${GIT_DIR}/index`, serializeIndex(entries));
+	}
+
+	/**
+	 * Entrada do índice para o arquivo como está no disco agora
+	 */
+	private async indexEntry(file: string, hash: string, mode: number): Promise<IndexEntry> {
+		const stat = await this.fs.stat(file);
+		return {
+			path: file,
+			hash,
+			mode,
+			stage: 0,
+			size: stat?.size ?? 0,
+			mtime: Math.floor(stat?.mtime ?? 0),
+			ctime: Math.floor(stat?.ctime ?? 0),
+			dev: 0,
+			ino: 0,
+			uid: 0,
+			gid: 0
+		};
+	}
+
+	/**
+	 * Arquivos não versionados e não ignorados do vault (a pasta .git e repositórios aninhados ficam de fora)
+	 */
+	private async listUntracked(tracked: Set<string>): Promise<string[]> {
+		const rules = new IgnoreRules();
+		rules.add('', await this.readText(`${GIT_DIR}/info/exclude`) ?? '');
+		const untracked: string[] = [];
+		const visit = async (dir: string) => {
+			const listing = await this.fs.list(dir);
+			const files = listing.files.map(f => f.replace(/^\/+/, ''));
+			const gitignore = dir ? `${dir}/.gitignore` : '.gitignore';
+			if (files.includes(gitignore)) {
+				rules.add(dir, await this.readText(gitignore) ?? '');
+			}
+			for (const file of files) {
+				if (!tracked.has(file) && !rules.isIgnored(file, false)) {
+					untracked.push(file);
+				}
+			}
+			for (const folder of listing.folders.map(f => f.replace(/^\/+/, ''))) {
+				if (folder === GIT_DIR || rules.isIgnored(folder, true) || await this.fs.exists(`${folder}/${GIT_DIR}`)) {
+					continue;
+				}
+				await visit(folder);
+			}
+		};
+		await visit('');
+		return untracked.sort(comparePaths);
+	}
+
+	/**
+	 * Compara o índice com o disco. Arquivos com o mesmo tamanho e data do índice não são relidos;
+	 * os relidos sem mudança têm a entrada atualizada (o índice é regravado se `refresh`).
+	 */
+	private async scanWorkTree(index: IndexEntry[], refresh = true): Promise<{ modified: Set<string>; deleted: Set<string> }> {
+		const modified = new Set<string>();
+		const deleted = new Set<string>();
+		let refreshed = false;
+		for (const entry of index) {
+			if (entry.stage !== 0 || entry.mode === GITLINK_MODE) {
+				continue;
+			}
+			const stat = await this.fs.stat(entry.path);
+			if (!stat || stat.type !== 'file') {
+				deleted.add(entry.path);
+				continue;
+			}
+			if (stat.size % 2 ** 32 === entry.size && Math.floor(stat.mtime) === entry.mtime) {
+				continue;
+			}
+			const data = Buffer.from(await this.fs.readBinary(entry.path));
+			if (hashObject('blob', data) !== entry.hash) {
+				modified.add(entry.path);
+				continue;
+			}
+			entry.size = stat.size;
+			entry.mtime = Math.floor(stat.mtime);
+			entry.ctime = Math.floor(stat.ctime);
+			refreshed = true;
+		}
+		if (refresh && refreshed) {
+			await this.writeIndex(index);
+		}
+		return { modified, deleted };
+	}
+
+	// --- Operações ---
+
+	async isRepository(): Promise<boolean> {
+		return await this.fs.exists(`${GIT_DIR}/HEAD`);
+	}
+
+	async init(): Promise<void> {
+		for (const dir of ['objects/info', 'objects/pack', 'refs/heads', 'refs/tags', 'info']) {
+			await this.ensureDir(`${GIT_DIR}/${dir}`);
+		}
+		await this.writeFile(`${GIT_DIR}/HEAD`, 'ref: refs/heads/master\n');
+		// Sem bits de execução pelo adapter: filemode desligado, como em sistemas de arquivos sem suporte
+		await this.writeFile(`${GIT_DIR}/config`, '[core]\n\trepositoryformatversion = 0\n\tfilemode = false\n\tbare = false\n\tlogallrefupdates = true\n');
+	}
+
+	async status(): Promise<BackendStatus> {
+		const headTarget = await this.readHeadTarget();
+		const head = await this.revParse('HEAD');
+		const headFiles = await this.headFiles(head);
+		const index = await this.readIndex();
+		const { modified, deleted } = await this.scanWorkTree(index);
+
+		const staged = new Map<string, IndexEntry>();
+		const conflicted = new Set<string>();
+		for (const entry of index) {
+			if (entry.stage === 0) {
+				staged.set(entry.path, entry);
+			} else {
+				conflicted.add(entry.path);
+			}
+		}
+
+		const files: StatusEntry[] = [];
+		const paths = [...new Set([...headFiles.keys(), ...staged.keys(), ...conflicted])].sort(comparePaths);
+		for (const file of paths) {
+			if (conflicted.has(file)) {
+				files.push({ path: file, index: 'U', working_dir: 'U' });
+				continue;
+			}
+			const inHead = headFiles.get(file);
+			const inIndex = staged.get(file);
+			let indexCode = ' ';
+			if (inIndex && !inHead) {
+				indexCode = 'A';
+			} else if (!inIndex && inHead) {
+				indexCode = 'D';
+			} else if (inIndex && inHead && (inIndex.hash !== inHead.hash || modeString(inIndex.mode) !== inHead.mode)) {
+				indexCode = 'M';
+			}
+			const workCode = !inIndex ? ' ' : deleted.has(file) ? 'D' : modified.has(file) ? 'M' : ' ';
+			if (indexCode !== ' ' || workCode !== ' ') {
+				files.push({ path: file, index: indexCode, working_dir: workCode });
+			}
+		}
+		for (const file of await this.listUntracked(new Set(index.map(entry => entry.path)))) {
+			files.push({ path: file, index: '?', working_dir: '?' });
+		}
+
+		const current = headTarget?.startsWith('refs/heads/') ? headTarget.slice('refs/heads/'.length) : null;
+		let tracking: string | null = null;
+		let ahead = 0;
+		let behind = 0;
+		if (current) {
+			const remote = await this.getConfig(`branch.${current}.remote`);
+			const merge = await this.getConfig(`branch.${current}.merge`);
+			if (remote && merge?.startsWith('refs/heads/')) {
+				tracking = `${remote}/${merge.slice('refs/heads/'.length)}`;
+				const upstream = await this.readRef(`refs/remotes/${tracking}`);
+				if (head && upstream) {
+					({ ahead, behind } = await this.countDivergence(head, upstream));
+				}
+			}
+		}
+
+		return {
+			current,
+			tracking,
+			ahead,
+			behind,
+			files,
+			conflicted: [...conflicted].sort(comparePaths),
+			staged: files.filter(f => f.index !== ' ' && f.index !== '?' && f.index !== 'U').map(f => f.path)
+		};
+	}
+
+	async listTrackedFiles(): Promise<string[]> {
+		return [...new Set((await this.readIndex()).map(entry => entry.path))];
+	}
+
+	async add(paths: string[] | 'all'): Promise<void> {
+		let targets: string[];
+		if (paths === 'all') {
+			targets = (await this.status()).files.map(f => f.path);
+		} else {
+			targets = [];
+			let status: BackendStatus | null = null;
+			for (const target of paths) {
+				const stat = await this.fs.stat(target);
+				if (stat?.type === 'folder' || target === '.') {
+					// Pasta: tudo o que mudou dentro dela
+					status ??= await this.status();
+					const prefix = target === '.' ? '' : `${target.replace(/\/$/, '')}/`;
+					targets.push(...status.files.map(f => f.path).filter(f => f.startsWith(prefix)));
+				} else {
+					targets.push(target);
+				}
+			}
+		}
+
+		const index = await this.readIndex();
+		const byPath = new Map<string, IndexEntry[]>();
+		for (const entry of index) {
+			byPath.set(entry.path, [...(byPath.get(entry.path) ?? []), entry]);
+		}
+		for (const file of new Set(targets)) {
+			const existing = byPath.get(file)?.find(entry => entry.stage === 0);
+			const stat = await this.fs.stat(file);
+			if (!stat || stat.type !== 'file') {
+				byPath.delete(file);
+				continue;
+			}
+			if (existing?.mode === GITLINK_MODE) {
+				continue;
+			}
+			const hash = await this.store.write('blob', Buffer.from(await this.fs.readBinary(file)));
+			byPath.set(file, [await this.indexEntry(file, hash, existing?.mode ?? FILE_MODE)]);
+		}
+		await this.writeIndex([...byPath.values()].flat());
+	}
+
+	async unstage(paths: string[]): Promise<void> {
+		const headFiles = await this.commitFiles(await this.revParse('HEAD'));
+		const targets = new Set(paths);
+		const entries = (await this.readIndex()).filter(entry => !targets.has(entry.path));
+		for (const file of targets) {
+			const entry = headFiles.get(file);
+			if (entry) {
+				// Data zerada: o status relê o arquivo, que pode diferir do HEAD
+				entries.push({ ...(await this.indexEntry(file, entry.hash, parseInt(entry.mode, 8))), mtime: 0 });
+			}
+		}
+		await this.writeIndex(entries);
+	}
+
+	async restore(paths: string[]): Promise<void> {
+		const headFiles = await this.commitFiles(await this.revParse('HEAD'));
+		const targets = new Set(paths);
+		const entries = (await this.readIndex()).filter(entry => !targets.has(entry.path));
+		for (const file of targets) {
+			const entry = headFiles.get(file);
+			if (entry) {
+				await this.writeFile(file, (await this.store.read(entry.hash)).data);
+				entries.push(await this.indexEntry(file, entry.hash, parseInt(entry.mode, 8)));
+			} else {
+				await this.removeFile(file);
+				await this.removeEmptyParents(file);
+			}
+		}
+		await this.writeIndex(entries);
+	}
+
+	async checkoutConflict(file: string, side: 'ours' | 'theirs'): Promise<void> {
+		const stage = side === 'ours' ? 2 : 3;
+		const entry = (await this.readIndex()).find(e => e.path === file && e.stage === stage);
+		if (!entry) {
+			throw new Error(`path '${file}' does not have ${side === 'ours' ? 'our' : 'their'} version`);
+		}
+		await this.writeFile(file, (await this.store.read(entry.hash)).data);
+	}
+
+	private async readMergeMessage(): Promise<string> {
+		const text = await this.readText(`${GIT_DIR}/MERGE_MSG`) ?? 'Merge';
+		return text.split('\n').filter(line => !line.startsWith('#')).join('\n').trim();
+	}
+
+	private async clearMergeState(): Promise<void> {
+		for (const file of ['MERGE_HEAD', 'MERGE_MSG', 'MERGE_MODE']) {
+			await this.removeFile(`${GIT_DIR}/${file}`);
+		}
+	}
+
+	async commit(message: string | null, paths?: string[]): Promise<void> {
+		const index = await this.readIndex();
+		if (index.some(entry => entry.stage > 0)) {
+			throw new Error('Committing is not possible because you have unmerged files.');
+		}
+		const head = await this.revParse('HEAD');
+		const mergeHead = await this.readRef('MERGE_HEAD');
+		if (mergeHead && paths) {
+			throw new Error('fatal: cannot do a partial commit during a merge.');
+		}
+
+		let files: FileTree;
+		if (paths) {
+			// Só os caminhos informados mudam em relação ao HEAD; o resto do índice fica para depois
+			files = await this.commitFiles(head);
+			const staged = new Map(index.map(entry => [entry.path, entry]));
+			for (const file of paths) {
+				const entry = staged.get(file);
+				if (entry) {
+					files.set(file, { hash: entry.hash, mode: modeString(entry.mode) });
+				} else {
+					files.delete(file);
+				}
+			}
+		} else {
+			files = new Map(index.map(entry => [entry.path, { hash: entry.hash, mode: modeString(entry.mode) }]));
+		}
+
+		const tree = await this.writeTree(files);
+		const parents = head ? [head] : [];
+		if (mergeHead) {
+			parents.push(mergeHead);
+		}
+		if (head && !mergeHead && (await this.store.readCommit(head)).tree === tree) {
+			console.debug('Backend JavaScript: nada a commitar');
+			return;
+		}
+
+		const name = await this.getConfig('user.name') ?? this.options.userName;
+		const email = await this.getConfig('user.email') ?? this.options.userEmail;
+		const signature = createSignature(name, email);
+		const hash = await this.store.write('commit', serializeCommit({
+			tree,
+			parents,
+			author: signature,
+			committer: signature,
+			message: message ?? await this.readMergeMessage()
+		}));
+		await this.updateHead(hash);
+		await this.clearMergeState();
+	}
+
+	async show(revision: string, file: string): Promise<Buffer> {
+		const stage = revision.match(/^:([0-3])?$/);
+		if (stage) {
+			const number = Number(stage[1] ?? 0);
+			const entry = (await this.readIndex()).find(e => e.path === file && e.stage === number);
+			if (!entry) {
+				throw new Error(`path '${file}' is in the index, but not at stage ${number}`);
+			}
+			return (await this.store.read(entry.hash)).data;
+		}
+		const commit = await this.revParse(revision);
+		if (!commit) {
+			throw new Error(`invalid object name '${revision}'`);
+		}
+		const entry = await this.lookupPath((await this.store.readCommit(commit)).tree, file);
+		if (!entry || entry.mode === TREE_MODE) {
+			throw new Error(`path '${file}' does not exist in '${revision}'`);
+		}
+		return (await this.store.read(entry.hash)).data;
+	}
+
+	async log(query: LogQuery): Promise<LogEntry[]> {
+		const head = await this.revParse('HEAD');
+		if (!head) {
+			return [];
+		}
+		// Datas sem horário valem do início (since) ou do fim (until) do dia, no fuso local
+		const parseDate = (value: string | undefined, endOfDay: boolean): number | null => {
+			if (!value) {
+				return null;
+			}
+			const day = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+			const date = day
+				? new Date(Number(day[1]), Number(day[2]) - 1, Number(day[3]), endOfDay ? 23 : 0, endOfDay ? 59 : 0, endOfDay ? 59 : 0)
+				: new Date(value);
+			return Number.isNaN(date.getTime()) ? null : date.getTime() / 1000;
+		};
+		const since = parseDate(query.since, false);
+		const until = parseDate(query.until, true);
+		let author: RegExp | null = null;
+		if (query.author) {
+			try {
+				author = new RegExp(query.author);
+			} catch {
+				author = new RegExp(query.author.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+			}
+		}
+		const filePath = query.path?.replace(/\/+$/, '');
+
+		const entries: LogEntry[] = [];
+		let skipped = 0;
+		await this.walkCommits([head], async (hash, commit) => {
+			if (until !== null && commit.committer.timestamp > until) {
+				return true;
+			}
+			if (since !== null && commit.committer.timestamp < since) {
+				return true;
+			}
+			if (author && !author.test(`${commit.author.name} <${commit.author.email}>`)) {
+				return true;
+			}
+			if (filePath) {
+				// O commit aparece se mudou o caminho em relação a todos os pais
+				const own = await this.lookupPath(commit.tree, filePath);
+				let changed = commit.parents.length === 0 ? own !== null : true;
+				for (const parent of commit.parents) {
+					if (!(await this.store.has(parent))) {
+						continue;
+					}
+					const previous = await this.lookupPath((await this.store.readCommit(parent)).tree, filePath);
+					if (previous?.hash === own?.hash) {
+						changed = false;
+					}
+				}
+				if (!changed) {
+					return true;
+				}
+			}
+			if (skipped < (query.skip ?? 0)) {
+				skipped++;
+				return true;
+			}
+			const [subject = '', ...rest] = commit.message.split('\n');
+			entries.push({
+				hash,
+				date: formatSignatureDate(commit.author),
+				message: subject,
+				refs: '',
+				body: rest.join('\n').trim(),
+				author_name: commit.author.name,
+				author_email: commit.author.email
+			});
+			return entries.length < query.maxCount;
+		});
+		return entries;
+	}
+
+	/**
+	 * Baixa os objetos que faltam para os commits informados, informando ao servidor os commits locais recentes
+	 */
+	private async fetchObjects(url: string, advertised: Awaited<ReturnType<typeof discoverRefs>>, wants: string[]): Promise<void> {
+		const missing: string[] = [];
+		for (const want of wants) {
+			if (!(await this.store.has(want))) {
+				missing.push(want);
+			}
+		}
+		if (missing.length === 0) {
+			return;
+		}
+		const tips = [...(await this.listRefs('refs/heads/')).values(), ...(await this.listRefs('refs/remotes/')).values()];
+		const haves: string[] = [];
+		await this.walkCommits([...new Set(tips)], hash => {
+			haves.push(hash);
+			return haves.length < MAX_HAVES;
+		});
+		const pack = await fetchPack(this.options.http, this.options.credentials, url, advertised, missing, haves);
+		await this.store.addPack(pack);
+	}
+
+	async fetch(remote: string, branch: string): Promise<void> {
+		const url = await this.getRemoteUrl(remote);
+		const advertised = await discoverRefs(this.options.http, this.options.credentials, url, 'git-upload-pack');
+		const hash = advertised.refs.get(`refs/heads/${branch}`);
+		if (!hash) {
+			throw new Error(`couldn't find remote ref refs/heads/${branch}`);
+		}
+		await this.fetchObjects(url, advertised, [hash]);
+		await this.writeRef(`refs/remotes/${remote}/${branch}`, hash);
+	}
+
+	/**
+	 * Merge de três vias das árvores: o que mudou de um lado só é aceito; o que mudou dos dois lados é
+	 * mesclado linha a linha e, se não der, vira conflito
+	 */
+	private async mergeTrees(base: FileTree, ours: FileTree, theirs: FileTree): Promise<{ files: FileTree; conflicts: Map<string, MergeConflict> }> {
+		const files: FileTree = new Map();
+		const conflicts = new Map<string, MergeConflict>();
+		const read = async (entry: FileEntry | undefined) => entry ? (await this.store.read(entry.hash)).data : Buffer.alloc(0);
+		for (const file of new Set([...base.keys(), ...ours.keys(), ...theirs.keys()])) {
+			const b = base.get(file);
+			const o = ours.get(file);
+			const t = theirs.get(file);
+			let result: FileEntry | undefined;
+			if (sameEntry(o, t) || sameEntry(b, t)) {
+				result = o;
+			} else if (sameEntry(b, o)) {
+				result = t;
+			} else if (o && t && o.mode !== GITLINK_MODE.toString(8) && t.mode !== GITLINK_MODE.toString(8)) {
+				const merged = mergeContent(file, await read(b), await read(o), await read(t), this.options.markdownMerge ?? false);
+				if (merged && merged.conflicts === 0) {
+					result = { hash: await this.store.write('blob', merged.data), mode: o.mode };
+				} else {
+					conflicts.set(file, { base: b, ours: o, theirs: t, content: merged?.data ?? await read(o) });
+					continue;
+				}
+			} else {
+				// Alterado de um lado e removido do outro: fica o lado que ainda existe
+				conflicts.set(file, { base: b, ours: o, theirs: t, content: await read(o ?? t) });
+				continue;
+			}
+			if (result) {
+				files.set(file, result);
+			}
+		}
+		return { files, conflicts };
+	}
+
+	/**
+	 * Leva a cópia de trabalho e o índice de `current` para `target`. Alterações locais em arquivos que
+	 * mudam são mescladas com `autostash` (se não houver conflito) ou impedem a operação, como no git.
+	 * Com `force`, a cópia de trabalho e o índice passam a ser exatamente `target`.
+	 */
+	private async updateWorkTree(current: FileTree, target: FileTree, conflicts: Map<string, MergeConflict>, options: { autostash?: boolean; force?: boolean } = {}): Promise<string[]> {
+		const index = options.force ? [] : await this.readIndex();
+		const { modified, deleted } = options.force ? { modified: new Set<string>(), deleted: new Set<string>() } : await this.scanWorkTree(index, false);
+		const staged = new Map(index.filter(entry => entry.stage === 0).map(entry => [entry.path, entry]));
+
+		const changes = new Map<string, WorkTreeChange>();
+		for (const file of new Set([...current.keys(), ...target.keys()])) {
+			const next = target.get(file);
+			if (options.force || !sameEntry(current.get(file), next)) {
+				changes.set(file, { entry: next ?? null });
+			}
+		}
+
+		// Conflitos com alterações locais, verificados antes de mexer em qualquer arquivo
+		const blocked: string[] = [];
+		for (const file of [...changes.keys(), ...conflicts.keys()]) {
+			if (options.force) {
+				break;
+			}
+			const before = current.get(file);
+			const inIndex = staged.get(file);
+			const indexChanged = inIndex ? inIndex.hash !== before?.hash : before !== undefined;
+			const localChange = modified.has(file) || deleted.has(file) || (indexChanged && !(inIndex === undefined && deleted.has(file)));
+			if (!before && !inIndex) {
+				// Arquivo não versionado no lugar de um que chega: só passa se for igual
+				const existing = await this.readFile(file);
+				const incoming = changes.get(file)?.entry;
+				if (existing && (conflicts.has(file) || !incoming || hashObject('blob', existing) !== incoming.hash)) {
+					blocked.push(file);
+				}
+				continue;
+			}
+			if (!localChange) {
+				continue;
+			}
+			const incoming = changes.get(file)?.entry;
+			const local = await this.readFile(file);
+			if (!options.autostash || conflicts.has(file) || !before || !incoming || !local) {
+				blocked.push(file);
+				continue;
+			}
+			const merged = mergeContent(file, (await this.store.read(before.hash)).data, local, (await this.store.read(incoming.hash)).data, this.options.markdownMerge ?? false);
+			if (!merged || merged.conflicts > 0) {
+				blocked.push(file);
+				continue;
+			}
+			changes.set(file, { entry: incoming, content: merged.data });
+		}
+		if (blocked.length > 0) {
+			throw new Error(`error: Your local changes to the following files would be overwritten by merge:\n\t${blocked.join('\n\t')}\nPlease commit your changes or stash them before you merge.`);
+		}
+
+		const entries = new Map<string, IndexEntry[]>();
+		for (const entry of index) {
+			entries.set(entry.path, [...(entries.get(entry.path) ?? []), entry]);
+		}
+		const changed: string[] = [];
+		for (const [file, change] of changes) {
+			const { entry } = change;
+			if (entry?.mode === GITLINK_MODE.toString(8)) {
+				entries.set(file, [{ ...(await this.indexEntry(file, entry.hash, GITLINK_MODE)), size: 0, mtime: 0, ctime: 0 }]);
+				continue;
+			}
+			if (!entry) {
+				await this.removeFile(file);
+				await this.removeEmptyParents(file);
+				entries.delete(file);
+				changed.push(file);
+				continue;
+			}
+			const blob = (await this.store.read(entry.hash)).data;
+			const existing = options.force ? await this.readFile(file) : null;
+			if (!existing || !existing.equals(change.content ?? blob)) {
+				await this.writeFile(file, change.content ?? blob);
+			}
+			const indexed = await this.indexEntry(file, entry.hash, parseInt(entry.mode, 8));
+			// Com as edições locais mescladas, o arquivo difere do índice: a data zerada força a releitura no status
+			entries.set(file, [change.content ? { ...indexed, mtime: 0 } : indexed]);
+			if (!sameEntry(current.get(file), entry)) {
+				changed.push(file);
+			}
+		}
+		for (const [file, conflict] of conflicts) {
+			await this.writeFile(file, conflict.content);
+			const stages: IndexEntry[] = [];
+			[conflict.base, conflict.ours, conflict.theirs].forEach((side, i) => {
+				if (side) {
+					stages.push({ path: file, hash: side.hash, mode: parseInt(side.mode, 8), stage: i + 1, size: 0, mtime: 0, ctime: 0, dev: 0, ino: 0, uid: 0, gid: 0 });
+				}
+			});
+			entries.set(file, stages);
+			changed.push(file);
+		}
+		await this.writeIndex([...entries.values()].flat());
+		return changed;
+	}
+
+	async pull(remote: string, branch: string, options: PullOptions): Promise<string[]> {
+		await this.fetch(remote, branch);
+		const theirs = await this.readRef(`refs/remotes/${remote}/${branch}`);
+		const ours = await this.revParse('HEAD');
+		if (!theirs || theirs === ours || (ours && await this.isAncestor(theirs, ours))) {
+			return [];
+		}
+		const oursFiles = await this.commitFiles(ours);
+		const theirsFiles = await this.commitFiles(theirs);
+
+		if (!ours || await this.isAncestor(ours, theirs)) {
+			const changed = await this.updateWorkTree(oursFiles, theirsFiles, new Map(), { autostash: options.autostash });
+			await this.updateHead(theirs);
+			return changed;
+		}
+		if (options.strategy === 'ff-only') {
+			throw new Error('fatal: Not possible to fast-forward, aborting.');
+		}
+		if (options.strategy === 'rebase') {
+			throw new Error(`fatal: rebase ${BACKEND_UNSUPPORTED}`);
+		}
+
+		const base = await this.mergeBase(ours, theirs);
+		const merged = await this.mergeTrees(await this.commitFiles(base), oursFiles, theirsFiles);
+		const changed = await this.updateWorkTree(oursFiles, merged.files, merged.conflicts, { autostash: options.autostash });
+		const message = `Merge branch '${branch}' of ${await this.getRemoteUrl(remote)}`;
+		if (merged.conflicts.size > 0) {
+			await this.writeFile(`${GIT_DIR}/MERGE_HEAD`, `${theirs}\n`);
+			await this.writeFile(`${GIT_DIR}/MERGE_MSG`, `${message}\n\n# Conflicts:\n${[...merged.conflicts.keys()].map(file => `#\t${file}`).join('\n')}\n`);
+			await this.writeFile(`${GIT_DIR}/MERGE_MODE`, '');
+			const lines = [...merged.conflicts.keys()].map(file => `CONFLICT (content): Merge conflict in ${file}`);
+			throw new Error(`${lines.join('\n')}\nAutomatic merge failed; fix conflicts and then commit the result.`);
+		}
+
+		const signature = createSignature(await this.getConfig('user.name') ?? this.options.userName, await this.getConfig('user.email') ?? this.options.userEmail);
+		const hash = await this.store.write('commit', serializeCommit({
+			tree: await this.writeTree(merged.files),
+			parents: [ours, theirs],
+			author: signature,
+			committer: signature,
+			message
+		}));
+		await this.updateHead(hash);
+		return changed;
+	}
+
+	/**
+	 * Objetos novos a partir de `tip` que o remote ainda não tem (ele já tem tudo que alcança `known`)
+	 */
+	private async collectObjects(tip: string, known: string[]): Promise<GitObject[]> {
+		const knownCommits = new Set<string>();
+		for (const hash of known) {
+			for (const ancestor of await this.ancestors(hash)) {
+				knownCommits.add(ancestor);
+			}
+		}
+		const commits: { hash: string; commit: CommitObject }[] = [];
+		await this.walkCommits([tip], (hash, commit) => {
+			commits.push({ hash, commit });
+			return true;
+		}, knownCommits);
+
+		// Árvores e blobs dos commits da fronteira já estão no remote
+		const knownObjects = new Set<string>();
+		const collectTree = async (treeHash: string, into: Set<string>, skip?: Set<string>): Promise<void> => {
+			if (into.has(treeHash) || skip?.has(treeHash)) {
+				return;
+			}
+			into.add(treeHash);
+			for (const entry of await this.store.readTree(treeHash)) {
+				if (entry.mode === TREE_MODE) {
+					await collectTree(entry.hash, into, skip);
+				} else if (entry.mode !== GITLINK_MODE.toString(8) && !skip?.has(entry.hash)) {
+					into.add(entry.hash);
+				}
+			}
+		};
+		for (const { commit } of commits) {
+			for (const parent of commit.parents) {
+				if (knownCommits.has(parent)) {
+					await collectTree((await this.store.readCommit(parent)).tree, knownObjects);
+				}
+			}
+		}
+
+		const hashes = new Set<string>();
+		for (const { hash, commit } of commits) {
+			hashes.add(hash);
+			await collectTree(commit.tree, hashes, knownObjects);
+		}
+		const objects: GitObject[] = [];
+		for (const hash of hashes) {
+			objects.push(await this.store.read(hash));
+		}
+		return objects;
+	}
+
+	async push(remote: string, refspec: string, setUpstream = false): Promise<void> {
+		const [source = '', destination = source] = refspec.split(':');
+		const local = await this.revParse(source);
+		if (!local) {
+			throw new Error(`error: src refspec ${source} does not match any`);
+		}
+		const url = await this.getRemoteUrl(remote, true);
+		const advertised = await discoverRefs(this.options.http, this.options.credentials, url, 'git-receive-pack');
+		const ref = `refs/heads/${destination}`;
+		const remoteHash = advertised.refs.get(ref) ?? ZERO_HASH;
+
+		if (remoteHash !== local) {
+			if (remoteHash !== ZERO_HASH) {
+				if (!(await this.store.has(remoteHash))) {
+					throw new Error(`! [rejected] ${source} -> ${destination} (fetch first)`);
+				}
+				if (!(await this.isAncestor(remoteHash, local))) {
+					throw new Error(`! [rejected] ${source} -> ${destination} (non-fast-forward)`);
+				}
+			}
+			const known: string[] = [];
+			for (const hash of advertised.refs.values()) {
+				if (await this.store.has(hash) && (await this.store.read(hash)).type === 'commit') {
+					known.push(hash);
+				}
+			}
+			const pack = buildPack(await this.collectObjects(local, known));
+			await sendPack(this.options.http, this.options.credentials, url, [{ ref, oldHash: remoteHash, newHash: local }], pack);
+		}
+		await this.writeRef(`refs/remotes/${remote}/${destination}`, local);
+		if (setUpstream) {
+			await this.setUpstream(source, `${remote}/${destination}`);
+		}
+	}
+
+	async listRemote(url: string): Promise<RemoteRefs> {
+		const advertised = await discoverRefs(this.options.http, this.options.credentials, url, 'git-upload-pack');
+		const branches = [...advertised.refs.keys()]
+			.filter(ref => ref.startsWith('refs/heads/'))
+			.map(ref => ref.slice('refs/heads/'.length));
+		const head = advertised.head?.startsWith('refs/heads/') ? advertised.head.slice('refs/heads/'.length) : null;
+		return { head, branches };
+	}
+
+	async getRemotes(): Promise<RemoteInfo[]> {
+		const config = await this.readConfig();
+		const names = [...new Set(config.filter(entry => entry.section === 'remote' && entry.subsection).map(entry => entry.subsection as string))];
+		return names.map(name => {
+			const value = (key: string) => config.filter(entry => entry.section === 'remote' && entry.subsection === name && entry.key === key).pop()?.value;
+			const fetchUrl = value('url') ?? '';
+			return { name, fetchUrl, pushUrl: value('pushurl') ?? fetchUrl };
+		});
+	}
+
+	async addRemote(name: string, url: string): Promise<void> {
+		await this.setConfig(`remote.${name}.url`, url);
+		await this.setConfig(`remote.${name}.fetch`, `+refs/heads/*:refs/remotes/${name}/*`);
+	}
+
+	async setRemoteUrl(name: string, url: string, push = false): Promise<void> {
+		await this.setConfig(`remote.${name}.${push ? 'pushurl' : 'url'}`, url);
+	}
+
+	async listBranches(): Promise<BranchList> {
+		const target = await this.readHeadTarget();
+		return {
+			current: target?.startsWith('refs/heads/') ? target.slice('refs/heads/'.length) : null,
+			all: [...(await this.listRefs('refs/heads/')).keys()].map(ref => ref.slice('refs/heads/'.length)).sort(comparePaths)
+		};
+	}
+
+	async checkout(branch: string, options: CheckoutOptions = {}): Promise<void> {
+		const ref = `refs/heads/${branch}`;
+		let target: string | null;
+		if (options.create || options.force) {
+			target = await this.revParse(options.startPoint ?? 'HEAD');
+			if (options.startPoint && !target) {
+				throw new Error(`fatal: invalid reference: ${options.startPoint}`);
+			}
+		} else {
+			target = await this.readRef(ref);
+			if (!target) {
+				throw new Error(`error: pathspec '${branch}' did not match any file(s) known to git`);
+			}
+		}
+
+		const head = await this.revParse('HEAD');
+		if (target && (target !== head || options.force)) {
+			await this.updateWorkTree(await this.commitFiles(head), await this.commitFiles(target), new Map(), { force: options.force });
+		}
+		if (target) {
+			await this.writeRef(ref, target);
+		}
+		await this.writeFile(`${GIT_DIR}/HEAD`, `ref: ${ref}\n`);
+		if (options.track && options.startPoint) {
+			await this.setUpstream(branch, options.startPoint);
+		}
+	}
+
+	async setUpstream(branch: string, remoteBranch: string): Promise<void> {
+		const slash = remoteBranch.indexOf('/');
+		await this.setConfig(`branch.${branch}.remote`, remoteBranch.slice(0, slash));
+		await this.setConfig(`branch.${branch}.merge`, `refs/heads/${remoteBranch.slice(slash + 1)}`);
+	}
+
+	async getMergeState(): Promise<MergeState> {
+		return {
+			merging: await this.fs.exists(`${GIT_DIR}/MERGE_HEAD`),
+			rebasing: await this.fs.exists(`${GIT_DIR}/rebase-merge`) || await this.fs.exists(`${GIT_DIR}/rebase-apply`)
+		};
+	}
+
+	async abortMerge(): Promise<void> {
+		if (!(await this.fs.exists(`${GIT_DIR}/MERGE_HEAD`))) {
+			throw new Error('fatal: There is no merge to abort (MERGE_HEAD missing).');
+		}
+		// Volta ao HEAD os arquivos que o merge mudou no índice
+		const headFiles = await this.commitFiles(await this.revParse('HEAD'));
+		const index = await this.readIndex();
+		const touched = new Set(index
+			.filter(entry => entry.stage > 0 || !sameEntry(headFiles.get(entry.path), { hash: entry.hash, mode: modeString(entry.mode) }))
+			.map(entry => entry.path));
+		const staged = new Set(index.map(entry => entry.path));
+		for (const file of headFiles.keys()) {
+			if (!staged.has(file)) {
+				touched.add(file);
+			}
+		}
+		const entries = index.filter(entry => !touched.has(entry.path));
+		for (const file of touched) {
+			const entry = headFiles.get(file);
+			if (entry) {
+				await this.writeFile(file, (await this.store.read(entry.hash)).data);
+				entries.push(await this.indexEntry(file, entry.hash, parseInt(entry.mode, 8)));
+			} else {
+				await this.removeFile(file);
+				await this.removeEmptyParents(file);
+			}
+		}
+		await this.writeIndex(entries);
+		await this.clearMergeState();
+	}
+}
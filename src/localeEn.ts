@@ -0,0 +1,394 @@
+// Catálogo base: define as chaves de mensagem; os demais idiomas precisam ter todas elas
+const en = {
+	// Comandos e menus
+	'command.sync': 'Sync now',
+	'command.pull': 'Pull from GitHub',
+	'command.checkRemote': 'Check for remote changes',
+	'command.push': 'Push to GitHub',
+	'command.validate': 'Validate Git configuration',
+	'command.status': 'Sync status',
+	'command.resolveConflicts': 'Resolve conflicts',
+	'command.history': 'Open sync history',
+	'command.sourceControl': 'Open source control',
+	'command.abortRebase': 'Abort rebase in progress',
+	'command.abortMerge': 'Abort merge in progress',
+	'command.undoLastSync': 'Undo last sync',
+	'command.restoreSnapshot': 'Restore safety snapshot',
+	'command.forgetHostKey': 'Forget SSH host key',
+	'command.applyExclusions': 'Apply excluded paths',
+	'command.fileHistory': 'Show file history',
+	'command.setup': 'Set up sync with a remote vault',
+	'command.unlockEncryption': 'Unlock encrypted notes',
+	'command.checkUnencryptedHistory': 'Check for unencrypted history',
+	'ribbon.sync': 'Sync with GitHub',
+	'menu.fileHistory': 'File history',
+
+	// Notificações
+	'notice.syncComplete': '✅ Sync with GitHub complete!',
+	'notice.pullComplete': '✅ Pull completed successfully!',
+	'notice.pushComplete': '✅ Push completed successfully!',
+	'notice.commitComplete': '✅ Commit created',
+	'notice.offline': '📴 No connection: changes were committed locally and will be pushed when the connection is back',
+	'notice.reconnected': '✅ Connection restored: local changes pushed',
+	'notice.gitNotConfigured': '❌ Git is not configured',
+	'notice.initFailed': '❌ Failed to initialize Git',
+	'notice.repoUrlMissing': '❌ GitHub repository URL is not set. Configure it in the settings.',
+	'notice.validationOk': '✅ Configuration validated successfully!',
+	'notice.validationErrors': '❌ Configuration errors:\n{errors}',
+	'notice.statusFailed': '❌ Failed to get status',
+	'notice.statusSummary': 'Branch: {branch}\nCommits ahead: {ahead}\nCommits behind: {behind}\nLast commit: {lastCommit}',
+	'notice.noConflicts': '✅ No conflicts found',
+	'notice.mergeAborted': '✅ Merge aborted successfully',
+	'notice.rebaseAborted': '✅ Rebase aborted successfully',
+	'notice.noSnapshots': 'No safety snapshots yet: they are created before each pull and before resolving conflicts',
+	'notice.snapshotRestored': '✅ Vault restored. The remote changes come back on the next pull',
+	'notice.autoSyncPaused': '⏸️ Automatic sync paused. Run "Sync now" to review the changes again',
+	'notice.noRemoteChanges': '✅ No remote changes',
+	'notice.remoteFilesApplied': '✅ Remote changes applied to {count} file(s)',
+	'notice.remoteChangesPostponed': '⏸️ Remote changes postponed: automatic sync is paused until you merge them or sync manually',
+	'notice.lfsConfigured': '✅ Git LFS configured',
+	'notice.encryptionEnabled': '🔒 Encryption enabled: {count} file(s) will be encrypted in the next sync',
+	'notice.encryptionDisabled': '🔓 Encryption disabled: {count} file(s) will be stored in plain text from the next sync',
+	'notice.encryptionUnlocked': '🔓 Encryption unlocked: {count} file(s) decrypted',
+	'notice.historyEncrypted': '✅ No plain text versions of encrypted files in the history',
+	'notice.hostKeyUpdated': '✅ SSH host key updated',
+	'notice.untracked': '✅ {count} file(s) removed from the repository; the removal goes into the next sync',
+	'notice.conflictMarkers': '⚠️ The result still contains conflict markers',
+	'notice.setupComplete': '✅ Vault connected to the remote repository',
+	'notice.rebaseStoppedAgain': '⚠️ The rebase stopped at another commit with conflicts',
+	'notice.mergeCompleted': '✅ Conflicts resolved and merge completed!',
+	'notice.rebaseCompleted': '✅ Conflicts resolved and rebase completed!',
+	'notice.fileRestored': '✅ {path} restored to {hash}',
+
+	// Contexto das falhas sem código específico
+	'failure.default': 'Git error',
+	'failure.sync': 'Failed to sync with GitHub',
+	'failure.init': 'Failed to initialize Git',
+	'failure.lfs': 'Failed to configure Git LFS',
+	'failure.encryption': 'Failed to configure encryption',
+	'failure.hostKey': 'Failed to update the SSH host key',
+	'failure.untrack': 'Failed to remove files from the repository',
+	'failure.abortMerge': 'Failed to abort merge',
+	'failure.abortRebase': 'Failed to abort rebase',
+	'failure.restoreSnapshot': 'Failed to restore the safety snapshot',
+	'failure.fetch': 'Failed to check for remote changes',
+	'failure.applyIncoming': 'Could not apply the remote changes to these files; merge everything instead',
+	'failure.stage': 'Failed to stage',
+	'failure.unstage': 'Failed to unstage',
+	'failure.discard': 'Failed to discard changes to {file}',
+	'failure.commit': 'Failed to commit',
+	'failure.markResolved': 'Failed to mark {file} as resolved',
+	'failure.completeMerge': 'Failed to complete merge',
+	'failure.continueRebase': 'Failed to continue rebase',
+	'failure.restore': 'Failed to restore file version',
+
+	// Mensagens por código de erro (ver gitResult.ts)
+	'error.not-configured': 'Git is not configured',
+	'error.init-failed': 'Failed to initialize Git: {details}',
+	'error.invalid-url': 'The repository URL looks incomplete. Make sure it includes the repository name (e.g. https://gitlab.com/group/repo.git)',
+	'error.auth-failed': 'Authentication failed. Check your token or SSH key in the settings.',
+	'error.ssh-passphrase': 'SSH key passphrase missing or incorrect. Check it in the settings.',
+	'error.host-key': 'SSH host key not verified or rejected. Sync again to check the server fingerprint.',
+	'error.host-key-changed': 'The server SSH key changed since the last connection (possible man-in-the-middle attack). If the change is legitimate, use the "Forget SSH host key" command.',
+	'error.remote-not-found': 'Remote repository not found. Check the URL in the settings.',
+	'error.branch-missing': 'Remote branch "{branch}" not found in the remote repository',
+	'error.conflict': '{count} file(s) in conflict. Use the "Resolve conflicts" command or abort the merge/rebase.',
+	'error.merge-in-progress': 'A merge is in progress. Use the "Abort merge" command or resolve the conflicts first.',
+	'error.rebase-in-progress': 'A rebase is in progress. Use the "Abort rebase" command or resolve the conflicts first.',
+	'error.network': 'No connection to the remote repository',
+	'error.non-fast-forward': 'Local and remote history diverged. Pull with merge or rebase (the "fast-forward only" strategy does not combine them) or integrate manually.',
+	'error.local-changes': 'Local changes prevent the pull. Enable autostash in the settings or commit first.',
+	'error.nothing-to-commit': 'Nothing to commit',
+	'error.lfs-unavailable': 'Git LFS not found. Install git-lfs to keep large attachments out of the regular history.',
+	'error.lfs-failed': 'Git LFS error. Check that the server has LFS enabled and enough space.',
+	'error.encryption-locked': 'Encrypted notes are locked on this device. Enter the encryption passphrase to read and commit them.',
+	'error.encryption-passphrase': 'Wrong encryption passphrase. It must be the same one used on the other devices.',
+	'error.backend-unsupported': 'Not available with the built-in Git implementation. Install Git or switch the Git implementation in the settings.',
+	'error.ssh-unsupported': 'SSH is not available with the built-in Git implementation. Add a token to sync over HTTPS, or install Git.',
+	'error.cancelled': 'Operation cancelled',
+
+	// Detalhes produzidos pelo GitManager
+	'git.remoteUrlMissing': 'Remote repository URL is not set',
+	'git.branchMissing': 'Branch is not set',
+	'git.userNameMissing': 'Git user name is not set',
+	'git.userEmailMissing': 'Git user email is not set',
+	'git.tokenMissing': 'Personal access token is not set (required for HTTPS)',
+	'git.sshKeyInvalid': 'SSH key not found or invalid',
+	'git.sshKeyUnreadable': 'SSH key not found or unreadable: {path}',
+	'git.sshKeyBroken': 'Invalid SSH key: {details}',
+	'git.sshPassphraseWrong': 'Incorrect SSH key passphrase.',
+	'git.sshPassphraseRequired': 'The SSH key is protected by a passphrase. Enter it in the settings.',
+	'git.sshKeyRejected': 'SSH key rejected by the server. Check the passphrase and that the public key was added to your account.',
+	'git.hostKeyChanged': 'The server SSH key changed since the last connection (possible man-in-the-middle attack). If the change is legitimate, use the "Forget SSH host key" command.',
+	'git.hostKeyUnverified': 'SSH host key not verified. Sync again to check the server fingerprint.',
+	'git.hostKeyRejected': 'Host key for {host} was not accepted.',
+	'git.hostKeyUnreachable': 'Could not get the SSH key of {host}. {details}',
+	'git.keyscanMissing': 'ssh-keyscan not found: the SSH host key cannot be verified.',
+	'git.notSsh': 'The remote does not use SSH.',
+	'git.connectionFailed': 'Failed to connect to the remote repository: {details}',
+	'git.integrateDevice': 'Integrate changes from device {device}',
+	'git.noMergeInProgress': 'No merge in progress',
+
+	// Mensagem de commit
+	'commit.changedFiles': 'Changed files:',
+	'commit.moreFiles': '... and {count} more file(s)',
+	'source.manual': 'manual',
+	'source.open': 'vault open',
+	'source.save': 'save',
+	'source.interval': 'interval',
+	'source.retry': 'retry',
+
+	// Modais de confirmação
+	'confirm.cancel': 'Cancel',
+	'confirm.moreFiles': '... and {count} more file(s)',
+	'largeFiles.title': 'Large files',
+	'largeFiles.description': '{count} file(s) over {limit} MB will go into the repository history and make it grow forever. Enable Git LFS in the settings or exclude these files from sync.',
+	'largeFiles.confirm': 'Commit anyway',
+	'hostKey.title': 'Verify SSH host key',
+	'hostKey.description': 'First connection to {host}. Check that the fingerprints below are the ones published by the service (e.g. in the GitHub documentation) before trusting it.',
+	'hostKey.confirm': 'Trust and connect',
+	'hostKey.cancel': 'Reject',
+	'exclusions.title': 'Excluded files still tracked',
+	'exclusions.description': 'These files match the excluded paths but are already in the repository. Remove them from the repository? They stay on disk.',
+	'exclusions.confirm': 'Remove from repository',
+
+	// Barra de status
+	'status.idle': 'Ready',
+	'status.pulling': 'Pulling…',
+	'status.committing': 'Committing…',
+	'status.pushing': 'Pushing…',
+	'status.conflicted': 'Conflicts pending',
+	'status.error': 'Error',
+	'status.offline': 'Offline',
+	'status.changes': '{count} change(s)',
+	'status.retry': 'retry {time}',
+	'status.tooltip': 'Click for sync actions',
+
+	// Visões
+	'view.gitNotConfigured': 'Git is not configured.',
+	'view.diffUnavailable': 'Could not get the diff.',
+	'view.noDifferences': 'No differences.',
+	'sourceControl.title': 'Source control',
+	'sourceControl.messagePlaceholder': 'Commit message (empty uses the template)',
+	'sourceControl.commit': 'Commit',
+	'sourceControl.commitAndPush': 'Commit and push',
+	'sourceControl.push': 'Push',
+	'sourceControl.noChanges': 'No changes.',
+	'sourceControl.conflicted': 'Conflicted',
+	'sourceControl.staged': 'Staged',
+	'sourceControl.unstaged': 'Changes',
+	'sourceControl.untracked': 'Untracked',
+	'sourceControl.stage': 'Stage',
+	'sourceControl.stageAll': 'Stage all',
+	'sourceControl.unstage': 'Unstage',
+	'sourceControl.unstageAll': 'Unstage all',
+	'sourceControl.discard': 'Discard changes',
+	'sourceControl.discardConfirm': 'Click again to discard',
+	'conflicts.title': 'Merge conflicts',
+	'conflicts.none': 'No conflicted files.',
+	'conflicts.continueRebase': 'Continue rebase',
+	'conflicts.completeMerge': 'Complete merge',
+	'conflicts.local': 'Local',
+	'conflicts.base': 'Base',
+	'conflicts.remote': 'Remote',
+	'conflicts.hunk': 'Conflicting hunk',
+	'conflicts.resolvedWith': 'Resolved: {choice}',
+	'conflicts.acceptOurs': 'Accept local',
+	'conflicts.acceptTheirs': 'Accept remote',
+	'conflicts.acceptBoth': 'Accept both',
+	'conflicts.keepBase': 'Keep base',
+	'conflicts.result': 'Result',
+	'conflicts.markResolved': 'Mark as resolved',
+	'conflicts.acceptDeletion': 'Accept deletion',
+	'conflicts.deleted': '(file deleted)',
+	'history.title': 'Sync history',
+	'history.author': 'Author',
+	'history.since': 'Since',
+	'history.until': 'Until',
+	'history.path': 'Path',
+	'history.noCommits': 'No commits found.',
+	'history.loadMore': 'Load more',
+	'history.noFiles': 'No files changed.',
+	'history.device': 'on {device}',
+	'fileHistory.title': 'History: {path}',
+	'fileHistory.noRevisions': 'No versions found for this file.',
+	'fileHistory.compare': 'Compare with current',
+	'fileHistory.openCopy': 'Open copy',
+	'fileHistory.restore': 'Restore this version',
+	'fileHistory.confirmRestore': 'Confirm restore',
+	'fileHistory.versionUnavailable': 'Could not get this version.',
+
+	// Alterações remotas
+	'incoming.title': 'Remote changes ({count} commit(s))',
+	'incoming.commits': 'Incoming commits',
+	'incoming.files': 'Files ({count})',
+	'incoming.localEditsWarning': '{count} file(s) also have uncommitted local edits and may conflict. They can only be merged together with everything else.',
+	'incoming.localEdits': 'local edits',
+	'incoming.diff': 'Diff',
+	'incoming.mergeAll': 'Merge now',
+	'incoming.mergeSelected': 'Merge selected files',
+	'incoming.postpone': 'Postpone',
+	'incoming.commitMessage': 'Apply remote changes: {files}',
+
+	// Alterações em massa
+	'massChange.outgoing.title': 'Many local files deleted or changed',
+	'massChange.outgoing.description': 'This sync would commit and push {count} deleted or changed file(s) ({deleted} deleted) out of {total} versioned. Automatic sync is paused until you confirm.',
+	'massChange.outgoing.confirm': 'Commit anyway',
+	'massChange.incoming.title': 'Many files deleted or changed in the remote',
+	'massChange.incoming.description': 'The pull would delete or change {count} file(s) ({deleted} deleted) out of {total} versioned in this vault. Automatic sync is paused until you confirm.',
+	'massChange.incoming.confirm': 'Pull anyway',
+
+	// Pontos de restauração
+	'snapshot.placeholder': 'Choose a snapshot to restore',
+	'snapshot.reason.pull': 'Before pull',
+	'snapshot.reason.conflicts': 'Before resolving conflicts',
+	'snapshot.reason.undo': 'Before undo',
+	'snapshot.confirmTitle': 'Restore safety snapshot',
+	'snapshot.confirmDescription': 'The vault goes back to the snapshot "{reason}" from {date}. The current state is kept as a new snapshot. Files that will change:',
+	'snapshot.restore': 'Restore',
+	'snapshot.missingHead': 'The snapshot has no source commit',
+
+	// Criptografia
+	'passphrase.label': 'Passphrase',
+	'passphrase.confirmLabel': 'Repeat passphrase',
+	'passphrase.submit': 'OK',
+	'passphrase.empty': 'Enter the passphrase',
+	'passphrase.tooShort': 'Use at least {min} characters',
+	'passphrase.mismatch': 'The passphrases do not match',
+	'encryption.create.title': 'Choose an encryption passphrase',
+	'encryption.create.description': 'Notes are encrypted on this device before going to the remote. Every device needs this passphrase to read them. There is no way to recover the notes in the remote if it is lost.',
+	'encryption.unlock.title': 'Unlock encrypted notes',
+	'encryption.unlock.description': 'This repository has encrypted notes. Enter the passphrase chosen on the first device to decrypt them here.',
+	'encryption.disable.title': 'Disable encryption',
+	'encryption.disable.description': 'Files in these paths will be committed in plain text from the next sync. Versions already in the remote stay encrypted.',
+	'encryption.disable.confirm': 'Disable',
+	'encryption.history.title': 'Unencrypted history',
+	'encryption.history.description': 'These encrypted files have older versions committed in plain text before encryption was enabled. Those versions are still readable by anyone with access to the remote; only rewriting the repository history removes them.',
+	'encryption.history.confirm': 'OK',
+
+	// Assistente de configuração
+	'setup.title': 'Set up sync',
+	'setup.connectDescription': 'First check that the repository configured in the settings can be reached with your credentials.',
+	'setup.noUrl': 'Not set: fill in the repository URL in the settings first',
+	'setup.testConnection': 'Test connection',
+	'setup.testing': 'Connecting…',
+	'setup.connected': '✅ Connected. The repository has {count} branch(es).',
+	'setup.emptyRemote': '✅ Connected. The repository is empty: this vault will be its first content.',
+	'setup.branch.name': 'Branch',
+	'setup.branch.desc': 'Branch this vault will sync with',
+	'setup.branch.default': '{branch} (default)',
+	'setup.mode.name': 'Action',
+	'setup.mode.new': 'Start a new repository',
+	'setup.mode.new.desc': 'Commits this vault and pushes it to the empty repository.',
+	'setup.mode.clone': 'Clone the remote vault',
+	'setup.mode.clone.desc': 'This vault is empty: the remote files are downloaded into it.',
+	'setup.mode.adopt': 'Connect the existing repository',
+	'setup.mode.adopt.desc': 'This vault already has a Git history: it is linked to the remote branch and the next sync merges both.',
+	'setup.mode.merge': 'Merge this vault with the remote',
+	'setup.mode.merge.desc': 'Commits the local notes and merges them with the remote history. Files present on both sides with different content must be reviewed first.',
+	'setup.overlap.title': 'Files present on both sides',
+	'setup.overlap.description': '{count} file(s) exist locally and in the remote with different content. They will be merged and may produce conflicts to resolve.',
+	'setup.overlap.confirm': 'Merge anyway',
+	'setup.back': 'Back',
+	'setup.start': 'Start',
+	'setup.working': 'Setting up…',
+	'setup.commitMessage': 'Local vault before connecting to the remote repository',
+
+	// Configurações
+	'settings.title': 'GitHub Sync settings',
+	'settings.setup.name': 'Setup wizard',
+	'settings.setup.desc': 'Connect this vault to the repository: start a new one, clone an existing vault or merge this one with it',
+	'settings.setup.button': 'Open wizard',
+	'settings.repoUrl.name': 'GitHub repository URL',
+	'settings.repoUrl.desc': 'Your repository URL, over HTTPS or SSH (e.g. https://github.com/user/repo.git, git@gitlab.com:group/sub/repo.git or ssh://git@git.example.com:2222/user/repo.git)',
+	'settings.provider.name': 'Hosting service',
+	'settings.provider.desc': 'Sets the user sent with the token. In automatic mode, the service is inferred from the repository address',
+	'settings.provider.auto': 'Automatic ({provider})',
+	'settings.provider.generic': 'Other Git server',
+	'settings.branch.name': 'GitHub branch',
+	'settings.branch.desc': 'Branch to sync. Leave empty to use the remote repository\'s default branch',
+	'settings.branch.placeholder': 'Remote default',
+	'settings.userName.name': 'GitHub user name',
+	'settings.userName.desc': 'GitHub user name for commits',
+	'settings.userName.placeholder': 'Your name',
+	'settings.userEmail.name': 'GitHub user email',
+	'settings.userEmail.desc': 'GitHub user email for commits',
+	'settings.auth.heading': 'Authentication',
+	'settings.useSsh.name': 'Use SSH key',
+	'settings.useSsh.desc': 'Authenticate with an SSH key instead of a personal token',
+	'settings.sshKeyPath.name': 'SSH key path',
+	'settings.sshKeyPath.desc': 'Path to your private SSH key (e.g. ~/.ssh/id_rsa or C:\\Users\\YourUser\\.ssh\\id_rsa)',
+	'settings.sshPassphrase.name': 'SSH key passphrase (optional)',
+	'settings.sshPassphrase.desc': 'Passphrase of the SSH key, if it has one (handed to ssh without a terminal, never stored in the repository)',
+	'settings.sshPassphrase.placeholder': 'Leave empty if there is no passphrase',
+	'settings.token.name': 'Personal access token',
+	'settings.token.desc': 'Personal access token for HTTPS authentication',
+	'settings.tokenUsername.name': 'Token user (optional)',
+	'settings.tokenUsername.desc': 'User sent along with the token. Empty uses the service convention (enter your user when using an app password)',
+	'settings.tokenUsername.placeholder': 'Service convention',
+	'settings.sync.heading': 'Sync options',
+	'settings.syncOnOpen.name': 'Auto-sync on vault open',
+	'settings.syncOnOpen.desc': 'Sync automatically when Obsidian opens',
+	'settings.syncOnSave.name': 'Auto-sync on file save',
+	'settings.syncOnSave.desc': 'Sync automatically when a file is saved',
+	'settings.commitTemplate.name': 'Commit message template',
+	'settings.commitTemplate.desc': 'Template for the commit message. Placeholders: {date} (or {date:YYYY-MM-DD}), {files}, {count}, {added}, {modified}, {deleted}, {renamed}, {device}, {hostname}, {vault} and {source}',
+	'settings.commitPreview.name': 'Preview',
+	'settings.commitPreview.desc': 'Commit message for a sample manual sync:',
+	'settings.dateFormat.name': 'Date format',
+	'settings.dateFormat.desc': 'Moment.js format for dates in commit messages and status (e.g. YYYY-MM-DD HH:mm). Empty uses the format of your language',
+	'settings.commitFileLimit.name': 'Files listed in the commit',
+	'settings.commitFileLimit.desc': 'Maximum number of files listed by {files} (0 lists all)',
+	'settings.deviceName.name': 'Device name',
+	'settings.deviceName.desc': 'Name used by {device}. Empty uses the computer hostname',
+	'settings.interval.name': 'Auto-sync interval',
+	'settings.interval.desc': 'Interval in minutes for automatic background sync (0 to disable)',
+	'settings.squashMode.name': 'Squash automatic commits',
+	'settings.squashMode.desc': 'Combine consecutive unpushed auto-sync commits into one before pushing. Hourly and daily also hold automatic pushes until the window ends. Manual commits are never squashed',
+	'settings.squashMode.off': 'Off',
+	'settings.squashMode.push': 'Before each push',
+	'settings.squashMode.hour': 'Per hour',
+	'settings.squashMode.day': 'Per day',
+	'settings.deviceBranches.name': 'Per-device branches',
+	'settings.deviceBranches.desc': 'Commit to this device\'s own branch ({branch}) instead of {shared}. Saving only commits and pushes that branch; the other syncs merge {shared} and the other devices\' branches into it and advance {shared}. Each commit records the device that made it',
+	'settings.deviceBranches.unavailable': 'Not available with the built-in Git implementation: commits go straight to the shared branch. Install Git or switch the Git implementation to use per-device branches.',
+	'settings.gitBackend.name': 'Git implementation',
+	'settings.gitBackend.desc': 'System Git supports every feature. The built-in JavaScript implementation works without Git installed, over HTTPS with a token, but without LFS, encryption, restore points, rebase, per-device branches or commit diffs.',
+	'settings.gitBackend.auto': 'Automatic (system Git if installed)',
+	'settings.gitBackend.system': 'System Git',
+	'settings.gitBackend.js': 'Built-in (JavaScript)',
+	'settings.markdownMerge.name': 'Automatic note merge',
+	'settings.markdownMerge.desc': 'Use a Markdown-specific merge: frontmatter key by key and union of list items added on both devices',
+	'settings.pullStrategy.name': 'Pull strategy',
+	'settings.pullStrategy.desc': 'Merge creates a merge commit when devices diverge; rebase replays local commits on top of the remote ones (linear history); fast-forward only refuses to combine diverged histories',
+	'settings.pullStrategy.rebaseUnavailable': 'Rebase is not available with the built-in Git implementation',
+	'settings.pullStrategy.merge': 'Merge',
+	'settings.pullStrategy.rebase': 'Rebase',
+	'settings.pullStrategy.ffOnly': 'Fast-forward only',
+	'settings.autostash.name': 'Autostash',
+	'settings.autostash.desc': 'Stash uncommitted changes before the pull and reapply them afterwards',
+	'settings.snapshotRetention.name': 'Safety snapshots to keep',
+	'settings.snapshotRetention.desc': 'A snapshot of the vault is recorded before each pull and before resolving conflicts, so the sync can be undone. 0 disables snapshots',
+	'settings.massChangeLimit.name': 'Mass change limit (files)',
+	'settings.massChangeLimit.desc': 'Ask for confirmation, pausing automatic sync, when a commit or pull would delete or change more files than this. 0 disables',
+	'settings.massChangePercent.name': 'Mass change limit (%)',
+	'settings.massChangePercent.desc': 'Same check as a percentage of the versioned files (only from 10 files on). 0 disables',
+	'settings.lfs.name': 'Git LFS',
+	'settings.lfs.desc': 'Keep large attachments and binaries in Git LFS, outside the regular history (requires git-lfs installed and server support)',
+	'settings.lfsExtensions.name': 'LFS extensions',
+	'settings.lfsExtensions.desc': 'Comma-separated extensions, kept in a managed section of .gitattributes',
+	'settings.lfsExtensions.placeholder': 'For example: pdf, png, mp3',
+	'settings.lfsThreshold.name': 'LFS size limit (MB)',
+	'settings.lfsThreshold.desc': 'Files larger than this go to LFS even without a listed extension (0 disables)',
+	'settings.largeFileWarning.name': 'Large file warning (MB)',
+	'settings.largeFileWarning.desc': 'Ask for confirmation before committing files larger than this without LFS (0 disables)',
+	'settings.encryption.name': 'End-to-end encryption',
+	'settings.encryption.desc': 'Encrypt the chosen files before they leave this device, so the remote only stores unreadable content. Every device needs the same passphrase.',
+	'settings.encryptedPaths.name': 'Encrypted paths',
+	'settings.encryptedPaths.desc': 'One per line: a folder ending in / (Journal/), an extension without the dot (md) or a .gitattributes pattern',
+	'settings.excludedPaths.name': 'Excluded paths',
+	'settings.excludedPaths.desc': 'Glob patterns (.gitignore syntax), one per line. They are kept in a managed section of the vault .gitignore',
+	'settings.excludedPaths.reset': 'Restore default'
+};
+
+export default en;
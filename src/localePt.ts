@@ -0,0 +1,395 @@
+import type { MessageCatalog } from './i18n';
+
+const pt: MessageCatalog = {
+	// Comandos e menus
+	'command.sync': 'Sincronizar agora',
+	'command.pull': 'Pull do GitHub',
+	'command.checkRemote': 'Verificar alterações remotas',
+	'command.push': 'Push para GitHub',
+	'command.validate': 'Validar configuração do Git',
+	'command.status': 'Status de sincronização',
+	'command.resolveConflicts': 'Resolver conflitos',
+	'command.history': 'Abrir histórico de sincronização',
+	'command.sourceControl': 'Abrir controle de versão',
+	'command.abortRebase': 'Abortar rebase em andamento',
+	'command.abortMerge': 'Abortar merge em andamento',
+	'command.undoLastSync': 'Desfazer última sincronização',
+	'command.restoreSnapshot': 'Restaurar ponto de restauração',
+	'command.forgetHostKey': 'Esquecer chave do host SSH',
+	'command.applyExclusions': 'Aplicar caminhos excluídos',
+	'command.fileHistory': 'Mostrar histórico do arquivo',
+	'command.setup': 'Configurar sincronização com um vault remoto',
+	'command.unlockEncryption': 'Desbloquear notas criptografadas',
+	'command.checkUnencryptedHistory': 'Verificar histórico sem criptografia',
+	'ribbon.sync': 'Sincronizar com GitHub',
+	'menu.fileHistory': 'Histórico do arquivo',
+
+	// Notificações
+	'notice.syncComplete': '✅ Sincronização com GitHub completa!',
+	'notice.pullComplete': '✅ Pull realizado com sucesso!',
+	'notice.pushComplete': '✅ Push realizado com sucesso!',
+	'notice.commitComplete': '✅ Commit realizado',
+	'notice.offline': '📴 Sem conexão: as alterações foram commitadas localmente e serão enviadas quando a conexão voltar',
+	'notice.reconnected': '✅ Conexão restabelecida: alterações locais enviadas',
+	'notice.gitNotConfigured': '❌ Git não configurado',
+	'notice.initFailed': '❌ Erro ao inicializar Git',
+	'notice.repoUrlMissing': '❌ URL do repositório GitHub não configurada. Configure nas settings.',
+	'notice.validationOk': '✅ Configuração validada com sucesso!',
+	'notice.validationErrors': '❌ Erros de configuração:\n{errors}',
+	'notice.statusFailed': '❌ Erro ao obter status',
+	'notice.statusSummary': 'Branch: {branch}\nCommits adiante: {ahead}\nCommits atrás: {behind}\nÚltimo commit: {lastCommit}',
+	'notice.noConflicts': '✅ Nenhum conflito encontrado',
+	'notice.mergeAborted': '✅ Merge abortado com sucesso',
+	'notice.rebaseAborted': '✅ Rebase abortado com sucesso',
+	'notice.noSnapshots': 'Ainda não há pontos de restauração: eles são criados antes de cada pull e antes de resolver conflitos',
+	'notice.snapshotRestored': '✅ Vault restaurado. As alterações remotas voltam no próximo pull',
+	'notice.autoSyncPaused': '⏸️ Sincronização automática suspensa. Use "Sincronizar agora" para revisar as alterações de novo',
+	'notice.noRemoteChanges': '✅ Nenhuma alteração remota',
+	'notice.remoteFilesApplied': '✅ Alterações remotas aplicadas em {count} arquivo(s)',
+	'notice.remoteChangesPostponed': '⏸️ Alterações remotas adiadas: a sincronização automática fica suspensa até o merge ou uma sincronização manual',
+	'notice.lfsConfigured': '✅ Git LFS configurado',
+	'notice.encryptionEnabled': '🔒 Criptografia ativada: {count} arquivo(s) serão criptografados na próxima sincronização',
+	'notice.encryptionDisabled': '🔓 Criptografia desativada: {count} arquivo(s) serão guardados em texto puro a partir da próxima sincronização',
+	'notice.encryptionUnlocked': '🔓 Criptografia desbloqueada: {count} arquivo(s) decifrados',
+	'notice.historyEncrypted': '✅ Nenhuma versão em texto puro dos arquivos criptografados no histórico',
+	'notice.hostKeyUpdated': '✅ Chave do host SSH atualizada',
+	'notice.untracked': '✅ {count} arquivo(s) removido(s) do repositório; a remoção entra na próxima sincronização',
+	'notice.conflictMarkers': '⚠️ O resultado ainda contém marcadores de conflito',
+	'notice.setupComplete': '✅ Vault conectado ao repositório remoto',
+	'notice.rebaseStoppedAgain': '⚠️ O rebase parou em outro commit com conflitos',
+	'notice.mergeCompleted': '✅ Conflitos resolvidos e merge concluído!',
+	'notice.rebaseCompleted': '✅ Conflitos resolvidos e rebase concluído!',
+	'notice.fileRestored': '✅ {path} restaurado para {hash}',
+
+	// Contexto das falhas sem código específico
+	'failure.default': 'Erro no Git',
+	'failure.sync': 'Erro ao sincronizar com GitHub',
+	'failure.init': 'Erro ao inicializar Git',
+	'failure.lfs': 'Erro ao configurar Git LFS',
+	'failure.encryption': 'Erro ao configurar a criptografia',
+	'failure.hostKey': 'Erro ao atualizar a chave do host SSH',
+	'failure.untrack': 'Erro ao remover arquivos do repositório',
+	'failure.abortMerge': 'Erro ao abortar merge',
+	'failure.abortRebase': 'Erro ao abortar rebase',
+	'failure.restoreSnapshot': 'Erro ao restaurar o ponto de restauração',
+	'failure.fetch': 'Erro ao verificar alterações remotas',
+	'failure.applyIncoming': 'Não foi possível aplicar as alterações remotas nesses arquivos; faça o merge completo',
+	'failure.stage': 'Erro ao adicionar ao stage',
+	'failure.unstage': 'Erro ao remover do stage',
+	'failure.discard': 'Erro ao descartar alterações de {file}',
+	'failure.commit': 'Erro ao fazer commit',
+	'failure.markResolved': 'Erro ao marcar {file} como resolvido',
+	'failure.completeMerge': 'Erro ao concluir merge',
+	'failure.continueRebase': 'Erro ao continuar rebase',
+	'failure.restore': 'Erro ao restaurar versão do arquivo',
+
+	// Mensagens por código de erro (ver gitResult.ts)
+	'error.not-configured': 'Git não configurado',
+	'error.init-failed': 'Erro ao inicializar Git: {details}',
+	'error.invalid-url': 'URL do repositório parece incompleta. Verifique se inclui o nome do repositório (ex: https://gitlab.com/grupo/repo.git)',
+	'error.auth-failed': 'Erro de autenticação. Verifique seu token ou SSH key nas configurações.',
+	'error.ssh-passphrase': 'Passphrase da SSH key ausente ou incorreta. Verifique-a nas configurações.',
+	'error.host-key': 'Chave do host SSH não verificada ou recusada. Sincronize novamente para conferir a impressão digital do servidor.',
+	'error.host-key-changed': 'A chave SSH do servidor mudou desde a última conexão (possível ataque man-in-the-middle). Se a mudança for legítima, use o comando "Esquecer chave do host SSH".',
+	'error.remote-not-found': 'Repositório remoto não encontrado. Verifique a URL nas configurações.',
+	'error.branch-missing': 'Branch remota "{branch}" não encontrada no repositório remoto',
+	'error.conflict': '{count} arquivo(s) em conflito. Use o comando "Resolver conflitos" ou aborte o merge/rebase.',
+	'error.merge-in-progress': 'Há um merge em andamento. Use o comando "Abortar merge" ou resolva os conflitos primeiro.',
+	'error.rebase-in-progress': 'Há um rebase em andamento. Use o comando "Abortar rebase" ou resolva os conflitos primeiro.',
+	'error.network': 'Sem conexão com o repositório remoto',
+	'error.non-fast-forward': 'O histórico local e o remoto divergiram. Faça pull com merge ou rebase (a estratégia "somente fast-forward" não integra os dois) ou integre manualmente.',
+	'error.local-changes': 'Há alterações locais que impedem o pull. Ative o autostash nas configurações ou faça commit antes.',
+	'error.nothing-to-commit': 'Nenhuma alteração para commit',
+	'error.lfs-unavailable': 'Git LFS não encontrado. Instale o git-lfs para versionar anexos grandes fora do histórico normal.',
+	'error.lfs-failed': 'Erro no Git LFS. Verifique se o servidor tem LFS habilitado e espaço disponível.',
+	'error.encryption-locked': 'As notas criptografadas estão bloqueadas neste dispositivo. Digite a senha de criptografia para lê-las e commitá-las.',
+	'error.encryption-passphrase': 'Senha de criptografia incorreta. Ela deve ser a mesma usada nos outros dispositivos.',
+	'error.backend-unsupported': 'Indisponível na implementação embutida do Git. Instale o Git ou troque a implementação do Git nas configurações.',
+	'error.ssh-unsupported': 'SSH não está disponível na implementação embutida do Git. Adicione um token para sincronizar por HTTPS ou instale o Git.',
+	'error.cancelled': 'Operação cancelada',
+
+	// Detalhes produzidos pelo GitManager
+	'git.remoteUrlMissing': 'URL do repositório remoto não configurada',
+	'git.branchMissing': 'Branch não configurada',
+	'git.userNameMissing': 'Nome do usuário Git não configurado',
+	'git.userEmailMissing': 'Email do usuário Git não configurado',
+	'git.tokenMissing': 'Token de acesso pessoal não configurado (necessário para HTTPS)',
+	'git.sshKeyInvalid': 'SSH key não encontrada ou inválida',
+	'git.sshKeyUnreadable': 'SSH key não encontrada ou ilegível: {path}',
+	'git.sshKeyBroken': 'SSH key inválida: {details}',
+	'git.sshPassphraseWrong': 'Passphrase da SSH key incorreta.',
+	'git.sshPassphraseRequired': 'A SSH key é protegida por passphrase. Informe-a nas configurações.',
+	'git.sshKeyRejected': 'SSH key recusada pelo servidor. Verifique a passphrase e se a chave pública foi adicionada à sua conta.',
+	'git.hostKeyChanged': 'A chave SSH do servidor mudou desde a última conexão (possível ataque man-in-the-middle). Se a mudança for legítima, use o comando "Esquecer chave do host SSH".',
+	'git.hostKeyUnverified': 'Chave do host SSH não verificada. Sincronize novamente para conferir a impressão digital do servidor.',
+	'git.hostKeyRejected': 'Chave do host {host} não foi aceita.',
+	'git.hostKeyUnreachable': 'Não foi possível obter a chave SSH de {host}. {details}',
+	'git.keyscanMissing': 'ssh-keyscan não encontrado: não é possível verificar a chave do host SSH.',
+	'git.notSsh': 'O remote não usa SSH.',
+	'git.connectionFailed': 'Erro ao conectar ao repositório remoto: {details}',
+	'git.integrateDevice': 'Integrar alterações do dispositivo {device}',
+	'git.noMergeInProgress': 'Nenhum merge em andamento',
+
+	// Mensagem de commit
+	'commit.changedFiles': 'Arquivos alterados:',
+	'commit.moreFiles': '... e mais {count} arquivo(s)',
+	'source.manual': 'manual',
+	'source.open': 'abertura do vault',
+	'source.save': 'salvamento',
+	'source.interval': 'intervalo',
+	'source.retry': 'nova tentativa',
+
+	// Modais de confirmação
+	'confirm.cancel': 'Cancelar',
+	'confirm.moreFiles': '... e mais {count} arquivo(s)',
+	'largeFiles.title': 'Arquivos grandes',
+	'largeFiles.description': '{count} arquivo(s) acima de {limit} MB vão para o histórico do repositório e o fazem crescer para sempre. Ative o Git LFS nas configurações ou exclua esses arquivos da sincronização.',
+	'largeFiles.confirm': 'Commitar mesmo assim',
+	'hostKey.title': 'Verificar chave do host SSH',
+	'hostKey.description': 'Primeira conexão com {host}. Confira se as impressões digitais abaixo são as publicadas pelo serviço (ex.: na documentação do GitHub) antes de confiar.',
+	'hostKey.confirm': 'Confiar e conectar',
+	'hostKey.cancel': 'Recusar',
+	'exclusions.title': 'Arquivos excluídos ainda versionados',
+	'exclusions.description': 'Estes arquivos correspondem aos caminhos excluídos, mas já estão no repositório. Removê-los do repositório? Eles continuam no disco.',
+	'exclusions.confirm': 'Remover do repositório',
+
+	// Barra de status
+	'status.idle': 'Pronto',
+	'status.pulling': 'Baixando…',
+	'status.committing': 'Fazendo commit…',
+	'status.pushing': 'Enviando…',
+	'status.conflicted': 'Conflitos pendentes',
+	'status.error': 'Erro',
+	'status.offline': 'Offline',
+	'status.changes': '{count} alteração(ões)',
+	'status.retry': 'nova tentativa {time}',
+	'status.tooltip': 'Clique para ações de sincronização',
+
+	// Visões
+	'view.gitNotConfigured': 'Git não configurado.',
+	'view.diffUnavailable': 'Não foi possível obter o diff.',
+	'view.noDifferences': 'Sem diferenças.',
+	'sourceControl.title': 'Controle de versão',
+	'sourceControl.messagePlaceholder': 'Mensagem de commit (vazio usa o template)',
+	'sourceControl.commit': 'Commit',
+	'sourceControl.commitAndPush': 'Commit e push',
+	'sourceControl.push': 'Push',
+	'sourceControl.noChanges': 'Nenhuma alteração.',
+	'sourceControl.conflicted': 'Em conflito',
+	'sourceControl.staged': 'Staged',
+	'sourceControl.unstaged': 'Alterações',
+	'sourceControl.untracked': 'Não versionados',
+	'sourceControl.stage': 'Adicionar ao stage',
+	'sourceControl.stageAll': 'Adicionar todos ao stage',
+	'sourceControl.unstage': 'Remover do stage',
+	'sourceControl.unstageAll': 'Remover todos do stage',
+	'sourceControl.discard': 'Descartar alterações',
+	'sourceControl.discardConfirm': 'Clique novamente para descartar',
+	'conflicts.title': 'Conflitos de merge',
+	'conflicts.none': 'Nenhum arquivo com conflito.',
+	'conflicts.continueRebase': 'Continuar rebase',
+	'conflicts.completeMerge': 'Concluir merge',
+	'conflicts.local': 'Local',
+	'conflicts.base': 'Base',
+	'conflicts.remote': 'Remoto',
+	'conflicts.hunk': 'Trecho em conflito',
+	'conflicts.resolvedWith': 'Resolvido: {choice}',
+	'conflicts.acceptOurs': 'Aceitar local',
+	'conflicts.acceptTheirs': 'Aceitar remoto',
+	'conflicts.acceptBoth': 'Aceitar ambos',
+	'conflicts.keepBase': 'Manter base',
+	'conflicts.result': 'Resultado',
+	'conflicts.markResolved': 'Marcar como resolvido',
+	'conflicts.acceptDeletion': 'Aceitar remoção',
+	'conflicts.deleted': '(arquivo removido)',
+	'history.title': 'Histórico de sincronização',
+	'history.author': 'Autor',
+	'history.since': 'Desde',
+	'history.until': 'Até',
+	'history.path': 'Caminho',
+	'history.noCommits': 'Nenhum commit encontrado.',
+	'history.loadMore': 'Carregar mais',
+	'history.noFiles': 'Nenhum arquivo alterado.',
+	'history.device': 'em {device}',
+	'fileHistory.title': 'Histórico: {path}',
+	'fileHistory.noRevisions': 'Nenhuma versão encontrada para este arquivo.',
+	'fileHistory.compare': 'Comparar com atual',
+	'fileHistory.openCopy': 'Abrir cópia',
+	'fileHistory.restore': 'Restaurar esta versão',
+	'fileHistory.confirmRestore': 'Confirmar restauração',
+	'fileHistory.versionUnavailable': 'Não foi possível obter esta versão.',
+
+	// Alterações remotas
+	'incoming.title': 'Alterações remotas ({count} commit(s))',
+	'incoming.commits': 'Commits recebidos',
+	'incoming.files': 'Arquivos ({count})',
+	'incoming.localEditsWarning': '{count} arquivo(s) também têm alterações locais não commitadas e podem conflitar. Eles só podem entrar no merge completo.',
+	'incoming.localEdits': 'alterações locais',
+	'incoming.diff': 'Diff',
+	'incoming.mergeAll': 'Fazer merge agora',
+	'incoming.mergeSelected': 'Aplicar arquivos selecionados',
+	'incoming.postpone': 'Adiar',
+	'incoming.commitMessage': 'Aplicar alterações remotas: {files}',
+
+	// Alterações em massa
+	'massChange.outgoing.title': 'Muitos arquivos locais apagados ou alterados',
+	'massChange.outgoing.description': 'Esta sincronização faria commit e push de {count} arquivo(s) apagado(s) ou alterado(s) ({deleted} apagado(s)) de {total} versionados. A sincronização automática fica suspensa até você confirmar.',
+	'massChange.outgoing.confirm': 'Fazer commit mesmo assim',
+	'massChange.incoming.title': 'Muitos arquivos apagados ou alterados no remoto',
+	'massChange.incoming.description': 'O pull apagaria ou alteraria {count} arquivo(s) ({deleted} apagado(s)) de {total} versionados neste vault. A sincronização automática fica suspensa até você confirmar.',
+	'massChange.incoming.confirm': 'Fazer pull mesmo assim',
+
+	// Pontos de restauração
+	'snapshot.placeholder': 'Escolha um ponto de restauração',
+	'snapshot.reason.pull': 'Antes do pull',
+	'snapshot.reason.conflicts': 'Antes de resolver conflitos',
+	'snapshot.reason.undo': 'Antes de desfazer',
+	'snapshot.confirmTitle': 'Restaurar ponto de restauração',
+	'snapshot.confirmDescription': 'O vault volta ao ponto "{reason}" de {date}. O estado atual é guardado como um novo ponto. Arquivos que vão mudar:',
+	'snapshot.restore': 'Restaurar',
+	'snapshot.missingHead': 'Ponto de restauração sem commit de origem',
+
+	// Criptografia
+	'passphrase.label': 'Senha',
+	'passphrase.confirmLabel': 'Repita a senha',
+	'passphrase.submit': 'OK',
+	'passphrase.empty': 'Digite a senha',
+	'passphrase.tooShort': 'Use pelo menos {min} caracteres',
+	'passphrase.mismatch': 'As senhas não conferem',
+	'encryption.create.title': 'Escolha uma senha de criptografia',
+	'encryption.create.description': 'As notas são criptografadas neste dispositivo antes de ir para o remoto. Todos os dispositivos precisam desta senha para lê-las. Se ela for perdida, não há como recuperar as notas do remoto.',
+	'encryption.unlock.title': 'Desbloquear notas criptografadas',
+	'encryption.unlock.description': 'Este repositório tem notas criptografadas. Digite a senha escolhida no primeiro dispositivo para decifrá-las aqui.',
+	'encryption.disable.title': 'Desativar criptografia',
+	'encryption.disable.description': 'Os arquivos nestes caminhos serão commitados em texto puro a partir da próxima sincronização. As versões já enviadas continuam criptografadas.',
+	'encryption.disable.confirm': 'Desativar',
+	'encryption.history.title': 'Histórico sem criptografia',
+	'encryption.history.description': 'Estes arquivos criptografados têm versões antigas commitadas em texto puro antes da criptografia ser ativada. Essas versões continuam legíveis para quem tem acesso ao remoto; só reescrever o histórico do repositório as remove.',
+	'encryption.history.confirm': 'OK',
+
+	// Assistente de configuração
+	'setup.title': 'Configurar sincronização',
+	'setup.connectDescription': 'Primeiro, verifique se o repositório definido nas configurações está acessível com suas credenciais.',
+	'setup.noUrl': 'Não definido: preencha a URL do repositório nas configurações antes',
+	'setup.testConnection': 'Testar conexão',
+	'setup.testing': 'Conectando…',
+	'setup.connected': '✅ Conectado. O repositório tem {count} branch(es).',
+	'setup.emptyRemote': '✅ Conectado. O repositório está vazio: este vault será o primeiro conteúdo.',
+	'setup.branch.name': 'Branch',
+	'setup.branch.desc': 'Branch com a qual este vault será sincronizado',
+	'setup.branch.default': '{branch} (padrão)',
+	'setup.mode.name': 'Ação',
+	'setup.mode.new': 'Iniciar um novo repositório',
+	'setup.mode.new.desc': 'Faz commit deste vault e envia para o repositório vazio.',
+	'setup.mode.clone': 'Clonar o vault remoto',
+	'setup.mode.clone.desc': 'Este vault está vazio: os arquivos do remoto são baixados para ele.',
+	'setup.mode.adopt': 'Conectar o repositório existente',
+	'setup.mode.adopt.desc': 'Este vault já tem histórico Git: ele é ligado à branch remota e a próxima sincronização junta os dois.',
+	'setup.mode.merge': 'Juntar este vault ao remoto',
+	'setup.mode.merge.desc': 'Faz commit das notas locais e junta com o histórico remoto. Arquivos presentes nos dois lados com conteúdo diferente precisam ser revisados antes.',
+	'setup.overlap.title': 'Arquivos presentes nos dois lados',
+	'setup.overlap.description': '{count} arquivo(s) existem localmente e no remoto com conteúdo diferente. Eles serão mesclados e podem gerar conflitos para resolver.',
+	'setup.overlap.confirm': 'Juntar mesmo assim',
+	'setup.back': 'Voltar',
+	'setup.start': 'Iniciar',
+	'setup.working': 'Configurando…',
+	'setup.commitMessage': 'Vault local antes de conectar ao repositório remoto',
+
+	// Configurações
+	'settings.title': 'GitHub Sync Settings',
+	'settings.setup.name': 'Assistente de configuração',
+	'settings.setup.desc': 'Conecta este vault ao repositório: iniciar um novo, clonar um vault existente ou juntar este vault ao remoto',
+	'settings.setup.button': 'Abrir assistente',
+	'settings.repoUrl.name': 'GitHub Repository URL',
+	'settings.repoUrl.desc': 'URL do seu repositório, em HTTPS ou SSH (ex: https://github.com/user/repo.git, git@gitlab.com:grupo/sub/repo.git ou ssh://git@git.exemplo.com:2222/user/repo.git)',
+	'settings.provider.name': 'Serviço de hospedagem',
+	'settings.provider.desc': 'Define o usuário enviado com o token. No modo automático, o serviço é deduzido pelo endereço do repositório',
+	'settings.provider.auto': 'Automático ({provider})',
+	'settings.provider.generic': 'Outro servidor Git',
+	'settings.branch.name': 'GitHub Branch',
+	'settings.branch.desc': 'Branch para sincronização. Deixe em branco para usar a branch padrão do repositório remoto',
+	'settings.branch.placeholder': 'Padrão do remote',
+	'settings.userName.name': 'GitHub User Name',
+	'settings.userName.desc': 'Nome do usuário GitHub para commits',
+	'settings.userName.placeholder': 'Seu nome',
+	'settings.userEmail.name': 'GitHub User Email',
+	'settings.userEmail.desc': 'Email do usuário GitHub para commits',
+	'settings.auth.heading': 'Autenticação',
+	'settings.useSsh.name': 'Usar SSH Key',
+	'settings.useSsh.desc': 'Usar SSH key para autenticação em vez de token pessoal',
+	'settings.sshKeyPath.name': 'SSH Key Path',
+	'settings.sshKeyPath.desc': 'Caminho para sua SSH key privada (ex: ~/.ssh/id_rsa ou C:\\Users\\YourUser\\.ssh\\id_rsa)',
+	'settings.sshPassphrase.name': 'SSH Key Passphrase (opcional)',
+	'settings.sshPassphrase.desc': 'Senha da SSH key se ela for protegida por passphrase (entregue ao ssh sem terminal, nunca gravada no repositório)',
+	'settings.sshPassphrase.placeholder': 'Deixe em branco se não houver passphrase',
+	'settings.token.name': 'Personal Access Token',
+	'settings.token.desc': 'Token de acesso pessoal para autenticação HTTPS',
+	'settings.tokenUsername.name': 'Usuário do token (opcional)',
+	'settings.tokenUsername.desc': 'Usuário enviado junto com o token. Em branco, usa a convenção do serviço (informe seu usuário ao usar uma app password)',
+	'settings.tokenUsername.placeholder': 'Convenção do serviço',
+	'settings.sync.heading': 'Sync Options',
+	'settings.syncOnOpen.name': 'Auto-sync on Vault Open',
+	'settings.syncOnOpen.desc': 'Sincronizar automaticamente ao abrir o Obsidian',
+	'settings.syncOnSave.name': 'Auto-sync on File Save',
+	'settings.syncOnSave.desc': 'Sincronizar automaticamente ao salvar um arquivo',
+	'settings.commitTemplate.name': 'Commit Message Template',
+	'settings.commitTemplate.desc': 'Template para mensagem de commit. Placeholders: {date} (ou {date:DD/MM/YYYY}), {files}, {count}, {added}, {modified}, {deleted}, {renamed}, {device}, {hostname}, {vault} e {source}',
+	'settings.commitPreview.name': 'Prévia',
+	'settings.commitPreview.desc': 'Mensagem de commit de uma sincronização manual de exemplo:',
+	'settings.dateFormat.name': 'Formato de data',
+	'settings.dateFormat.desc': 'Formato do moment.js para as datas das mensagens de commit e do status (ex: DD/MM/YYYY HH:mm). Em branco, usa o formato do seu idioma',
+	'settings.commitFileLimit.name': 'Arquivos listados no commit',
+	'settings.commitFileLimit.desc': 'Máximo de arquivos listados por {files} (0 lista todos)',
+	'settings.deviceName.name': 'Nome do dispositivo',
+	'settings.deviceName.desc': 'Nome usado por {device}. Em branco, usa o hostname do computador',
+	'settings.interval.name': 'Auto-sync Interval',
+	'settings.interval.desc': 'Intervalo em minutos para sincronização automática em background (0 para desativar)',
+	'settings.squashMode.name': 'Agrupar commits automáticos',
+	'settings.squashMode.desc': 'Junta em um só os commits consecutivos de sincronizações automáticas ainda não enviados, antes do push. Por hora e por dia também adiam o push automático até a janela terminar. Commits manuais nunca são agrupados',
+	'settings.squashMode.off': 'Desativado',
+	'settings.squashMode.push': 'Antes de cada push',
+	'settings.squashMode.hour': 'Por hora',
+	'settings.squashMode.day': 'Por dia',
+	'settings.deviceBranches.name': 'Branches por dispositivo',
+	'settings.deviceBranches.desc': 'Faz os commits na branch própria deste dispositivo ({branch}) em vez de {shared}. Salvar só faz commit e push dessa branch; as demais sincronizações juntam nela {shared} e as branches dos outros dispositivos e avançam {shared}. Cada commit registra o dispositivo que o fez',
+	'settings.deviceBranches.unavailable': 'Indisponível na implementação embutida do Git: os commits vão direto para a branch compartilhada. Instale o Git ou troque a implementação do Git para usar branches por dispositivo.',
+	'settings.gitBackend.name': 'Implementação do Git',
+	'settings.gitBackend.desc': 'O Git do sistema tem todos os recursos. A implementação embutida em JavaScript funciona sem o Git instalado, por HTTPS com token, mas sem LFS, criptografia, pontos de restauração, rebase, branches por dispositivo e diffs de commits.',
+	'settings.gitBackend.auto': 'Automático (Git do sistema, se instalado)',
+	'settings.gitBackend.system': 'Git do sistema',
+	'settings.gitBackend.js': 'Embutida (JavaScript)',
+	'settings.markdownMerge.name': 'Merge automático de notas',
+	'settings.markdownMerge.desc': 'Usar um merge específico para Markdown: frontmatter chave a chave e união de itens de lista adicionados nos dois dispositivos',
+	'settings.pullStrategy.name': 'Estratégia de pull',
+	'settings.pullStrategy.desc': 'Merge cria um commit de merge quando os dispositivos divergem; rebase reaplica os commits locais sobre os remotos (histórico linear); somente fast-forward recusa integrar históricos divergentes',
+	'settings.pullStrategy.rebaseUnavailable': 'Rebase não está disponível na implementação embutida do Git',
+	'settings.pullStrategy.merge': 'Merge',
+	'settings.pullStrategy.rebase': 'Rebase',
+	'settings.pullStrategy.ffOnly': 'Somente fast-forward',
+	'settings.autostash.name': 'Autostash',
+	'settings.autostash.desc': 'Guardar as alterações ainda não commitadas antes do pull e reaplicá-las depois',
+	'settings.snapshotRetention.name': 'Pontos de restauração mantidos',
+	'settings.snapshotRetention.desc': 'Um ponto de restauração do vault é gravado antes de cada pull e antes de resolver conflitos, para permitir desfazer a sincronização. 0 desativa',
+	'settings.massChangeLimit.name': 'Limite de alterações em massa (arquivos)',
+	'settings.massChangeLimit.desc': 'Pede confirmação, suspendendo a sincronização automática, quando um commit ou pull apagaria ou alteraria mais arquivos que isso. 0 desativa',
+	'settings.massChangePercent.name': 'Limite de alterações em massa (%)',
+	'settings.massChangePercent.desc': 'A mesma verificação em porcentagem dos arquivos versionados (só a partir de 10 arquivos). 0 desativa',
+	'settings.lfs.name': 'Git LFS',
+	'settings.lfs.desc': 'Versionar anexos e binários grandes no Git LFS, fora do histórico normal (requer git-lfs instalado e suporte no servidor)',
+	'settings.lfsExtensions.name': 'Extensões no LFS',
+	'settings.lfsExtensions.desc': 'Extensões separadas por vírgula, mantidas em uma seção gerenciada do .gitattributes',
+	'settings.lfsExtensions.placeholder': 'Por exemplo: pdf, png, mp3',
+	'settings.lfsThreshold.name': 'Limite de tamanho para o LFS (MB)',
+	'settings.lfsThreshold.desc': 'Arquivos maiores que isso vão para o LFS mesmo sem extensão listada (0 desativa)',
+	'settings.largeFileWarning.name': 'Aviso de arquivo grande (MB)',
+	'settings.largeFileWarning.desc': 'Pedir confirmação antes de commitar arquivos maiores que isso sem LFS (0 desativa)',
+	'settings.encryption.name': 'Criptografia de ponta a ponta',
+	'settings.encryption.desc': 'Criptografa os arquivos escolhidos antes de saírem deste dispositivo, para que o remoto guarde só conteúdo ilegível. Todos os dispositivos precisam da mesma senha.',
+	'settings.encryptedPaths.name': 'Caminhos criptografados',
+	'settings.encryptedPaths.desc': 'Um por linha: uma pasta terminada em / (Diário/), uma extensão sem o ponto (md) ou um padrão do .gitattributes',
+	'settings.excludedPaths.name': 'Caminhos excluídos',
+	'settings.excludedPaths.desc': 'Padrões glob (sintaxe do .gitignore), um por linha. São mantidos em uma seção gerenciada do .gitignore do vault',
+	'settings.excludedPaths.reset': 'Restaurar padrão'
+};
+
+export default pt;
@@ -1,112 +1,143 @@
-import { App, Editor, MarkdownView, Notice, Plugin } from 'obsidian';
-import { DEFAULT_SETTINGS, MyPluginSettings, SampleSettingTab } from "./settings";
-import { GitManager, GitSyncConfig } from "./gitManager";
+import { App, Editor, MarkdownView, Notice, Plugin, requestUrl, TFile } from 'obsidian';
+import * as os from 'os';
+import { DEFAULT_SETTINGS, defaultExcludedPaths, MyPluginSettings, SampleSettingTab } from "./settings";
+import { CommitFileChange, EncryptionSettings, GitManager, GitSyncConfig, LfsSettings, SafetySnapshot, SetupMode } from "./gitManager";
+import { ConflictView, VIEW_TYPE_CONFLICTS } from "./conflictView";
+import { HistoryView, VIEW_TYPE_HISTORY } from "./historyView";
+import { SourceControlView, VIEW_TYPE_SOURCE_CONTROL } from "./sourceControlView";
+import { FileHistoryModal } from "./fileHistoryModal";
+import { SyncEngine, SyncTrigger } from "./syncEngine";
+import { SyncStatusBar } from "./statusBar";
+import { confirmFiles } from "./confirmModal";
+import { isCompleteRemoteUrl } from "./remoteUrl";
+import { GitError, GitResult } from "./gitResult";
+import { formatDate, t } from "./i18n";
+import { renderCommitMessage } from "./commitTemplate";
+import { SetupWizardModal } from "./setupWizard";
+import { SnapshotModal } from "./snapshotModal";
+import { findMassChange } from "./massChange";
+import { IncomingChangesModal } from "./incomingModal";
+import { askPassphrase } from "./passphraseModal";
+import { detectGitBackend, GitBackendKind } from "./gitBackend";
+import type { HttpRequest, HttpResponse } from "./gitProtocol";
 
 export default class MyPlugin extends Plugin {
 	settings: MyPluginSettings;
 	gitManager: GitManager | null = null;
+	// Implementação do git em uso; resolvida na primeira inicialização (a opção auto procura o git do sistema)
+	gitBackend: GitBackendKind | null = null;
+	syncEngine: SyncEngine;
 	syncInterval: NodeJS.Timeout | null = null;
 	lastSyncTime: number = 0;
 	syncDebounceTimer: NodeJS.Timeout | null = null;
+	// Arquivos grandes que o usuário já aceitou commitar sem LFS nesta sessão
+	private confirmedLargeFiles = new Set<string>();
+	// O aviso de falta de conexão já foi mostrado (zera quando a sincronização volta a funcionar)
+	private offlineNotified = false;
+	// O assistente de configuração já foi aberto automaticamente nesta sessão
+	private setupPrompted = false;
+	// Sincronização automática suspensa por uma alteração em massa ainda não confirmada
+	private autoSyncPaused = false;
+	// A senha de criptografia já foi pedida automaticamente nesta sessão
+	private unlockPrompted = false;
 
 	async onload() {
 		await this.loadSettings();
 
+		// Todas as operações de sincronização passam pelo motor, que as serializa
+		this.syncEngine = new SyncEngine({
+			getGitManager: async () => (await this.initializeGit()) ? this.gitManager : null,
+			getCommitMessage: (changes, trigger, date) => this.getCommitMessage(changes, trigger, date),
+			getSquashMode: () => this.settings.squashMode,
+			confirmCommit: async (gitManager, changes, trigger) =>
+				await this.confirmMassChange('outgoing', gitManager, changes, trigger)
+				&& await this.confirmLargeFiles(gitManager, changes.map(change => change.path)),
+			confirmPull: (gitManager, trigger) => this.confirmIncomingChanges(gitManager, trigger)
+		});
+
+		this.registerEvent(this.syncEngine.on('state-change', (state) => {
+			if (state === 'idle' && this.offlineNotified) {
+				this.offlineNotified = false;
+				new Notice(t('notice.reconnected'));
+			}
+		}));
+		// Quando o sistema avisa que a rede voltou, não espera a próxima tentativa agendada
+		this.registerDomEvent(window, 'online', () => this.syncEngine.retryNow());
+
+		this.registerView(VIEW_TYPE_CONFLICTS, (leaf) => new ConflictView(leaf, this));
+		this.registerView(VIEW_TYPE_HISTORY, (leaf) => new HistoryView(leaf, this));
+		this.registerView(VIEW_TYPE_SOURCE_CONTROL, (leaf) => new SourceControlView(leaf, this));
+
 		// Criar ribbon icon para sincronização manual
-		this.addRibbonIcon('git-branch', 'Sincronizar com GitHub', async (evt: MouseEvent) => {
+		this.addRibbonIcon('git-branch', t('ribbon.sync'), async (evt: MouseEvent) => {
 			await this.performSync('Manual sync');
 		});
 
-		// Adicionar status bar item
-		const statusBarItemEl = this.addStatusBarItem();
-		statusBarItemEl.setText('GitHub Sync: Pronto');
+		// Adicionar status bar item (atualizado a cada mudança de estado da sincronização)
+		new SyncStatusBar(this, this.addStatusBarItem()).load();
 
 		// Comando para sincronização manual
 		this.addCommand({
 			id: 'github-sync-manual',
-			name: 'Sincronizar agora',
+			name: t('command.sync'),
 			callback: async () => {
 				await this.performSync('Manual sync via command');
 			}
 		});
 
+		// Comando para abrir o assistente de configuração
+		this.addCommand({
+			id: 'github-sync-setup',
+			name: t('command.setup'),
+			callback: () => {
+				void this.openSetupWizard();
+			}
+		});
+
 		// Comando para pull
 		this.addCommand({
 			id: 'github-sync-pull',
-			name: 'Pull do GitHub',
+			name: t('command.pull'),
 			callback: async () => {
-				if (!this.gitManager) {
-					const initialized = await this.initializeGit();
-					if (!initialized) {
-						new Notice('❌ Git não configurado. Configure nas settings.');
-						return;
-					}
-				}
-				if (!this.gitManager) {
-					new Notice('❌ Git não configurado. Configure nas settings.');
-					return;
-				}
-				const success = await this.gitManager.pull();
-				if (success) {
-					// Verificar se há conflitos após o pull
-					const hasConflicts = await this.gitManager.hasConflicts();
-					if (!hasConflicts) {
-						new Notice('✅ Pull realizado com sucesso!');
-					}
-					// Se houver conflitos, a mensagem já foi mostrada no método pull()
-				}
+				await this.pullNow();
+			}
+		});
+
+		// Comando para ver as alterações remotas antes de aplicá-las
+		this.addCommand({
+			id: 'github-sync-check-remote',
+			name: t('command.checkRemote'),
+			callback: async () => {
+				await this.checkRemoteChanges();
 			}
 		});
 
 		// Comando para push
 		this.addCommand({
 			id: 'github-sync-push',
-			name: 'Push para GitHub',
+			name: t('command.push'),
 			callback: async () => {
-				if (!this.gitManager) {
-					await this.initializeGit();
-				}
-				if (!this.gitManager) {
-					new Notice('❌ Git não configurado. Configure nas settings.');
-					return;
-				}
-				
-				// Obter arquivos alterados
-				let changedFiles: string[] | undefined;
-				try {
-					const status = await this.gitManager.getStatus();
-					if (status && status.files) {
-						changedFiles = status.files.map(f => f.path);
-					}
-				} catch (error) {
-					console.warn('Não foi possível obter lista de arquivos alterados:', error);
-				}
-				
-				const commitMessage = this.getCommitMessage(changedFiles);
-				const success = await this.gitManager.commitAndPush(commitMessage, changedFiles);
-				if (success) {
-					new Notice('✅ Push realizado com sucesso!');
-				}
+				await this.pushNow();
 			}
 		});
 
 		 // Comando para validar configuração
 		this.addCommand({
 			id: 'github-sync-validate',
-			name: 'Validar configuração do Git',
+			name: t('command.validate'),
 			callback: async () => {
 				if (!this.gitManager) {
 					await this.initializeGit();
 				}
 				if (!this.gitManager) {
-					new Notice('❌ Erro ao inicializar Git');
+					new Notice(t('notice.initFailed'));
 					return;
 				}
 				const validation = await this.gitManager.validateConfiguration();
 				if (validation.valid) {
-					new Notice('✅ Configuração validada com sucesso!');
+					new Notice(t('notice.validationOk'));
 				} else {
-					new Notice(`❌ Erros de configuração:\n${validation.errors.join('\n')}`);
+					new Notice(t('notice.validationErrors', { errors: validation.errors.join('\n') }));
 				}
 			}
 		});
@@ -114,21 +145,25 @@ export default class MyPlugin extends Plugin {
 		// Comando para verificar status de sincronização
 		this.addCommand({
 			id: 'github-sync-status',
-			name: 'Status de sincronização',
+			name: t('command.status'),
 			callback: async () => {
 				if (!this.gitManager) {
 					await this.initializeGit();
 				}
 				if (!this.gitManager) {
-					new Notice('❌ Git não configurado');
+					new Notice(t('notice.gitNotConfigured'));
 					return;
 				}
 				const info = await this.gitManager.getSyncInfo();
 				if (info) {
-					const msg = `Branch: ${info.currentBranch}\nCommits adiante: ${info.aheadBy}\nCommits atrás: ${info.behindBy}\nÚltimo commit: ${info.lastCommitDate?.toLocaleString('pt-BR') || 'N/A'}`;
-					new Notice(msg);
+					new Notice(t('notice.statusSummary', {
+						branch: info.currentBranch,
+						ahead: info.aheadBy,
+						behind: info.behindBy,
+						lastCommit: info.lastCommitDate ? this.formatDate(info.lastCommitDate) : 'N/A'
+					}));
 				} else {
-					new Notice('❌ Erro ao obter status');
+					new Notice(t('notice.statusFailed'));
 				}
 			}
 		});
@@ -136,50 +171,137 @@ export default class MyPlugin extends Plugin {
 		// Comando para resolver conflitos
 		this.addCommand({
 			id: 'github-sync-resolve-conflicts',
-			name: 'Resolver conflitos (manter versão local)',
+			name: t('command.resolveConflicts'),
+			callback: async () => {
+				await this.openConflicts();
+			}
+		});
+
+		// Comando para abrir o histórico de sincronização
+		this.addCommand({
+			id: 'github-sync-history',
+			name: t('command.history'),
 			callback: async () => {
 				if (!this.gitManager) {
 					await this.initializeGit();
 				}
+				await this.activateView(VIEW_TYPE_HISTORY, 'right');
+			}
+		});
+
+		// Comando para abrir o painel de controle de versão
+		this.addCommand({
+			id: 'github-sync-source-control',
+			name: t('command.sourceControl'),
+			callback: async () => {
 				if (!this.gitManager) {
-					new Notice('❌ Git não configurado');
-					return;
-				}
-				const hasConflicts = await this.gitManager.hasConflicts();
-				if (!hasConflicts) {
-					new Notice('✅ Nenhum conflito encontrado');
-					return;
-				}
-				const success = await this.gitManager.resolveConflicts('ours');
-				if (success) {
-					new Notice('✅ Conflitos resolvidos e sincronizados!');
-				} else {
-					new Notice('❌ Erro ao resolver conflitos');
+					await this.initializeGit();
 				}
+				await this.activateView(VIEW_TYPE_SOURCE_CONTROL, 'right');
+			}
+		});
+
+		// Comando para desfazer a última sincronização (volta ao ponto de restauração mais recente)
+		this.addCommand({
+			id: 'github-sync-undo-last-sync',
+			name: t('command.undoLastSync'),
+			callback: async () => {
+				await this.undoLastSync();
+			}
+		});
+
+		// Comando para escolher um ponto de restauração
+		this.addCommand({
+			id: 'github-sync-restore-snapshot',
+			name: t('command.restoreSnapshot'),
+			callback: async () => {
+				await this.openSnapshots();
+			}
+		});
+
+		// Comando para abortar rebase
+		this.addCommand({
+			id: 'github-sync-abort-rebase',
+			name: t('command.abortRebase'),
+			callback: async () => {
+				await this.abortRebase();
+			}
+		});
+
+		// Comando para esquecer a chave do host SSH (após uma troca legítima de chave no servidor)
+		this.addCommand({
+			id: 'github-sync-forget-host-key',
+			name: t('command.forgetHostKey'),
+			callback: async () => {
+				await this.forgetHostKey();
 			}
 		});
 
 		// Comando para abortar merge
 		this.addCommand({
 			id: 'github-sync-abort-merge',
-			name: 'Abortar merge em andamento',
+			name: t('command.abortMerge'),
 			callback: async () => {
-				if (!this.gitManager) {
-					await this.initializeGit();
-				}
-				if (!this.gitManager) {
-					new Notice('❌ Git não configurado');
-					return;
+				await this.abortMerge();
+			}
+		});
+
+		// Comando para digitar a senha de criptografia neste dispositivo
+		this.addCommand({
+			id: 'github-sync-unlock-encryption',
+			name: t('command.unlockEncryption'),
+			callback: async () => {
+				await this.unlockEncryption();
+			}
+		});
+
+		// Comando para procurar versões em texto puro de arquivos criptografados no histórico
+		this.addCommand({
+			id: 'github-sync-check-unencrypted-history',
+			name: t('command.checkUnencryptedHistory'),
+			callback: async () => {
+				await this.checkUnencryptedHistory();
+			}
+		});
+
+		// Comando para aplicar as exclusões e remover do repositório arquivos já versionados
+		this.addCommand({
+			id: 'github-sync-apply-exclusions',
+			name: t('command.applyExclusions'),
+			callback: async () => {
+				await this.applyExclusions();
+			}
+		});
+
+		// Comando para ver o histórico da nota ativa
+		this.addCommand({
+			id: 'github-sync-file-history',
+			name: t('command.fileHistory'),
+			checkCallback: (checking: boolean) => {
+				const file = this.app.workspace.getActiveFile();
+				if (!file) {
+					return false;
 				}
-				const success = await this.gitManager.abortMerge();
-				if (success) {
-					new Notice('✅ Merge abortado com sucesso');
-				} else {
-					new Notice('❌ Erro ao abortar merge');
+				if (!checking) {
+					void this.openFileHistory(file);
 				}
+				return true;
 			}
 		});
 
+		// Entrada no menu de contexto de arquivos
+		this.registerEvent(
+			this.app.workspace.on('file-menu', (menu, file) => {
+				if (!(file instanceof TFile)) {
+					return;
+				}
+				menu.addItem(item => item
+					.setTitle(t('menu.fileHistory'))
+					.setIcon('history')
+					.onClick(() => void this.openFileHistory(file)));
+			})
+		);
+
 		// Aba de configurações
 		this.addSettingTab(new SampleSettingTab(this.app, this));
 
@@ -188,8 +310,7 @@ export default class MyPlugin extends Plugin {
 			this.app.vault.on('create', async (file) => {
 				console.log('Arquivo criado/vault inicializado');
 				if (this.settings.autoSyncOnOpen && this.settings.githubRepoUrl) {
-					await this.initializeGit();
-					await this.performSync('Auto-sync on vault init');
+					await this.performSync('Auto-sync on vault init', 'open');
 				}
 			})
 		);
@@ -204,10 +325,8 @@ export default class MyPlugin extends Plugin {
 					}
 
 					this.syncDebounceTimer = setTimeout(async () => {
-						await this.initializeGit();
-						// Passar o arquivo modificado para a sincronização
-						const filePath = file.path || file.name;
-						await this.performSync(`Auto-sync on save: ${file.name}`, [filePath]);
+						// Sincroniza todas as alterações, não só o arquivo salvo
+						await this.performSync(`Auto-sync on save: ${file.name}`, 'save');
 					}, 2000); // Aguarda 2 segundos após última modificação
 				}
 			})
@@ -222,8 +341,7 @@ export default class MyPlugin extends Plugin {
 					const intervalMs = this.settings.syncInterval * 60 * 1000;
 
 					if (timeSinceLastSync >= intervalMs) {
-						await this.initializeGit();
-						await this.performSync('Background auto-sync');
+						await this.performSync('Background auto-sync', 'interval');
 					}
 				}
 			}, 60 * 1000) // Verifica a cada minuto
@@ -233,6 +351,7 @@ export default class MyPlugin extends Plugin {
 	}
 
 	onunload() {
+		this.syncEngine.stop();
 		if (this.syncInterval) {
 			clearInterval(this.syncInterval);
 		}
@@ -243,7 +362,11 @@ export default class MyPlugin extends Plugin {
 	}
 
 	async loadSettings() {
-		this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData() as Partial<MyPluginSettings>);
+		const data = await this.loadData() as Partial<MyPluginSettings> | null;
+		this.settings = Object.assign({}, DEFAULT_SETTINGS, data);
+		if (!data?.excludedPaths) {
+			this.settings.excludedPaths = defaultExcludedPaths(this.app.vault.configDir);
+		}
 	}
 
 	async saveSettings() {
@@ -256,119 +379,860 @@ export default class MyPlugin extends Plugin {
 	async initializeGit(): Promise<boolean> {
 		try {
 			if (!this.settings.githubRepoUrl) {
-				new Notice('❌ URL do repositório GitHub não configurada. Configure nas settings.');
+				new Notice(t('notice.repoUrlMissing'));
 				console.error('GitHub repo URL não configurado');
 				return false;
 			}
 
 			// Validar URL básica
 			const repoUrl = this.settings.githubRepoUrl.trim();
-			if (repoUrl.endsWith('/') || (!repoUrl.includes('.git') && repoUrl.split('/').filter(s => s).length < 3)) {
-				new Notice('❌ URL do repositório parece incompleta. Deve incluir o nome do repositório (ex: https://github.com/user/repo.git)');
+			if (!isCompleteRemoteUrl(repoUrl)) {
+				new Notice(`❌ ${t('error.invalid-url')}`);
 				console.error('URL do repositório incompleta:', repoUrl);
 				return false;
 			}
 
 			if (!this.gitManager) {
-				// Obter o caminho do vault
-				const vaultPath = (this.app.vault.adapter as any).basePath || 
-					(this.app.vault.adapter as any).path || 
-					process.cwd();
-
-				console.log('Inicializando GitManager no caminho:', vaultPath);
-
-				const config: GitSyncConfig = {
-					repoPath: vaultPath,
-					remoteUrl: this.settings.githubRepoUrl,
-					branch: this.settings.githubBranch,
-					userName: this.settings.githubUserName,
-					userEmail: this.settings.githubUserEmail,
-					token: this.settings.githubToken,
-					useSSH: this.settings.useSSH,
-					sshKeyPath: this.settings.sshKeyPath,
-					sshKeyPassphrase: this.settings.sshKeyPassphrase
-				};
-
-				this.gitManager = new GitManager(config);
+				await this.resolveGitBackend();
+				// Sem repositório próprio, um `git init` seguido de pull geraria históricos sem relação com o remote
+				if (await this.createGitManager().needsSetup()) {
+					this.promptSetup();
+					return false;
+				}
+				await this.resolveDefaultBranch();
+
+				this.gitManager = this.createGitManager();
 				const initialized = await this.gitManager.initialize();
 				
-				if (!initialized) {
-					// A mensagem de erro específica já foi mostrada no método initialize()
+				if (!initialized.ok) {
+					this.notifyGitError(initialized.error, t('failure.init'));
 					return false;
 				}
+				if (initialized.warning) {
+					this.notifyGitError(initialized.warning);
+					if (initialized.warning.code === 'encryption-locked') {
+						this.promptUnlock();
+					}
+				}
 			}
 
 			return true;
 		} catch (error: any) {
 			const errorMsg = error.message || String(error);
 			console.error('Erro ao inicializar Git:', errorMsg);
-			new Notice(`❌ Erro ao inicializar Git: ${errorMsg}`);
+			new Notice(`❌ ${t('error.init-failed', { details: errorMsg })}`);
 			return false;
 		}
 	}
 
 	/**
-	 * Realiza a sincronização completa
+	 * Cria um GitManager com as configurações atuais (sem inicializar o repositório)
 	 */
-	private async performSync(source: string, changedFiles?: string[]): Promise<void> {
-		try {
-			if (!this.gitManager) {
-				const initialized = await this.initializeGit();
-				if (!initialized) {
-					return;
-				}
+	createGitManager(): GitManager {
+		// Obter o caminho do vault
+		const vaultPath = (this.app.vault.adapter as any).basePath || 
+			(this.app.vault.adapter as any).path || 
+			process.cwd();
+
+		console.debug('Criando GitManager no caminho:', vaultPath);
+
+		const config: GitSyncConfig = {
+			repoPath: vaultPath,
+			remoteUrl: this.settings.githubRepoUrl,
+			branch: this.settings.githubBranch || 'main',
+			userName: this.settings.githubUserName,
+			userEmail: this.settings.githubUserEmail,
+			token: this.settings.githubToken,
+			provider: this.settings.gitProvider === 'auto' ? undefined : this.settings.gitProvider,
+			tokenUsername: this.settings.tokenUsername,
+			useSSH: this.settings.useSSH,
+			sshKeyPath: this.settings.sshKeyPath,
+			sshKeyPassphrase: this.settings.sshKeyPassphrase,
+			pluginDir: `${vaultPath}/${this.getPluginDir()}`,
+			confirmHostKey: (host, fingerprints) => this.confirmHostKey(host, fingerprints),
+			markdownMerge: this.settings.markdownMerge,
+			lfs: this.getLfsSettings(),
+			pullStrategy: this.settings.pullStrategy,
+			autostash: this.settings.autostash,
+			snapshotRetention: this.settings.snapshotRetention,
+			deviceId: this.settings.deviceBranches ? this.getDeviceName() : undefined,
+			encryption: this.getEncryptionSettings(),
+			excludedPaths: this.getExcludedPaths(),
+			backend: this.gitBackend ?? 'system',
+			vault: this.app.vault.adapter,
+			http: (request) => this.gitHttpRequest(request)
+		};
+		return new GitManager(config);
+	}
+
+	/**
+	 * Resolve a implementação do git das configurações (uma vez por sessão ou até a configuração mudar)
+	 */
+	private async resolveGitBackend(): Promise<GitBackendKind> {
+		if (!this.gitBackend) {
+			this.gitBackend = await detectGitBackend(this.settings.gitBackend);
+			console.debug('Implementação do git em uso:', this.gitBackend);
+		}
+		return this.gitBackend;
+	}
+
+	/**
+	 * Transporte HTTP do backend em JavaScript: o requestUrl do Obsidian não esbarra em CORS
+	 */
+	private async gitHttpRequest(request: HttpRequest): Promise<HttpResponse> {
+		const response = await requestUrl({
+			url: request.url,
+			method: request.method,
+			headers: request.headers,
+			body: request.body,
+			throw: false
+		});
+		return { status: response.status, body: response.arrayBuffer };
+	}
+
+	/**
+	 * Branch em branco nas configurações: usar (e guardar) a branch padrão do remote
+	 */
+	private async resolveDefaultBranch(): Promise<void> {
+		if (this.settings.githubBranch) {
+			return;
+		}
+		const remote = await this.createGitManager().inspectRemote();
+		if (remote.ok) {
+			this.settings.githubBranch = remote.defaultBranch ?? 'main';
+			await this.saveSettings();
+		}
+	}
+
+	/**
+	 * Abre o assistente de configuração uma vez por sessão quando o vault ainda não tem repositório
+	 */
+	private promptSetup() {
+		if (this.setupPrompted) {
+			console.debug('Configuração inicial pendente: use o assistente de configuração');
+			return;
+		}
+		this.setupPrompted = true;
+		void this.openSetupWizard();
+	}
+
+	/**
+	 * Abre o assistente que conecta o vault ao remote (clonar, adotar ou juntar)
+	 */
+	async openSetupWizard(): Promise<void> {
+		await this.resolveGitBackend();
+		new SetupWizardModal(this.app, this).open();
+	}
+
+	/**
+	 * Conclui a configuração feita pelo assistente: passa a usar o novo GitManager e envia o vault, se preciso
+	 */
+	async completeSetup(gitManager: GitManager, mode: SetupMode, result: GitResult): Promise<void> {
+		this.gitManager = gitManager;
+		await this.syncEngine.refreshState();
+		if (!result.ok) {
+			this.notifyGitError(result.error);
+			await this.openConflicts();
+			return;
+		}
+		if (result.warning) {
+			this.notifyGitError(result.warning);
+		}
+		new Notice(t('notice.setupComplete'));
+		if (mode === 'new' || mode === 'merge') {
+			await this.pushNow();
+		}
+	}
+
+	/**
+	 * Padrões excluídos da sincronização. O data.json do plugin é sempre excluído porque guarda o token.
+	 */
+	getExcludedPaths(): string[] {
+		const pluginDir = this.getPluginDir();
+		// data.json guarda o token; o askpass é recriado em cada dispositivo
+		const ownFiles = [`${pluginDir}/data.json`, `${pluginDir}/ssh-askpass*`];
+		return [...new Set([...this.settings.excludedPaths, ...ownFiles])];
+	}
+
+	private getLfsSettings(): LfsSettings {
+		return {
+			enabled: this.settings.lfsEnabled,
+			extensions: this.settings.lfsExtensions,
+			sizeThreshold: this.settings.lfsSizeThresholdMb * 1024 * 1024
+		};
+	}
+
+	/**
+	 * Reaplica as configurações do LFS no repositório (filtros e .gitattributes)
+	 */
+	async applyLfsSettings(): Promise<void> {
+		const gitManager = this.gitManager;
+		if (!gitManager) {
+			return;
+		}
+		const lfs = this.getLfsSettings();
+		const result = await this.syncEngine.runExclusive(() => gitManager.configureLfs(lfs));
+		if (!result.ok) {
+			this.notifyGitError(result.error, t('failure.lfs'));
+		} else if (lfs.enabled) {
+			new Notice(t('notice.lfsConfigured'));
+		}
+	}
+
+	private getEncryptionSettings(): EncryptionSettings {
+		return {
+			enabled: this.settings.encryptionEnabled,
+			paths: this.settings.encryptedPaths
+		};
+	}
+
+	/**
+	 * Ativa a criptografia: no primeiro dispositivo define a senha; nos demais, pede a senha já definida.
+	 * Depois aplica as regras e avisa se o histórico tem versões anteriores em texto puro.
+	 */
+	async enableEncryption(): Promise<void> {
+		if (!this.gitManager) {
+			await this.initializeGit();
+		}
+		if (!this.gitManager) {
+			new Notice(t('notice.gitNotConfigured'));
+			return;
+		}
+		const gitManager = this.gitManager;
+		if (!gitManager.hasEncryptionConfig()) {
+			const passphrase = await askPassphrase(this.app, {
+				title: t('encryption.create.title'),
+				description: t('encryption.create.description'),
+				create: true
+			});
+			if (passphrase === null) {
+				return;
+			}
+			const created = await this.syncEngine.runExclusive(() => gitManager.createEncryptionKey(passphrase));
+			if (!created.ok) {
+				this.notifyGitError(created.error, t('failure.encryption'));
+				return;
 			}
+		} else if (!(await gitManager.hasEncryptionKey()) && !(await this.unlockEncryption())) {
+			return;
+		}
 
-			// Obter arquivos alterados se não foram passados
-			let files = changedFiles;
-			if (!files && this.gitManager) {
-				try {
-					const status = await this.gitManager.getStatus();
-					if (status && status.files) {
-						files = status.files.map(f => f.path);
-					}
-				} catch (error) {
-					console.warn('Não foi possível obter lista de arquivos alterados:', error);
-				}
+		this.settings.encryptionEnabled = true;
+		await this.saveSettings();
+		await this.applyEncryptionSettings();
+		await this.checkUnencryptedHistory(true);
+	}
+
+	/**
+	 * Desativa a criptografia depois de confirmar: os arquivos protegidos voltam a ser commitados em texto puro
+	 */
+	async disableEncryption(): Promise<void> {
+		const confirmed = await confirmFiles(this.app, {
+			title: t('encryption.disable.title'),
+			description: t('encryption.disable.description'),
+			files: this.settings.encryptedPaths,
+			confirmText: t('encryption.disable.confirm'),
+			warning: true
+		});
+		if (!confirmed) {
+			return;
+		}
+		this.settings.encryptionEnabled = false;
+		await this.saveSettings();
+		await this.applyEncryptionSettings();
+	}
+
+	/**
+	 * Reaplica as regras de criptografia no repositório (.gitattributes e arquivos afetados)
+	 */
+	async applyEncryptionSettings(): Promise<void> {
+		const gitManager = this.gitManager;
+		if (!gitManager) {
+			return;
+		}
+		const encryption = this.getEncryptionSettings();
+		const result = await this.syncEngine.runExclusive(() => gitManager.updateEncryptionRules(encryption));
+		if (!result.ok) {
+			this.notifyGitError(result.error, t('failure.encryption'));
+			return;
+		}
+		// Sem mudança nas regras o resultado não traz arquivos
+		const count = result.files.filter(file => file !== '.gitattributes').length;
+		if (result.files.length > 0) {
+			new Notice(t(encryption.enabled ? 'notice.encryptionEnabled' : 'notice.encryptionDisabled', { count }));
+		}
+	}
+
+	/**
+	 * Pede a senha uma vez por sessão quando o repositório tem notas criptografadas e este dispositivo ainda não tem a chave
+	 */
+	private promptUnlock() {
+		if (this.unlockPrompted) {
+			return;
+		}
+		this.unlockPrompted = true;
+		void this.unlockEncryption();
+	}
+
+	/**
+	 * Pede a senha de criptografia e decifra as notas neste dispositivo; com a senha errada, pede de novo
+	 */
+	async unlockEncryption(): Promise<boolean> {
+		if (!this.gitManager) {
+			await this.initializeGit();
+		}
+		const gitManager = this.gitManager;
+		if (!gitManager) {
+			new Notice(t('notice.gitNotConfigured'));
+			return false;
+		}
+		const passphrase = await askPassphrase(this.app, {
+			title: t('encryption.unlock.title'),
+			description: t('encryption.unlock.description')
+		});
+		if (passphrase === null) {
+			return false;
+		}
+		const result = await this.syncEngine.runExclusive(() => gitManager.unlockEncryption(passphrase));
+		if (!result.ok) {
+			this.notifyGitError(result.error, t('failure.encryption'));
+			return result.error.code === 'encryption-passphrase' ? this.unlockEncryption() : false;
+		}
+		new Notice(t('notice.encryptionUnlocked', { count: result.files.length }));
+		return true;
+	}
+
+	/**
+	 * Lista os arquivos criptografados que ainda têm versões em texto puro no histórico.
+	 * Com `onlyIfFound`, não avisa quando o histórico está limpo.
+	 */
+	async checkUnencryptedHistory(onlyIfFound = false): Promise<void> {
+		if (!this.gitManager) {
+			await this.initializeGit();
+		}
+		const gitManager = this.gitManager;
+		if (!gitManager) {
+			new Notice(t('notice.gitNotConfigured'));
+			return;
+		}
+		const exposed = await this.syncEngine.runExclusive(() => gitManager.getUnencryptedHistory());
+		if (exposed.length === 0) {
+			if (!onlyIfFound) {
+				new Notice(t('notice.historyEncrypted'));
 			}
+			return;
+		}
+		await confirmFiles(this.app, {
+			title: t('encryption.history.title'),
+			description: t('encryption.history.description'),
+			files: exposed,
+			confirmText: t('encryption.history.confirm'),
+			warning: true
+		});
+	}
 
-			const commitMessage = this.getCommitMessage(files);
-			console.log(`[${source}] Iniciando sincronização...`);
-			
-			const success = await this.gitManager!.fullSync(commitMessage, files);
-			this.lastSyncTime = Date.now();
+	/**
+	 * Sem LFS, pede confirmação antes de commitar arquivos acima do limite de aviso
+	 */
+	private async confirmLargeFiles(gitManager: GitManager, files: string[]): Promise<boolean> {
+		const limitMb = this.settings.largeFileWarningMb;
+		if (this.settings.lfsEnabled || limitMb <= 0) {
+			return true;
+		}
+		const large = (await gitManager.getLargeFiles(limitMb * 1024 * 1024, files))
+			.filter(file => !this.confirmedLargeFiles.has(file.path));
+		if (large.length === 0) {
+			return true;
+		}
 
-			if (success) {
-				console.log(`[${source}] Sincronização concluída com sucesso`);
+		const confirmed = await confirmFiles(this.app, {
+			title: t('largeFiles.title'),
+			description: t('largeFiles.description', { count: large.length, limit: limitMb }),
+			files: large.map(file => `${file.path} (${(file.size / 1024 / 1024).toFixed(1)} MB)`),
+			confirmText: t('largeFiles.confirm'),
+			warning: true
+		});
+		if (confirmed) {
+			large.forEach(file => this.confirmedLargeFiles.add(file.path));
+		}
+		return confirmed;
+	}
+
+	/**
+	 * Pull que apagaria ou reescreveria muitos arquivos do vault: pede confirmação antes do merge
+	 */
+	private async confirmIncomingChanges(gitManager: GitManager, trigger: SyncTrigger): Promise<boolean> {
+		if (this.settings.massChangeLimit <= 0 && this.settings.massChangePercent <= 0) {
+			return true;
+		}
+		// Falhas do fetch (ex.: sem conexão) ficam para o pull reportar
+		await gitManager.fetchRemote();
+		return this.confirmMassChange('incoming', gitManager, await gitManager.getIncomingChanges(), trigger);
+	}
+
+	/**
+	 * Alterações acima dos limites de segurança suspendem a sincronização automática e só seguem depois
+	 * que o usuário confirma a lista de arquivos afetados
+	 */
+	private async confirmMassChange(direction: 'outgoing' | 'incoming', gitManager: GitManager, changes: CommitFileChange[], trigger: SyncTrigger): Promise<boolean> {
+		const limits = { maxFiles: this.settings.massChangeLimit, maxPercent: this.settings.massChangePercent };
+		if (changes.length === 0 || (limits.maxFiles <= 0 && limits.maxPercent <= 0)) {
+			return true;
+		}
+		const total = await gitManager.countTrackedFiles();
+		const affected = findMassChange(changes, total, limits);
+		if (!affected) {
+			return true;
+		}
+		if (trigger !== 'manual') {
+			// Já suspensa: a confirmação pendente (ou recusada) vale também para os pedidos seguintes
+			if (this.autoSyncPaused) {
+				return false;
 			}
-		} catch (error) {
-			console.error(`Erro ao realizar sincronização (${source}):`, error);
-			new Notice('❌ Erro ao sincronizar com GitHub');
+			this.autoSyncPaused = true;
+		}
+
+		const deleted = affected.filter(change => change.status === 'D').length;
+		const confirmed = await confirmFiles(this.app, {
+			title: t(`massChange.${direction}.title`),
+			description: t(`massChange.${direction}.description`, { count: affected.length, deleted, total }),
+			files: affected.map(change => `${change.status}  ${change.oldPath ? `${change.oldPath} → ${change.path}` : change.path}`),
+			confirmText: t(`massChange.${direction}.confirm`),
+			warning: true
+		});
+		if (confirmed) {
+			this.autoSyncPaused = false;
+		} else if (this.autoSyncPaused) {
+			new Notice(t('notice.autoSyncPaused'));
 		}
+		return confirmed;
 	}
 
 	/**
-	 * Gera a mensagem de commit baseada no template
+	 * Diretório do plugin, relativo ao vault
+	 */
+	private getPluginDir(): string {
+		return this.manifest.dir ?? `${this.app.vault.configDir}/plugins/${this.manifest.id}`;
+	}
+
+	/**
+	 * Mostra a impressão digital de um host SSH desconhecido e pergunta se o usuário confia nela
+	 */
+	private confirmHostKey(host: string, fingerprints: string[]): Promise<boolean> {
+		return confirmFiles(this.app, {
+			title: t('hostKey.title'),
+			description: t('hostKey.description', { host }),
+			files: fingerprints,
+			confirmText: t('hostKey.confirm'),
+			cancelText: t('hostKey.cancel'),
+			warning: true
+		});
+	}
+
+	/**
+	 * Esquece a chave guardada do host SSH e pede a confirmação da nova
+	 */
+	async forgetHostKey(): Promise<void> {
+		if (!this.gitManager) {
+			await this.initializeGit();
+		}
+		if (!this.gitManager) {
+			new Notice(t('notice.gitNotConfigured'));
+			return;
+		}
+		const gitManager = this.gitManager;
+		const result = await this.syncEngine.runExclusive(() => gitManager.forgetHostKey());
+		if (result.ok) {
+			new Notice(t('notice.hostKeyUpdated'));
+		} else {
+			this.notifyGitError(result.error, t('failure.hostKey'));
+		}
+	}
+
+	/**
+	 * Atualiza o .gitignore e oferece remover do índice arquivos versionados que agora estão excluídos
+	 */
+	async applyExclusions(): Promise<void> {
+		if (!this.settings.githubRepoUrl) {
+			return;
+		}
+		if (!this.gitManager) {
+			await this.initializeGit();
+		}
+		if (!this.gitManager) {
+			return;
+		}
+
+		const gitManager = this.gitManager;
+		await this.syncEngine.runExclusive(() => gitManager.updateGitignore(this.getExcludedPaths()));
+		const tracked = await this.syncEngine.runExclusive(() => gitManager.getExcludedTrackedFiles());
+		if (tracked.length === 0) {
+			return;
+		}
+
+		const confirmed = await confirmFiles(this.app, {
+			title: t('exclusions.title'),
+			description: t('exclusions.description'),
+			files: tracked,
+			confirmText: t('exclusions.confirm')
+		});
+		if (!confirmed) {
+			return;
+		}
+
+		const result = await this.syncEngine.runExclusive(() => gitManager.untrackFiles(tracked));
+		if (result.ok) {
+			new Notice(t('notice.untracked', { count: tracked.length }));
+		} else {
+			this.notifyGitError(result.error, t('failure.untrack'));
+		}
+	}
+
+	/**
+	 * Abre o histórico de versões de um arquivo
+	 */
+	async openFileHistory(file: TFile): Promise<void> {
+		if (!this.gitManager) {
+			const initialized = await this.initializeGit();
+			if (!initialized) {
+				return;
+			}
+		}
+		new FileHistoryModal(this.app, this, file).open();
+	}
+
+	/**
+	 * Abre (ou revela e atualiza) uma das visões do plugin
+	 */
+	async activateView(viewType: string, location: 'tab' | 'right' = 'tab'): Promise<void> {
+		const { workspace } = this.app;
+		let leaf = workspace.getLeavesOfType(viewType)[0];
+		if (!leaf) {
+			leaf = (location === 'right' ? workspace.getRightLeaf(false) : null) ?? workspace.getLeaf('tab');
+			await leaf.setViewState({ type: viewType, active: true });
+		} else if (leaf.view instanceof ConflictView || leaf.view instanceof HistoryView || leaf.view instanceof SourceControlView) {
+			await leaf.view.refresh();
+		}
+		await workspace.revealLeaf(leaf);
+	}
+
+	/**
+	 * Realiza a sincronização completa (pull, commit e push) pelo motor de sincronização
+	 */
+	async performSync(source: string, trigger: SyncTrigger = 'manual'): Promise<void> {
+		if (trigger !== 'manual' && this.autoSyncPaused) {
+			console.debug(`[${source}] Sincronização automática suspensa por alteração em massa`);
+			return;
+		}
+		// Com branches por dispositivo, salvar só faz commit e push da branch do dispositivo: nada é mesclado durante a edição.
+		// Vale a branch efetiva do GitManager: o backend JavaScript ignora a configuração
+		const type = trigger === 'save' && this.gitManager?.usesDeviceBranch ? 'push' : 'sync';
+		const result = await this.syncEngine.request(type, source, undefined, trigger);
+		this.lastSyncTime = Date.now();
+		if (trigger === 'manual' && result.ok) {
+			this.autoSyncPaused = false;
+		}
+		this.notifySyncResult(result, t('notice.syncComplete'), trigger !== 'manual');
+	}
+
+	/**
+	 * Faz pull do repositório remoto
+	 */
+	async pullNow(): Promise<void> {
+		const result = await this.syncEngine.request('pull', 'Pull via command');
+		this.notifySyncResult(result, t('notice.pullComplete'));
+	}
+
+	/**
+	 * Faz commit e push das alterações locais
+	 */
+	async pushNow(): Promise<void> {
+		const result = await this.syncEngine.request('push', 'Push via command');
+		this.notifySyncResult(result, t('notice.pushComplete'));
+	}
+
+	/**
+	 * Só busca o remote e mostra os commits e arquivos que chegariam, antes de qualquer merge
 	 */
-	private getCommitMessage(files?: string[]): string {
-		const now = new Date();
-		const dateStr = now.toLocaleString('pt-BR');
-		
-		let message = this.settings.commitMessageTemplate.replace('{date}', dateStr);
-		
-		// Substituir {files} com a lista de arquivos alterados
-		if (files && files.length > 0) {
-			// Limitar a quantidade de arquivos mostrados (máximo 10)
-			const filesToShow = files.slice(0, 10);
-			const filesList = filesToShow.map(f => `  - ${f}`).join('\n');
-			const moreFiles = files.length > 10 ? `\n  ... e mais ${files.length - 10} arquivo(s)` : '';
-			const filesText = `\nArquivos alterados:\n${filesList}${moreFiles}`;
-			message = message.replace('{files}', filesText);
+	async checkRemoteChanges(): Promise<void> {
+		if (!this.gitManager) {
+			await this.initializeGit();
+		}
+		if (!this.gitManager) {
+			new Notice(t('notice.gitNotConfigured'));
+			return;
+		}
+		const gitManager = this.gitManager;
+		const fetched = await this.syncEngine.runExclusive(() => gitManager.fetchRemote());
+		if (!fetched.ok) {
+			this.notifyGitError(fetched.error, t('failure.fetch'));
+			return;
+		}
+		const commits = await gitManager.getIncomingCommits();
+		if (commits.length === 0) {
+			new Notice(t('notice.noRemoteChanges'));
+			return;
+		}
+		new IncomingChangesModal(this.app, this, commits, await gitManager.getIncomingFiles()).open();
+	}
+
+	/**
+	 * Aplica todas as alterações remotas (pull) e retoma a sincronização automática
+	 */
+	async mergeRemoteChanges(): Promise<void> {
+		this.autoSyncPaused = false;
+		await this.pullNow();
+	}
+
+	/**
+	 * Aplica só as alterações remotas dos arquivos escolhidos, em um commit local
+	 */
+	async mergeIncomingFiles(files: CommitFileChange[]): Promise<void> {
+		const gitManager = this.gitManager;
+		if (!gitManager || files.length === 0) {
+			return;
+		}
+		const message = t('incoming.commitMessage', { files: files.map(file => file.path).join(', ') });
+		const result = await this.syncEngine.runExclusive(() => gitManager.applyIncomingFiles(files, message));
+		await this.syncEngine.refreshState();
+		if (result.ok) {
+			new Notice(t('notice.remoteFilesApplied', { count: files.length }));
 		} else {
-			// Se não houver arquivos ou {files} não foi usado, remover o placeholder
-			message = message.replace('{files}', '');
+			this.notifyGitError(result.error, t('failure.applyIncoming'));
 		}
-		
-		return message.trim();
+	}
+
+	/**
+	 * Adia as alterações remotas: a sincronização automática fica suspensa até um merge ou sincronização manual
+	 */
+	postponeRemoteChanges(): void {
+		this.autoSyncPaused = true;
+		new Notice(t('notice.remoteChangesPostponed'));
+	}
+
+	/**
+	 * Abre a visão de conflitos, se houver conflitos pendentes
+	 */
+	async openConflicts(): Promise<void> {
+		if (!this.gitManager) {
+			await this.initializeGit();
+		}
+		if (!this.gitManager) {
+			new Notice(t('notice.gitNotConfigured'));
+			return;
+		}
+		const hasConflicts = await this.gitManager.hasConflicts();
+		if (!hasConflicts) {
+			new Notice(t('notice.noConflicts'));
+			return;
+		}
+		await this.activateView(VIEW_TYPE_CONFLICTS);
+	}
+
+	/**
+	 * Aborta o merge em andamento
+	 */
+	async abortMerge(): Promise<void> {
+		if (!this.gitManager) {
+			await this.initializeGit();
+		}
+		if (!this.gitManager) {
+			new Notice(t('notice.gitNotConfigured'));
+			return;
+		}
+		const gitManager = this.gitManager;
+		const result = await this.syncEngine.runExclusive(() => gitManager.abortMerge());
+		await this.syncEngine.refreshState();
+		if (result.ok) {
+			new Notice(t('notice.mergeAborted'));
+		} else {
+			this.notifyGitError(result.error, t('failure.abortMerge'));
+		}
+	}
+
+	/**
+	 * Aborta o rebase em andamento
+	 */
+	async abortRebase(): Promise<void> {
+		if (!this.gitManager) {
+			await this.initializeGit();
+		}
+		if (!this.gitManager) {
+			new Notice(t('notice.gitNotConfigured'));
+			return;
+		}
+		const gitManager = this.gitManager;
+		const result = await this.syncEngine.runExclusive(() => gitManager.abortRebase());
+		await this.syncEngine.refreshState();
+		if (result.ok) {
+			new Notice(t('notice.rebaseAborted'));
+		} else {
+			this.notifyGitError(result.error, t('failure.abortRebase'));
+		}
+	}
+
+	/**
+	 * Desfaz a última sincronização: volta ao ponto de restauração mais recente criado antes de um pull ou de resolver conflitos
+	 */
+	async undoLastSync(): Promise<void> {
+		if (!this.gitManager) {
+			await this.initializeGit();
+		}
+		if (!this.gitManager) {
+			new Notice(t('notice.gitNotConfigured'));
+			return;
+		}
+		const snapshot = (await this.gitManager.listSnapshots()).find(candidate => candidate.reason !== 'undo');
+		if (!snapshot) {
+			new Notice(t('notice.noSnapshots'));
+			return;
+		}
+		await this.restoreSnapshot(snapshot);
+	}
+
+	/**
+	 * Abre a lista de pontos de restauração
+	 */
+	async openSnapshots(): Promise<void> {
+		if (!this.gitManager) {
+			await this.initializeGit();
+		}
+		if (!this.gitManager) {
+			new Notice(t('notice.gitNotConfigured'));
+			return;
+		}
+		const snapshots = await this.gitManager.listSnapshots();
+		if (snapshots.length === 0) {
+			new Notice(t('notice.noSnapshots'));
+			return;
+		}
+		new SnapshotModal(this.app, this, snapshots).open();
+	}
+
+	/**
+	 * Confirma (listando os arquivos que mudam) e volta o vault ao ponto de restauração
+	 */
+	async restoreSnapshot(snapshot: SafetySnapshot): Promise<void> {
+		const gitManager = this.gitManager;
+		if (!gitManager) {
+			new Notice(t('notice.gitNotConfigured'));
+			return;
+		}
+		const confirmed = await confirmFiles(this.app, {
+			title: t('snapshot.confirmTitle'),
+			description: t('snapshot.confirmDescription', {
+				reason: t(`snapshot.reason.${snapshot.reason}`),
+				date: this.formatDate(snapshot.date)
+			}),
+			files: await gitManager.getSnapshotChanges(snapshot),
+			confirmText: t('snapshot.restore'),
+			warning: true
+		});
+		if (!confirmed) {
+			return;
+		}
+
+		const result = await this.syncEngine.runExclusive(() => gitManager.restoreSnapshot(snapshot));
+		await this.syncEngine.refreshState();
+		if (result.ok) {
+			new Notice(t('notice.snapshotRestored'));
+		} else if (result.error.code === 'conflict') {
+			// O merge guardado foi refeito e parou nos mesmos conflitos
+			this.notifyGitError(result.error);
+			await this.openConflicts();
+		} else {
+			this.notifyGitError(result.error, t('failure.restoreSnapshot'));
+		}
+	}
+
+	/**
+	 * Mostra o resultado de uma sincronização. Sem conexão, sincronizações automáticas avisam só uma vez
+	 * até a conexão voltar; conflitos já pendentes só são lembrados em ações do usuário (a barra de status os indica).
+	 */
+	notifySyncResult(result: GitResult, successMessage: string, automatic = false): void {
+		if (result.ok) {
+			new Notice(successMessage);
+			if (result.warning) {
+				this.notifyGitError(result.warning);
+			}
+			return;
+		}
+		const { error } = result;
+		if (error.code === 'not-configured') {
+			// O motor não obteve o GitManager: initializeGit já mostrou o motivo
+			return;
+		}
+		if (error.code === 'network') {
+			if (!automatic || !this.offlineNotified) {
+				this.offlineNotified = true;
+				new Notice(t('notice.offline'));
+			}
+			return;
+		}
+		if (automatic && (error.code === 'merge-in-progress' || error.code === 'rebase-in-progress')) {
+			return;
+		}
+		this.notifyGitError(error, t('failure.sync'));
+	}
+
+	/**
+	 * Mostra um erro (ou aviso) de uma operação git
+	 */
+	notifyGitError(error: GitError, fallback?: string): void {
+		const warning = error.code === 'conflict' || error.code === 'merge-in-progress' || error.code === 'rebase-in-progress'
+			|| error.code === 'lfs-unavailable' || error.code === 'encryption-locked' || error.code === 'cancelled';
+		new Notice(`${warning ? '⚠️' : '❌'} ${this.describeGitError(error, fallback)}`);
+	}
+
+	/**
+	 * Mensagem para o usuário a partir do código de erro
+	 */
+	describeGitError(error: GitError, fallback = t('failure.default')): string {
+		switch (error.code) {
+			case 'not-configured':
+				return error.details || t('error.not-configured');
+			case 'init-failed':
+				return t('error.init-failed', { details: error.details });
+			case 'ssh-key':
+				return error.details;
+			case 'branch-missing':
+				return t('error.branch-missing', { branch: this.settings.githubBranch });
+			case 'conflict':
+				return t('error.conflict', { count: error.files.length });
+			case 'unknown':
+				return error.details ? `${fallback}: ${error.details}` : fallback;
+			default:
+				return t(`error.${error.code}`);
+		}
+	}
+
+	/**
+	 * Data no formato configurado ou, sem formato, no padrão do idioma do Obsidian
+	 */
+	formatDate(date: Date | number): string {
+		return formatDate(date, this.settings.dateFormat);
+	}
+
+	/**
+	 * Gera a mensagem de commit baseada no template
+	 */
+	getCommitMessage(changes: CommitFileChange[] = [], trigger: SyncTrigger = 'manual', date: Date = new Date()): string {
+		return renderCommitMessage(this.settings.commitMessageTemplate, {
+			date,
+			dateFormat: this.settings.dateFormat,
+			changes,
+			fileLimit: this.settings.commitFileLimit,
+			device: this.getDeviceName(),
+			hostname: os.hostname(),
+			vault: this.app.vault.getName(),
+			source: t(`source.${trigger}`)
+		});
+	}
+
+	/**
+	 * Nome deste dispositivo (configurado ou, em branco, o hostname)
+	 */
+	getDeviceName(): string {
+		return this.settings.deviceName.trim() || os.hostname();
 	}
 }
@@ -0,0 +1,38 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert';
+import { mergeMarkdown } from './markdownMerge';
+
+void test('itens adicionados pelos dois lados viram a união', () => {
+	const merged = mergeMarkdown('- a\n', '- a\n- b\n', '- a\n- c\n');
+	assert.deepStrictEqual(merged, { text: '- a\n- b\n- c\n', conflicts: 0 });
+});
+
+void test('item adicionado pelos dois lados aparece uma vez', () => {
+	const merged = mergeMarkdown('- a\n', '- a\n- b\n', '- a\n- b\n');
+	assert.deepStrictEqual(merged, { text: '- a\n- b\n', conflicts: 0 });
+});
+
+void test('itens repetidos de um lado continuam repetidos', () => {
+	const merged = mergeMarkdown('- a\n', '- a\n- [ ] ligar\n- [ ] ligar\n', '- a\n- c\n');
+	assert.deepStrictEqual(merged, { text: '- a\n- [ ] ligar\n- [ ] ligar\n- c\n', conflicts: 0 });
+});
+
+void test('itens que já se repetiam na base não são deduplicados', () => {
+	const merged = mergeMarkdown('- a\n- a\n', '- a\n- a\n- b\n', '- a\n- a\n- c\n');
+	assert.deepStrictEqual(merged, { text: '- a\n- a\n- b\n- c\n', conflicts: 0 });
+});
+
+void test('linhas em branco entre os itens adicionados são mantidas', () => {
+	const merged = mergeMarkdown('- a\n\n- b\n', '- a\n\n- b\n\n- c\n', '- a\n\n- b\n\n- d\n');
+	assert.deepStrictEqual(merged, { text: '- a\n\n- b\n\n- c\n\n- d\n', conflicts: 0 });
+});
+
+void test('conflito usa marcadores com rótulos neutros', () => {
+	const merged = mergeMarkdown('texto\n', 'texto local\n', 'texto remoto\n');
+	assert.deepStrictEqual(merged, { text: '<<<<<<< ours\ntexto local\n=======\ntexto remoto\n>>>>>>> theirs\n', conflicts: 1 });
+});
+
+void test('notas com CRLF continuam com CRLF', () => {
+	const merged = mergeMarkdown('---\r\ntags: a\r\n---\r\n- a\r\n', '---\r\ntags: b\r\n---\r\n- a\r\n- b\r\n', '---\r\ntags: a\r\n---\r\n- a\r\n- c\r\n');
+	assert.deepStrictEqual(merged, { text: '---\r\ntags: b\r\n---\r\n- a\r\n- b\r\n- c\r\n', conflicts: 0 });
+});
@@ -0,0 +1,221 @@
+import { conflictMarkers, diff3Merge, lineEnding, MergeChunk, sameLines, splitLines } from './diff3';
+
+export interface MarkdownMergeResult {
+	text: string;
+	conflicts: number;
+}
+
+interface FrontmatterBlock {
+	key: string;
+	lines: string[];
+}
+
+const FRONTMATTER_KEY = /^([^\s#-][^:]*):(\s|$)/;
+const LIST_ITEM = /^\s*([-*+]|\d+[.)])\s/;
+const YAML_LIST_ITEM = /^\s*-\s/;
+
+/**
+ * Merge de três vias para notas Markdown: frontmatter chave a chave,
+ * itens de lista adicionados pelos dois lados como união e conflito real só
+ * quando as mesmas linhas diferem
+ */
+export function mergeMarkdown(base: string, ours: string, theirs: string): MarkdownMergeResult {
+	const baseDoc = splitFrontmatter(splitLines(base));
+	const oursDoc = splitFrontmatter(splitLines(ours));
+	const theirsDoc = splitFrontmatter(splitLines(theirs));
+
+	let conflicts = 0;
+	const output: string[] = [];
+
+	if (oursDoc.frontmatter || theirsDoc.frontmatter) {
+		const frontmatter = mergeFrontmatter(
+			baseDoc.frontmatter ?? [],
+			oursDoc.frontmatter ?? [],
+			theirsDoc.frontmatter ?? []
+		);
+		conflicts += frontmatter.conflicts;
+		output.push('---', ...frontmatter.lines, '---');
+	}
+
+	for (const chunk of diff3Merge(baseDoc.body, oursDoc.body, theirsDoc.body)) {
+		if (chunk.kind === 'stable') {
+			output.push(...chunk.lines);
+			continue;
+		}
+		const union = unionListItems(chunk);
+		if (union) {
+			output.push(...union);
+		} else {
+			conflicts++;
+			output.push(...conflictMarkers(chunk.ours, chunk.theirs));
+		}
+	}
+
+	return { text: output.join(lineEnding(ours, theirs, base)), conflicts };
+}
+
+function splitFrontmatter(lines: string[]): { frontmatter: string[] | null; body: string[] } {
+	if (lines[0] !== '---') {
+		return { frontmatter: null, body: lines };
+	}
+	const end = lines.findIndex((line, index) => index > 0 && (line === '---' || line === '...'));
+	if (end < 0) {
+		return { frontmatter: null, body: lines };
+	}
+	return { frontmatter: lines.slice(1, end), body: lines.slice(end + 1) };
+}
+
+/**
+ * Divide o frontmatter em blocos por chave de primeiro nível (linhas indentadas seguem a chave)
+ */
+function parseFrontmatter(lines: string[]): FrontmatterBlock[] {
+	const blocks: FrontmatterBlock[] = [];
+	let current: FrontmatterBlock = { key: '', lines: [] };
+	for (const line of lines) {
+		const match = FRONTMATTER_KEY.exec(line);
+		if (match) {
+			if (current.key || current.lines.length > 0) {
+				blocks.push(current);
+			}
+			current = { key: (match[1] as string).trim(), lines: [line] };
+		} else {
+			current.lines.push(line);
+		}
+	}
+	if (current.key || current.lines.length > 0) {
+		blocks.push(current);
+	}
+	return blocks;
+}
+
+function mergeFrontmatter(base: string[], ours: string[], theirs: string[]): { lines: string[]; conflicts: number } {
+	const baseBlocks = toMap(parseFrontmatter(base));
+	const oursBlocks = parseFrontmatter(ours);
+	const theirsBlocks = parseFrontmatter(theirs);
+	const oursMap = toMap(oursBlocks);
+	const theirsMap = toMap(theirsBlocks);
+
+	// Ordem: chaves locais, depois chaves novas do remoto
+	const keys = oursBlocks.map(b => b.key);
+	for (const block of theirsBlocks) {
+		if (!oursMap.has(block.key)) {
+			keys.push(block.key);
+		}
+	}
+
+	const lines: string[] = [];
+	let conflicts = 0;
+	for (const key of keys) {
+		const b = baseBlocks.get(key);
+		const o = oursMap.get(key);
+		const t = theirsMap.get(key);
+
+		let merged: string[] | undefined;
+		if (sameBlock(o, t) || sameBlock(t, b)) {
+			merged = o;
+		} else if (sameBlock(o, b)) {
+			merged = t;
+		} else if (o && t) {
+			const union = unionYamlList(b, o, t);
+			if (union) {
+				merged = union;
+			} else {
+				conflicts++;
+				lines.push(...conflictMarkers(o, t));
+				continue;
+			}
+		} else {
+			// Chave removida de um lado e alterada do outro
+			conflicts++;
+			lines.push(...conflictMarkers(o ?? [], t ?? []));
+			continue;
+		}
+
+		if (merged) {
+			lines.push(...merged);
+		}
+	}
+	return { lines, conflicts };
+}
+
+function toMap(blocks: FrontmatterBlock[]): Map<string, string[]> {
+	return new Map(blocks.map(b => [b.key, b.lines]));
+}
+
+function sameBlock(a: string[] | undefined, b: string[] | undefined): boolean {
+	if (!a || !b) {
+		return a === b;
+	}
+	return sameLines(a, b);
+}
+
+/**
+ * União de listas YAML em bloco (`tags:` seguido de `  - item`), respeitando remoções
+ */
+function unionYamlList(base: string[] | undefined, ours: string[], theirs: string[]): string[] | null {
+	const [oursHeader, ...oursItems] = ours;
+	const [theirsHeader, ...theirsItems] = theirs;
+	if (oursHeader !== theirsHeader) {
+		return null;
+	}
+	const isList = (items: string[]) => items.every(item => YAML_LIST_ITEM.test(item) || item.trim() === '');
+	if (!isList(oursItems) || !isList(theirsItems)) {
+		return null;
+	}
+	return [oursHeader as string, ...unionItems(base ? base.slice(1) : [], oursItems, theirsItems)];
+}
+
+/**
+ * Trechos onde os dois lados só adicionaram itens de lista ou tarefas viram a união dos dois
+ */
+function unionListItems(chunk: Extract<MergeChunk, { kind: 'conflict' }>): string[] | null {
+	const added = (side: string[]) => side.filter(line => !chunk.base.includes(line));
+	const keepsBase = (side: string[]) => chunk.base.every(line => side.includes(line));
+	const onlyItems = (lines: string[]) => lines.every(line => LIST_ITEM.test(line) || line.trim() === '');
+
+	if (!keepsBase(chunk.ours) || !keepsBase(chunk.theirs)) {
+		return null;
+	}
+	if (!onlyItems(added(chunk.ours)) || !onlyItems(added(chunk.theirs))) {
+		return null;
+	}
+	return unionItems(chunk.base, chunk.ours, chunk.theirs);
+}
+
+function countLines(lines: string[]): Map<string, number> {
+	const counts = new Map<string, number>();
+	for (const line of lines) {
+		counts.set(line, (counts.get(line) ?? 0) + 1);
+	}
+	return counts;
+}
+
+/**
+ * União contando as repetições de cada linha: valem as remoções dos dois lados, e só um item que os
+ * dois lados adicionaram aparece uma vez (itens que já se repetiam e linhas em branco continuam)
+ */
+function unionItems(base: string[], ours: string[], theirs: string[]): string[] {
+	const [inBase, inOurs, inTheirs] = [countLines(base), countLines(ours), countLines(theirs)];
+	const expected = new Map<string, number>();
+	for (const line of new Set([...ours, ...theirs])) {
+		const b = inBase.get(line) ?? 0;
+		const o = inOurs.get(line) ?? 0;
+		const t = inTheirs.get(line) ?? 0;
+		const removed = Math.max(b - o, b - t, 0);
+		// Linhas em branco separam os itens de cada lado: as adicionadas se somam
+		const added = line.trim() === '' ? Math.max(o - b, 0) + Math.max(t - b, 0) : Math.max(o - b, t - b, 0);
+		expected.set(line, b - removed + added);
+	}
+
+	const result: string[] = [];
+	const emitted = new Map<string, number>();
+	// Nosso lado na ordem original, depois o que sobra do outro
+	for (const line of [...ours, ...theirs]) {
+		const count = emitted.get(line) ?? 0;
+		if (count < (expected.get(line) ?? 0)) {
+			result.push(line);
+			emitted.set(line, count + 1);
+		}
+	}
+	return result;
+}
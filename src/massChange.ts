@@ -0,0 +1,33 @@
+import { CommitFileChange } from './gitManager';
+
+export interface MassChangeLimits {
+	// Máximo de arquivos alterados ou removidos de uma vez (0 = sem limite)
+	maxFiles: number;
+	// Máximo em porcentagem dos arquivos versionados (0 = sem limite)
+	maxPercent: number;
+}
+
+// Abaixo disso a porcentagem não conta: em vaults pequenos poucas edições já passariam do limite
+const MIN_FILES_FOR_PERCENT = 10;
+
+/**
+ * Alterações que removem ou reescrevem arquivos existentes (adições e cópias não apagam nada)
+ */
+function destructiveChanges(changes: CommitFileChange[]): CommitFileChange[] {
+	return changes.filter(change => change.status !== 'A' && change.status !== 'C');
+}
+
+/**
+ * Alterações em massa: devolve os arquivos afetados quando passam de algum limite, ou null
+ */
+export function findMassChange(changes: CommitFileChange[], trackedFiles: number, limits: MassChangeLimits): CommitFileChange[] | null {
+	const affected = destructiveChanges(changes);
+	if (limits.maxFiles > 0 && affected.length > limits.maxFiles) {
+		return affected;
+	}
+	if (limits.maxPercent > 0 && trackedFiles > 0 && affected.length >= MIN_FILES_FOR_PERCENT
+		&& affected.length * 100 / trackedFiles > limits.maxPercent) {
+		return affected;
+	}
+	return null;
+}
@@ -0,0 +1,24 @@
+/**
+ * Merge driver do git para notas Markdown (`git merge-file` com %O %A %B).
+ * Empacotado separadamente pelo esbuild e gravado em .git/ pelo GitManager.
+ */
+import * as fs from 'fs';
+import * as process from 'process';
+import { mergeMarkdown } from './markdownMerge';
+
+const [basePath, oursPath, theirsPath] = process.argv.slice(2);
+
+if (!basePath || !oursPath || !theirsPath) {
+	console.error('Uso: markdown-merge <base> <local> <remoto>');
+	process.exit(2);
+}
+
+const result = mergeMarkdown(
+	fs.readFileSync(basePath, 'utf8'),
+	fs.readFileSync(oursPath, 'utf8'),
+	fs.readFileSync(theirsPath, 'utf8')
+);
+
+// O git espera o resultado no arquivo local; saída diferente de zero mantém o conflito
+fs.writeFileSync(oursPath, result.text, 'utf8');
+process.exit(result.conflicts > 0 ? 1 : 0);
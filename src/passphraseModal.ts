@@ -0,0 +1,86 @@
+import { App, Modal, Setting } from 'obsidian';
+import { t } from './i18n';
+
+export interface PassphraseOptions {
+	title: string;
+	description: string;
+	// Nova senha: pede a confirmação e recusa senhas curtas
+	create?: boolean;
+}
+
+// Tamanho mínimo de uma senha nova
+const MIN_PASSPHRASE_LENGTH = 8;
+
+/**
+ * Modal que pede a senha de criptografia (campo de senha, nunca exibida)
+ */
+export class PassphraseModal extends Modal {
+	private options: PassphraseOptions;
+	private resolve: (passphrase: string | null) => void;
+	private passphrase: string | null = null;
+
+	constructor(app: App, options: PassphraseOptions, resolve: (passphrase: string | null) => void) {
+		super(app);
+		this.options = options;
+		this.resolve = resolve;
+	}
+
+	onOpen() {
+		const { contentEl, options } = this;
+		this.titleEl.setText(options.title);
+		contentEl.createEl('p', { text: options.description });
+
+		let value = '';
+		let confirmation = '';
+		new Setting(contentEl)
+			.setName(t('passphrase.label'))
+			.addText(text => {
+				text.inputEl.type = 'password';
+				text.onChange(input => value = input);
+			});
+		if (options.create) {
+			new Setting(contentEl)
+				.setName(t('passphrase.confirmLabel'))
+				.addText(text => {
+					text.inputEl.type = 'password';
+					text.onChange(input => confirmation = input);
+				});
+		}
+		const error = contentEl.createEl('p', { cls: 'github-sync-setup-error' });
+
+		const submit = () => {
+			if (!value) {
+				error.setText(t('passphrase.empty'));
+			} else if (options.create && value.length < MIN_PASSPHRASE_LENGTH) {
+				error.setText(t('passphrase.tooShort', { min: MIN_PASSPHRASE_LENGTH }));
+			} else if (options.create && value !== confirmation) {
+				error.setText(t('passphrase.mismatch'));
+			} else {
+				this.passphrase = value;
+				this.close();
+			}
+		};
+		contentEl.addEventListener('keydown', (event) => {
+			if (event.key === 'Enter') {
+				event.preventDefault();
+				submit();
+			}
+		});
+
+		const actions = contentEl.createDiv({ cls: 'modal-button-container' });
+		actions.createEl('button', { text: t('passphrase.submit'), cls: 'mod-cta' }).addEventListener('click', submit);
+		actions.createEl('button', { text: t('confirm.cancel') }).addEventListener('click', () => this.close());
+	}
+
+	onClose() {
+		this.contentEl.empty();
+		this.resolve(this.passphrase);
+	}
+}
+
+/**
+ * Abre o modal e resolve com a senha digitada, ou null se o usuário cancelar
+ */
+export function askPassphrase(app: App, options: PassphraseOptions): Promise<string | null> {
+	return new Promise(resolve => new PassphraseModal(app, options, resolve).open());
+}
@@ -0,0 +1,157 @@
+import { t } from './i18n';
+
+export type GitProvider = 'github' | 'gitlab' | 'gitea' | 'bitbucket' | 'generic';
+
+// Nomes dos serviços conhecidos; o servidor genérico não tem nome próprio e é traduzido
+const PROVIDER_NAMES: Record<Exclude<GitProvider, 'generic'>, string> = {
+	github: 'GitHub',
+	gitlab: 'GitLab',
+	gitea: 'Gitea / Forgejo',
+	bitbucket: 'Bitbucket'
+};
+
+export const GIT_PROVIDERS: GitProvider[] = ['github', 'gitlab', 'gitea', 'bitbucket', 'generic'];
+
+/**
+ * Nome do serviço mostrado na interface
+ */
+export function providerLabel(provider: GitProvider): string {
+	return provider === 'generic' ? t('settings.provider.generic') : PROVIDER_NAMES[provider];
+}
+
+// Usuário esperado por cada serviço quando o token vai como senha no HTTPS
+const TOKEN_USERNAMES: Record<GitProvider, string> = {
+	github: 'x-access-token',
+	gitlab: 'oauth2',
+	// O Gitea identifica o dono pelo token; o usuário é ignorado
+	gitea: 'token',
+	// Access tokens de repositório/workspace; app passwords exigem o usuário da conta (ver tokenUsername)
+	bitbucket: 'x-token-auth',
+	generic: 'git'
+};
+
+/**
+ * Remote decomposto: `path` não tem a barra inicial e pode ter subgrupos (ex.: `grupo/sub/repo.git`)
+ */
+export interface RemoteLocation {
+	protocol: 'https' | 'http' | 'ssh' | 'file';
+	user?: string;
+	host: string;
+	port?: number;
+	path: string;
+}
+
+/**
+ * Interpreta URLs HTTPS, `ssh://`, no formato scp (`user@host:path`) e caminhos locais
+ */
+export function parseRemoteUrl(url: string): RemoteLocation | null {
+	const trimmed = url.trim();
+
+	const withScheme = /^([a-z][a-z0-9+.-]*):\/\/(?:([^@/]*)@)?(\[[^\]]+\]|[^:/]*)(?::(\d+))?(?:\/(.*))?$/i.exec(trimmed);
+	if (withScheme) {
+		const scheme = (withScheme[1] ?? '').toLowerCase();
+		const protocol = scheme === 'git+ssh' || scheme === 'ssh+git' ? 'ssh' : scheme;
+		if (protocol !== 'https' && protocol !== 'http' && protocol !== 'ssh' && protocol !== 'file') {
+			return null;
+		}
+		return {
+			protocol,
+			// Só o usuário: senha/token embutidos na URL são descartados
+			user: withScheme[2]?.split(':')[0] || undefined,
+			host: (withScheme[3] ?? '').replace(/^\[|\]$/g, ''),
+			port: withScheme[4] ? Number(withScheme[4]) : undefined,
+			path: withScheme[5] ?? ''
+		};
+	}
+
+	// Caminhos locais (inclusive C:\ no Windows) não são remotes scp
+	if (/^([a-z]:)?[\\/]/i.test(trimmed) || trimmed.startsWith('.')) {
+		return { protocol: 'file', host: '', path: trimmed };
+	}
+
+	const scpLike = /^(?:([^@/:]+)@)?([^:/]+):(.*)$/.exec(trimmed);
+	if (scpLike?.[2]) {
+		return { protocol: 'ssh', user: scpLike[1], host: scpLike[2], path: (scpLike[3] ?? '').replace(/^\//, '') };
+	}
+	return null;
+}
+
+/**
+ * Monta a URL de volta; SSH na porta padrão usa o formato scp
+ */
+export function formatRemoteUrl(location: RemoteLocation): string {
+	if (location.protocol === 'file') {
+		return location.host ? `file://${location.host}/${location.path}` : location.path;
+	}
+	const host = location.host.includes(':') ? `[${location.host}]` : location.host;
+	if (location.protocol === 'ssh' && !location.port) {
+		return `${location.user ? `${location.user}@` : ''}${host}:${location.path}`;
+	}
+	const user = location.user ? `${location.user}@` : '';
+	const port = location.port ? `:${location.port}` : '';
+	return `${location.protocol}://${user}${host}${port}/${location.path}`;
+}
+
+/**
+ * Converte para HTTPS no mesmo host. A porta SSH não vale para o HTTPS, então é descartada.
+ */
+export function toHttpsLocation(location: RemoteLocation): RemoteLocation {
+	if (location.protocol === 'https' || location.protocol === 'http' || location.protocol === 'file') {
+		return { ...location, user: undefined };
+	}
+	return { protocol: 'https', host: location.host, path: location.path };
+}
+
+/**
+ * Converte para SSH no mesmo host, com o usuário `git` usado por todos os serviços suportados
+ */
+export function toSshLocation(location: RemoteLocation): RemoteLocation {
+	if (location.protocol === 'ssh' || location.protocol === 'file') {
+		return location;
+	}
+	return { protocol: 'ssh', user: 'git', host: location.host, path: location.path };
+}
+
+/**
+ * Deduz o serviço pelo host (servidores próprios caem em `generic`, exceto hosts que se identificam)
+ */
+export function detectProvider(url: string): GitProvider {
+	const host = parseRemoteUrl(url)?.host.toLowerCase() ?? '';
+	if (host === 'github.com' || host.endsWith('.github.com')) {
+		return 'github';
+	}
+	if (host === 'bitbucket.org' || host.includes('bitbucket')) {
+		return 'bitbucket';
+	}
+	if (host.includes('gitlab')) {
+		return 'gitlab';
+	}
+	if (host.includes('gitea') || host.includes('forgejo') || host === 'codeberg.org') {
+		return 'gitea';
+	}
+	return 'generic';
+}
+
+/**
+ * Usuário do HTTPS quando a senha é um token: o configurado explicitamente ou a convenção do serviço
+ */
+export function tokenUsername(provider: GitProvider, override?: string): string {
+	return override?.trim() || TOKEN_USERNAMES[provider];
+}
+
+/**
+ * A URL aponta para um repositório (e não só para o servidor ou um usuário)?
+ */
+export function isCompleteRemoteUrl(url: string): boolean {
+	const location = parseRemoteUrl(url);
+	if (!location || url.trim().endsWith('/')) {
+		return false;
+	}
+	if (location.protocol === 'file') {
+		return location.path.length > 0;
+	}
+	// Nos serviços conhecidos o repositório sempre fica sob um dono (usuário, grupo ou workspace)
+	const segments = location.path.split('/').filter(segment => segment);
+	const minimum = detectProvider(url) === 'generic' ? 1 : 2;
+	return location.host.length > 0 && segments.length >= minimum;
+}
@@ -1,5 +1,11 @@
 import { App, PluginSettingTab, Setting } from "obsidian";
+import * as os from "os";
 import MyPlugin from "./main";
+import { detectProvider, GIT_PROVIDERS, GitProvider, providerLabel } from "./remoteUrl";
+import { CommitFileChange, deviceBranchName, PullStrategy } from "./gitManager";
+import { GitBackendSetting } from "./gitBackend";
+import { t } from "./i18n";
+import { SquashMode } from "./squash";
 
 export interface MyPluginSettings {
 	githubRepoUrl: string;
@@ -7,30 +13,95 @@ export interface MyPluginSettings {
 	githubUserName: string;
 	githubUserEmail: string;
 	githubToken: string;
+	gitProvider: GitProvider | 'auto';
+	tokenUsername: string;
 	useSSH: boolean;
 	sshKeyPath: string;
 	sshKeyPassphrase: string;
 	autoSyncOnOpen: boolean;
 	autoSyncOnSave: boolean;
 	commitMessageTemplate: string;
+	dateFormat: string; // formato do moment; vazio = padrão do idioma
+	commitFileLimit: number; // 0 = todos
+	deviceName: string; // vazio = hostname
 	syncInterval: number; // em minutos
+	squashMode: SquashMode;
+	deviceBranches: boolean; // commits em devices/<nome do dispositivo>
+	gitBackend: GitBackendSetting; // auto = git do sistema, se instalado
+	markdownMerge: boolean;
+	excludedPaths: string[];
+	pullStrategy: PullStrategy;
+	autostash: boolean;
+	snapshotRetention: number; // 0 = sem pontos de restauração
+	massChangeLimit: number; // arquivos; 0 = sem limite
+	massChangePercent: number; // % dos arquivos versionados; 0 = sem limite
+	lfsEnabled: boolean;
+	lfsExtensions: string[];
+	lfsSizeThresholdMb: number; // 0 = só por extensão
+	largeFileWarningMb: number; // 0 = sem aviso
+	encryptionEnabled: boolean;
+	encryptedPaths: string[]; // pastas (com /), extensões ou padrões do .gitattributes
+}
+
+/**
+ * Predefinição de exclusões: arquivos que mudam a cada sessão e só geram conflitos entre dispositivos
+ */
+export function defaultExcludedPaths(configDir: string): string[] {
+	return [
+		`${configDir}/workspace.json`,
+		`${configDir}/workspace-mobile.json`,
+		`${configDir}/cache`,
+		'.trash/',
+		'.DS_Store',
+		'Thumbs.db'
+	];
 }
 
 export const DEFAULT_SETTINGS: MyPluginSettings = {
 	githubRepoUrl: '',
-	githubBranch: 'main',
+	githubBranch: '',
 	githubUserName: 'Obsidian User',
 	githubUserEmail: 'user@example.com',
 	githubToken: '',
+	gitProvider: 'auto',
+	tokenUsername: '',
 	useSSH: false,
 	sshKeyPath: '~/.ssh/id_rsa',
 	sshKeyPassphrase: '',
 	autoSyncOnOpen: true,
 	autoSyncOnSave: true,
 	commitMessageTemplate: '[Obsidian Sync] {date}{files}',
-	syncInterval: 30
+	dateFormat: '',
+	commitFileLimit: 10,
+	deviceName: '',
+	syncInterval: 30,
+	squashMode: 'off',
+	deviceBranches: false,
+	gitBackend: 'auto',
+	markdownMerge: true,
+	// Preenchido com defaultExcludedPaths() ao carregar, pois depende da pasta de configuração do vault
+	excludedPaths: [],
+	pullStrategy: 'merge',
+	autostash: true,
+	snapshotRetention: 10,
+	massChangeLimit: 50,
+	massChangePercent: 25,
+	lfsEnabled: false,
+	lfsExtensions: ['pdf', 'png', 'jpg', 'jpeg', 'gif', 'webp', 'mp3', 'm4a', 'wav', 'ogg', 'mp4', 'mov', 'webm', 'zip'],
+	lfsSizeThresholdMb: 0,
+	largeFileWarningMb: 10,
+	encryptionEnabled: false,
+	encryptedPaths: ['md']
 }
 
+// Alterações de exemplo para a prévia da mensagem de commit
+const PREVIEW_CHANGES: CommitFileChange[] = [
+	{ status: 'M', path: 'Inbox.md' },
+	{ status: 'A', path: 'Daily/2024-05-01.md' },
+	{ status: 'R', path: 'Projects/Plan.md', oldPath: 'Draft.md' },
+	{ status: 'D', path: 'Archive/Old.md' }
+];
+
 export class SampleSettingTab extends PluginSettingTab {
 	plugin: MyPlugin;
 
@@ -44,11 +115,18 @@ export class SampleSettingTab extends PluginSettingTab {
 
 		containerEl.empty();
 
-		containerEl.createEl('h2', { text: 'GitHub Sync Settings' });
+		new Setting(containerEl).setName(t('settings.title')).setHeading();
+
+		new Setting(containerEl)
+			.setName(t('settings.setup.name'))
+			.setDesc(t('settings.setup.desc'))
+			.addButton(button => button
+				.setButtonText(t('settings.setup.button'))
+				.onClick(() => void this.plugin.openSetupWizard()));
 
 		new Setting(containerEl)
-			.setName('GitHub Repository URL')
-			.setDesc('URL do seu repositório GitHub (ex: https://github.com/user/repo.git ou git@github.com:user/repo.git)')
+			.setName(t('settings.repoUrl.name'))
+			.setDesc(t('settings.repoUrl.desc'))
 			.addText(text => text
 				.setPlaceholder('https://github.com/user/repo.git')
 				.setValue(this.plugin.settings.githubRepoUrl)
@@ -58,21 +136,37 @@ export class SampleSettingTab extends PluginSettingTab {
 				}));
 
 		new Setting(containerEl)
-			.setName('GitHub Branch')
-			.setDesc('Branch padrão para sincronização')
+			.setName(t('settings.provider.name'))
+			.setDesc(t('settings.provider.desc'))
+			.addDropdown(dropdown => {
+				dropdown.addOption('auto', t('settings.provider.auto', { provider: providerLabel(detectProvider(this.plugin.settings.githubRepoUrl)) }));
+				for (const provider of GIT_PROVIDERS) {
+					dropdown.addOption(provider, providerLabel(provider));
+				}
+				dropdown
+					.setValue(this.plugin.settings.gitProvider)
+					.onChange(async (value) => {
+						this.plugin.settings.gitProvider = value as GitProvider | 'auto';
+						await this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName(t('settings.branch.name'))
+			.setDesc(t('settings.branch.desc'))
 			.addText(text => text
-				.setPlaceholder('main')
+				.setPlaceholder(t('settings.branch.placeholder'))
 				.setValue(this.plugin.settings.githubBranch)
 				.onChange(async (value) => {
-					this.plugin.settings.githubBranch = value || 'main';
+					this.plugin.settings.githubBranch = value.trim();
 					await this.plugin.saveSettings();
 				}));
 
 		new Setting(containerEl)
-			.setName('GitHub User Name')
-			.setDesc('Nome do usuário GitHub para commits')
+			.setName(t('settings.userName.name'))
+			.setDesc(t('settings.userName.desc'))
 			.addText(text => text
-				.setPlaceholder('Your Name')
+				.setPlaceholder(t('settings.userName.placeholder'))
 				.setValue(this.plugin.settings.githubUserName)
 				.onChange(async (value) => {
 					this.plugin.settings.githubUserName = value;
@@ -80,8 +174,8 @@ export class SampleSettingTab extends PluginSettingTab {
 				}));
 
 		new Setting(containerEl)
-			.setName('GitHub User Email')
-			.setDesc('Email do usuário GitHub para commits')
+			.setName(t('settings.userEmail.name'))
+			.setDesc(t('settings.userEmail.desc'))
 			.addText(text => text
 				.setPlaceholder('user@example.com')
 				.setValue(this.plugin.settings.githubUserEmail)
@@ -90,11 +184,11 @@ export class SampleSettingTab extends PluginSettingTab {
 					await this.plugin.saveSettings();
 				}));
 
-		containerEl.createEl('h3', { text: 'Autenticação' });
+		new Setting(containerEl).setName(t('settings.auth.heading')).setHeading();
 
 		new Setting(containerEl)
-			.setName('Usar SSH Key')
-			.setDesc('Usar SSH key para autenticação em vez de token pessoal')
+			.setName(t('settings.useSsh.name'))
+			.setDesc(t('settings.useSsh.desc'))
 			.addToggle(toggle => toggle
 				.setValue(this.plugin.settings.useSSH)
 				.onChange(async (value) => {
@@ -105,8 +199,8 @@ export class SampleSettingTab extends PluginSettingTab {
 
 		if (this.plugin.settings.useSSH) {
 			new Setting(containerEl)
-				.setName('SSH Key Path')
-				.setDesc('Caminho para sua SSH key privada (ex: ~/.ssh/id_rsa ou C:\\Users\\YourUser\\.ssh\\id_rsa)')
+				.setName(t('settings.sshKeyPath.name'))
+				.setDesc(t('settings.sshKeyPath.desc'))
 				.addText(text => text
 					.setPlaceholder('~/.ssh/id_rsa')
 					.setValue(this.plugin.settings.sshKeyPath)
@@ -116,10 +210,10 @@ export class SampleSettingTab extends PluginSettingTab {
 					}));
 
 			new Setting(containerEl)
-				.setName('SSH Key Passphrase (opcional)')
-				.setDesc('Senha da SSH key se ela for protegida por passphrase')
+				.setName(t('settings.sshPassphrase.name'))
+				.setDesc(t('settings.sshPassphrase.desc'))
 				.addText(text => text
-					.setPlaceholder('Deixe em branco se não houver passphrase')
+					.setPlaceholder(t('settings.sshPassphrase.placeholder'))
 					.setValue(this.plugin.settings.sshKeyPassphrase)
 					.onChange(async (value) => {
 						this.plugin.settings.sshKeyPassphrase = value;
@@ -127,8 +221,8 @@ export class SampleSettingTab extends PluginSettingTab {
 					}));
 		} else {
 			new Setting(containerEl)
-				.setName('GitHub Personal Access Token')
-				.setDesc('Token de acesso pessoal para autenticação HTTPS')
+				.setName(t('settings.token.name'))
+				.setDesc(t('settings.token.desc'))
 				.addText(text => text
 					.setPlaceholder('ghp_xxxxx')
 					.setValue(this.plugin.settings.githubToken)
@@ -136,13 +230,24 @@ export class SampleSettingTab extends PluginSettingTab {
 						this.plugin.settings.githubToken = value;
 						await this.plugin.saveSettings();
 					}));
+
+			new Setting(containerEl)
+				.setName(t('settings.tokenUsername.name'))
+				.setDesc(t('settings.tokenUsername.desc'))
+				.addText(text => text
+					.setPlaceholder(t('settings.tokenUsername.placeholder'))
+					.setValue(this.plugin.settings.tokenUsername)
+					.onChange(async (value) => {
+						this.plugin.settings.tokenUsername = value.trim();
+						await this.plugin.saveSettings();
+					}));
 		}
 
-		containerEl.createEl('h3', { text: 'Sync Options' });
+		new Setting(containerEl).setName(t('settings.sync.heading')).setHeading();
 
 		new Setting(containerEl)
-			.setName('Auto-sync on Vault Open')
-			.setDesc('Sincronizar automaticamente ao abrir o Obsidian')
+			.setName(t('settings.syncOnOpen.name'))
+			.setDesc(t('settings.syncOnOpen.desc'))
 			.addToggle(toggle => toggle
 				.setValue(this.plugin.settings.autoSyncOnOpen)
 				.onChange(async (value) => {
@@ -151,8 +256,8 @@ export class SampleSettingTab extends PluginSettingTab {
 				}));
 
 		new Setting(containerEl)
-			.setName('Auto-sync on File Save')
-			.setDesc('Sincronizar automaticamente ao salvar um arquivo')
+			.setName(t('settings.syncOnSave.name'))
+			.setDesc(t('settings.syncOnSave.desc'))
 			.addToggle(toggle => toggle
 				.setValue(this.plugin.settings.autoSyncOnSave)
 				.onChange(async (value) => {
@@ -161,19 +266,69 @@ export class SampleSettingTab extends PluginSettingTab {
 				}));
 
 		new Setting(containerEl)
-			.setName('Commit Message Template')
-			.setDesc('Template para mensagem de commit. Use {date} para data/hora e {files} para lista de arquivos alterados')
+			.setName(t('settings.commitTemplate.name'))
+			.setDesc(t('settings.commitTemplate.desc'))
 			.addTextArea(text => text
 				.setPlaceholder('[Obsidian Sync] {date}{files}')
 				.setValue(this.plugin.settings.commitMessageTemplate)
 				.onChange(async (value) => {
 					this.plugin.settings.commitMessageTemplate = value;
 					await this.plugin.saveSettings();
+					updatePreview();
+				}));
+
+		const preview = new Setting(containerEl)
+			.setName(t('settings.commitPreview.name'))
+			.setDesc(t('settings.commitPreview.desc'));
+		const previewEl = preview.descEl.createEl('pre', { cls: 'github-sync-commit-preview' });
+		const updatePreview = () => previewEl.setText(this.plugin.getCommitMessage(PREVIEW_CHANGES));
+		updatePreview();
+
+		new Setting(containerEl)
+			.setName(t('settings.dateFormat.name'))
+			.setDesc(t('settings.dateFormat.desc'))
+			.addMomentFormat(format => format
+				.setValue(this.plugin.settings.dateFormat)
+				.onChange(async (value) => {
+					this.plugin.settings.dateFormat = value.trim();
+					await this.plugin.saveSettings();
+					updatePreview();
 				}));
 
 		new Setting(containerEl)
-			.setName('Auto-sync Interval')
-			.setDesc('Intervalo em minutos para sincronização automática em background (0 para desativar)')
+			.setName(t('settings.commitFileLimit.name'))
+			.setDesc(t('settings.commitFileLimit.desc'))
+			.addText(text => text
+				.setPlaceholder('10')
+				.setValue(String(this.plugin.settings.commitFileLimit))
+				.onChange(async (value) => {
+					const limit = Number(value);
+					if (Number.isInteger(limit) && limit >= 0) {
+						this.plugin.settings.commitFileLimit = limit;
+						await this.plugin.saveSettings();
+						updatePreview();
+					}
+				}));
+
+		new Setting(containerEl)
+			.setName(t('settings.deviceName.name'))
+			.setDesc(t('settings.deviceName.desc'))
+			.addText(text => text
+				.setPlaceholder(os.hostname())
+				.setValue(this.plugin.settings.deviceName)
+				.onChange(async (value) => {
+					this.plugin.settings.deviceName = value;
+					await this.plugin.saveSettings();
+					updatePreview();
+					if (this.plugin.settings.deviceBranches) {
+						// O nome define a branch do dispositivo: recriar o GitManager na próxima sincronização
+						this.plugin.gitManager = null;
+					}
+				}));
+
+		new Setting(containerEl)
+			.setName(t('settings.interval.name'))
+			.setDesc(t('settings.interval.desc'))
 			.addSlider(slider => slider
 				.setLimits(0, 120, 5)
 				.setValue(this.plugin.settings.syncInterval)
@@ -182,5 +337,242 @@ export class SampleSettingTab extends PluginSettingTab {
 					this.plugin.settings.syncInterval = value;
 					await this.plugin.saveSettings();
 				}));
+
+		new Setting(containerEl)
+			.setName(t('settings.squashMode.name'))
+			.setDesc(t('settings.squashMode.desc'))
+			.addDropdown(dropdown => dropdown
+				.addOption('off', t('settings.squashMode.off'))
+				.addOption('push', t('settings.squashMode.push'))
+				.addOption('hour', t('settings.squashMode.hour'))
+				.addOption('day', t('settings.squashMode.day'))
+				.setValue(this.plugin.settings.squashMode)
+				.onChange(async (value) => {
+					this.plugin.settings.squashMode = value as SquashMode;
+					await this.plugin.saveSettings();
+				}));
+
+		// Branches por dispositivo e rebase não existem no backend JavaScript
+		const jsBackend = this.plugin.settings.gitBackend === 'js' || this.plugin.gitBackend === 'js';
+		new Setting(containerEl)
+			.setName(t('settings.deviceBranches.name'))
+			.setDesc(jsBackend ? t('settings.deviceBranches.unavailable') : t('settings.deviceBranches.desc', {
+				branch: deviceBranchName(this.plugin.getDeviceName()),
+				shared: this.plugin.settings.githubBranch || 'main'
+			}))
+			.addToggle(toggle => toggle
+				.setDisabled(jsBackend)
+				.setValue(this.plugin.settings.deviceBranches && !jsBackend)
+				.onChange(async (value) => {
+					this.plugin.settings.deviceBranches = value;
+					await this.plugin.saveSettings();
+					// A troca de branch acontece ao inicializar o GitManager
+					this.plugin.gitManager = null;
+				}));
+
+		new Setting(containerEl)
+			.setName(t('settings.gitBackend.name'))
+			.setDesc(t('settings.gitBackend.desc'))
+			.addDropdown(dropdown => dropdown
+				.addOption('auto', t('settings.gitBackend.auto'))
+				.addOption('system', t('settings.gitBackend.system'))
+				.addOption('js', t('settings.gitBackend.js'))
+				.setValue(this.plugin.settings.gitBackend)
+				.onChange(async (value) => {
+					this.plugin.settings.gitBackend = value as GitBackendSetting;
+					await this.plugin.saveSettings();
+					// O backend é escolhido ao criar o GitManager
+					this.plugin.gitManager = null;
+					this.plugin.gitBackend = null;
+					this.display();
+				}));
+
+		new Setting(containerEl)
+			.setName(t('settings.markdownMerge.name'))
+			.setDesc(t('settings.markdownMerge.desc'))
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.markdownMerge)
+				.onChange(async (value) => {
+					this.plugin.settings.markdownMerge = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName(t('settings.pullStrategy.name'))
+			.setDesc(jsBackend ? `${t('settings.pullStrategy.desc')}. ${t('settings.pullStrategy.rebaseUnavailable')}` : t('settings.pullStrategy.desc'))
+			.addDropdown(dropdown => dropdown
+				.addOption('merge', t('settings.pullStrategy.merge'))
+				.addOption('rebase', t('settings.pullStrategy.rebase'))
+				.addOption('ff-only', t('settings.pullStrategy.ffOnly'))
+				.setValue(this.plugin.settings.pullStrategy)
+				.onChange(async (value) => {
+					this.plugin.settings.pullStrategy = value as PullStrategy;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName(t('settings.autostash.name'))
+			.setDesc(t('settings.autostash.desc'))
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.autostash)
+				.onChange(async (value) => {
+					this.plugin.settings.autostash = value;
+					await this.plugin.saveSettings();
+				}));
+
+		new Setting(containerEl)
+			.setName(t('settings.snapshotRetention.name'))
+			.setDesc(t('settings.snapshotRetention.desc'))
+			.addText(text => text
+				.setPlaceholder('10')
+				.setValue(String(this.plugin.settings.snapshotRetention))
+				.onChange(async (value) => {
+					const retention = Number(value);
+					if (Number.isInteger(retention) && retention >= 0) {
+						this.plugin.settings.snapshotRetention = retention;
+						await this.plugin.saveSettings();
+					}
+				}));
+
+		new Setting(containerEl)
+			.setName(t('settings.massChangeLimit.name'))
+			.setDesc(t('settings.massChangeLimit.desc'))
+			.addText(text => text
+				.setPlaceholder('50')
+				.setValue(String(this.plugin.settings.massChangeLimit))
+				.onChange(async (value) => {
+					const limit = Number(value);
+					if (Number.isInteger(limit) && limit >= 0) {
+						this.plugin.settings.massChangeLimit = limit;
+						await this.plugin.saveSettings();
+					}
+				}));
+
+		new Setting(containerEl)
+			.setName(t('settings.massChangePercent.name'))
+			.setDesc(t('settings.massChangePercent.desc'))
+			.addText(text => text
+				.setPlaceholder('25')
+				.setValue(String(this.plugin.settings.massChangePercent))
+				.onChange(async (value) => {
+					const percent = Number(value);
+					if (Number.isFinite(percent) && percent >= 0 && percent <= 100) {
+						this.plugin.settings.massChangePercent = percent;
+						await this.plugin.saveSettings();
+					}
+				}));
+
+		new Setting(containerEl)
+			.setName(t('settings.lfs.name'))
+			.setDesc(t('settings.lfs.desc'))
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.lfsEnabled)
+				.onChange(async (value) => {
+					this.plugin.settings.lfsEnabled = value;
+					await this.plugin.saveSettings();
+					await this.plugin.applyLfsSettings();
+					this.display();
+				}));
+
+		if (this.plugin.settings.lfsEnabled) {
+			new Setting(containerEl)
+				.setName(t('settings.lfsExtensions.name'))
+				.setDesc(t('settings.lfsExtensions.desc'))
+				.addText(text => {
+					text
+						.setPlaceholder(t('settings.lfsExtensions.placeholder'))
+						.setValue(this.plugin.settings.lfsExtensions.join(', '))
+						.onChange(async (value) => {
+							this.plugin.settings.lfsExtensions = value.split(',').map(ext => ext.trim()).filter(ext => ext);
+							await this.plugin.saveSettings();
+						});
+					text.inputEl.addEventListener('blur', () => void this.plugin.applyLfsSettings());
+				});
+
+			new Setting(containerEl)
+				.setName(t('settings.lfsThreshold.name'))
+				.setDesc(t('settings.lfsThreshold.desc'))
+				.addText(text => text
+					.setPlaceholder('0')
+					.setValue(String(this.plugin.settings.lfsSizeThresholdMb))
+					.onChange(async (value) => {
+						const size = Number(value);
+						if (!isNaN(size) && size >= 0) {
+							this.plugin.settings.lfsSizeThresholdMb = size;
+							await this.plugin.saveSettings();
+							await this.plugin.applyLfsSettings();
+						}
+					}));
+		} else {
+			new Setting(containerEl)
+				.setName(t('settings.largeFileWarning.name'))
+				.setDesc(t('settings.largeFileWarning.desc'))
+				.addText(text => text
+					.setPlaceholder('10')
+					.setValue(String(this.plugin.settings.largeFileWarningMb))
+					.onChange(async (value) => {
+						const size = Number(value);
+						if (!isNaN(size) && size >= 0) {
+							this.plugin.settings.largeFileWarningMb = size;
+							await this.plugin.saveSettings();
+						}
+					}));
+		}
+
+		new Setting(containerEl)
+			.setName(t('settings.encryption.name'))
+			.setDesc(t('settings.encryption.desc'))
+			.addToggle(toggle => toggle
+				.setValue(this.plugin.settings.encryptionEnabled)
+				.onChange(async (value) => {
+					if (value) {
+						await this.plugin.enableEncryption();
+					} else {
+						await this.plugin.disableEncryption();
+					}
+					this.display();
+				}));
+
+		if (this.plugin.settings.encryptionEnabled) {
+			new Setting(containerEl)
+				.setName(t('settings.encryptedPaths.name'))
+				.setDesc(t('settings.encryptedPaths.desc'))
+				.addTextArea(text => {
+					text
+						.setValue(this.plugin.settings.encryptedPaths.join('\n'))
+						.onChange(async (value) => {
+							this.plugin.settings.encryptedPaths = value.split('\n').map(p => p.trim()).filter(p => p);
+							await this.plugin.saveSettings();
+						});
+					// Aplicar só ao sair do campo: cada mudança reprocessa os arquivos afetados
+					text.inputEl.addEventListener('blur', () => void this.plugin.applyEncryptionSettings());
+					text.inputEl.rows = 4;
+				});
+		}
+
+		new Setting(containerEl)
+			.setName(t('settings.excludedPaths.name'))
+			.setDesc(t('settings.excludedPaths.desc'))
+			.addTextArea(text => {
+				text
+					.setPlaceholder(`${this.app.vault.configDir}/workspace.json`)
+					.setValue(this.plugin.settings.excludedPaths.join('\n'))
+					.onChange(async (value) => {
+						this.plugin.settings.excludedPaths = value.split('\n').map(p => p.trim()).filter(p => p);
+						await this.plugin.saveSettings();
+					});
+				// Aplicar só ao sair do campo, não a cada tecla
+				text.inputEl.addEventListener('blur', () => void this.plugin.applyExclusions());
+				text.inputEl.rows = 6;
+			})
+			.addExtraButton(button => button
+				.setIcon('reset')
+				.setTooltip(t('settings.excludedPaths.reset'))
+				.onClick(async () => {
+					this.plugin.settings.excludedPaths = defaultExcludedPaths(this.app.vault.configDir);
+					await this.plugin.saveSettings();
+					await this.plugin.applyExclusions();
+					this.display();
+				}));
 	}
 }
@@ -0,0 +1,220 @@
+import { App, Modal, Setting } from 'obsidian';
+import MyPlugin from './main';
+import { GitManager, SetupMode } from './gitManager';
+import { confirmFiles } from './confirmModal';
+import { t } from './i18n';
+
+/**
+ * Assistente de primeira configuração: testa a conexão, escolhe a branch e como juntar
+ * este vault ao remoto (novo repositório, clone, repositório existente ou merge)
+ */
+export class SetupWizardModal extends Modal {
+	plugin: MyPlugin;
+	// Branches do remoto (null = conexão ainda não testada)
+	private branches: string[] | null = null;
+	private defaultBranch: string | null = null;
+	private modes: SetupMode[] = [];
+	private branch = '';
+	private mode: SetupMode = 'new';
+	private status: string | null = null;
+	private error: string | null = null;
+	private busy = false;
+
+	constructor(app: App, plugin: MyPlugin) {
+		super(app);
+		this.plugin = plugin;
+	}
+
+	onOpen() {
+		this.titleEl.setText(t('setup.title'));
+		this.render();
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+
+	private render() {
+		const { contentEl } = this;
+		contentEl.empty();
+		if (this.branches === null) {
+			this.renderConnection(contentEl);
+		} else {
+			this.renderChoice(contentEl, this.branches);
+		}
+		if (this.status) {
+			contentEl.createEl('p', { text: this.status });
+		}
+		if (this.error) {
+			contentEl.createEl('p', { text: `❌ ${this.error}`, cls: 'github-sync-setup-error' });
+		}
+	}
+
+	/**
+	 * Passo 1: testar a conexão com o repositório configurado
+	 */
+	private renderConnection(containerEl: HTMLElement) {
+		const url = this.plugin.settings.githubRepoUrl;
+		containerEl.createEl('p', { text: t('setup.connectDescription') });
+		new Setting(containerEl)
+			.setName(t('settings.repoUrl.name'))
+			.setDesc(url || t('setup.noUrl'));
+		new Setting(containerEl)
+			.addButton(button => button
+				.setButtonText(t('setup.testConnection'))
+				.setCta()
+				.setDisabled(this.busy || !url)
+				.onClick(() => void this.testConnection()));
+	}
+
+	/**
+	 * Passo 2: escolher a branch e a forma de juntar este vault ao remoto
+	 */
+	private renderChoice(containerEl: HTMLElement, branches: string[]) {
+		containerEl.createEl('p', {
+			text: branches.length > 0 ? t('setup.connected', { count: branches.length }) : t('setup.emptyRemote')
+		});
+
+		const branchSetting = new Setting(containerEl)
+			.setName(t('setup.branch.name'))
+			.setDesc(t('setup.branch.desc'));
+		if (branches.length > 0) {
+			branchSetting.addDropdown(dropdown => {
+				for (const branch of branches) {
+					dropdown.addOption(branch, branch === this.defaultBranch ? t('setup.branch.default', { branch }) : branch);
+				}
+				dropdown
+					.setValue(this.branch)
+					.onChange(value => this.branch = value);
+			});
+		} else {
+			branchSetting.addText(text => text
+				.setValue(this.branch)
+				.onChange(value => this.branch = value.trim()));
+		}
+
+		new Setting(containerEl)
+			.setName(t('setup.mode.name'))
+			.setDesc(t(`setup.mode.${this.mode}.desc`))
+			.addDropdown(dropdown => {
+				for (const mode of this.modes) {
+					dropdown.addOption(mode, t(`setup.mode.${mode}`));
+				}
+				dropdown
+					.setValue(this.mode)
+					.onChange(value => {
+						this.mode = value as SetupMode;
+						this.render();
+					});
+			});
+
+		new Setting(containerEl)
+			.addButton(button => button
+				.setButtonText(t('setup.back'))
+				.setDisabled(this.busy)
+				.onClick(() => {
+					this.branches = null;
+					this.error = null;
+					this.render();
+				}))
+			.addButton(button => button
+				.setButtonText(t('setup.start'))
+				.setCta()
+				.setDisabled(this.busy)
+				.onClick(() => void this.start()));
+	}
+
+	private setBusy(status: string | null) {
+		this.busy = status !== null;
+		this.status = status;
+		this.render();
+	}
+
+	private async testConnection() {
+		this.error = null;
+		this.setBusy(t('setup.testing'));
+		const gitManager = this.plugin.createGitManager();
+		const remote = await gitManager.inspectRemote();
+		if (!remote.ok) {
+			this.error = this.plugin.describeGitError(remote.error);
+			this.setBusy(null);
+			return;
+		}
+
+		const configured = this.plugin.settings.githubBranch;
+		this.branches = remote.branches;
+		this.defaultBranch = remote.defaultBranch;
+		this.branch = remote.branches.includes(configured) ? configured : (remote.defaultBranch ?? (configured || 'main'));
+		this.modes = await this.availableModes(gitManager, remote.branches.length > 0);
+		this.mode = this.modes[0] ?? 'new';
+		this.setBusy(null);
+	}
+
+	/**
+	 * Ações possíveis conforme o estado do remoto e do vault local
+	 */
+	private async availableModes(gitManager: GitManager, remoteHasBranches: boolean): Promise<SetupMode[]> {
+		if (!remoteHasBranches) {
+			return ['new'];
+		}
+		const hasHistory = !(await gitManager.needsSetup());
+		const isEmpty = this.app.vault.getFiles().length === 0;
+		const modes: SetupMode[] = [];
+		if (hasHistory) {
+			modes.push('adopt');
+		}
+		if (isEmpty && !hasHistory) {
+			modes.push('clone');
+		}
+		if (!isEmpty) {
+			modes.push('merge');
+		}
+		return modes;
+	}
+
+	private async start() {
+		if (!this.branch) {
+			return;
+		}
+		this.error = null;
+		this.plugin.settings.githubBranch = this.branch;
+		await this.plugin.saveSettings();
+		const gitManager = this.plugin.createGitManager();
+
+		// Antes de juntar históricos sem relação, mostrar os arquivos que vão colidir
+		if (this.mode === 'merge') {
+			this.setBusy(t('setup.working'));
+			const overlap = await gitManager.getMergeOverlap();
+			this.setBusy(null);
+			if (!overlap.ok) {
+				this.error = this.plugin.describeGitError(overlap.error);
+				this.render();
+				return;
+			}
+			if (overlap.files.length > 0) {
+				const confirmed = await confirmFiles(this.app, {
+					title: t('setup.overlap.title'),
+					description: t('setup.overlap.description', { count: overlap.files.length }),
+					files: overlap.files,
+					confirmText: t('setup.overlap.confirm'),
+					warning: true
+				});
+				if (!confirmed) {
+					return;
+				}
+			}
+		}
+
+		this.setBusy(t('setup.working'));
+		const mode = this.mode;
+		const result = await this.plugin.syncEngine.runExclusive(() => gitManager.setupRepository(mode, t('setup.commitMessage')));
+		this.setBusy(null);
+		if (!result.ok && result.error.code !== 'conflict') {
+			this.error = this.plugin.describeGitError(result.error);
+			this.render();
+			return;
+		}
+		this.close();
+		await this.plugin.completeSetup(gitManager, mode, result);
+	}
+}
@@ -0,0 +1,257 @@
+import { LogOptions, SimpleGit } from 'simple-git';
+import { Buffer } from 'buffer';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+	BackendStatus,
+	BranchList,
+	CheckoutOptions,
+	GitBackend,
+	LogEntry,
+	LogQuery,
+	MergeState,
+	PullOptions,
+	PullStrategy,
+	RemoteInfo,
+	RemoteRefs
+} from './gitBackend';
+
+const PULL_STRATEGY_ARGS: Record<PullStrategy, string> = {
+	merge: '--no-rebase',
+	rebase: '--rebase',
+	'ff-only': '--ff-only'
+};
+
+/**
+ * Backend com o executável do git do sistema. O simple-git fica exposto para os recursos que só
+ * existem nele (LFS, filtros, snapshots, rebase, diffs).
+ */
+export class SimpleGitBackend implements GitBackend {
+	readonly kind = 'system';
+	readonly git: SimpleGit;
+	private repoPath: string;
+
+	constructor(git: SimpleGit, repoPath: string) {
+		this.git = git;
+		this.repoPath = repoPath;
+	}
+
+	async isRepository(): Promise<boolean> {
+		try {
+			await this.git.revparse(['--git-dir']);
+			return true;
+		} catch (error) {
+			const message = error instanceof Error ? error.message : String(error);
+			if (message.toLowerCase().includes('not a git repository')) {
+				return false;
+			}
+			throw error;
+		}
+	}
+
+	async init(): Promise<void> {
+		await this.git.init();
+	}
+
+	async setConfig(key: string, value: string): Promise<void> {
+		await this.git.addConfig(key, value);
+	}
+
+	async status(): Promise<BackendStatus> {
+		const status = await this.git.status();
+		return {
+			current: status.current,
+			tracking: status.tracking,
+			ahead: status.ahead,
+			behind: status.behind,
+			files: status.files,
+			conflicted: status.conflicted,
+			staged: status.staged
+		};
+	}
+
+	async listTrackedFiles(): Promise<string[]> {
+		return (await this.git.raw(['ls-files', '-z'])).split('\0').filter(f => f);
+	}
+
+	async add(paths: string[] | 'all'): Promise<void> {
+		if (paths === 'all') {
+			await this.git.add('.');
+			return;
+		}
+		// Em lotes, para não estourar o limite de tamanho da linha de comando
+		for (let i = 0; i < paths.length; i += 100) {
+			await this.git.raw(['add', '-A', '--', ...paths.slice(i, i + 100)]);
+		}
+	}
+
+	async unstage(paths: string[]): Promise<void> {
+		try {
+			await this.git.raw(['reset', '-q', 'HEAD', '--', ...paths]);
+		} catch {
+			// Repositório sem commits ainda: não há HEAD para onde voltar
+			await this.git.raw(['rm', '--cached', '-r', '-q', '--', ...paths]);
+		}
+	}
+
+	async restore(paths: string[]): Promise<void> {
+		let inHead: string[] = [];
+		try {
+			inHead = (await this.git.raw(['ls-tree', '-r', '-z', '--name-only', 'HEAD', '--', ...paths])).split('\0').filter(f => f);
+		} catch {
+			// Sem HEAD: nenhum arquivo para restaurar, todos são apagados
+		}
+		const removed = paths.filter(file => !inHead.includes(file));
+		if (removed.length > 0) {
+			await this.git.raw(['rm', '-f', '-q', '--ignore-unmatch', '--', ...removed]);
+		}
+		if (inHead.length > 0) {
+			await this.git.raw(['checkout', '-q', 'HEAD', '--', ...inHead]);
+		}
+	}
+
+	async checkoutConflict(file: string, side: 'ours' | 'theirs'): Promise<void> {
+		await this.git.checkout([`--${side}`, file]);
+	}
+
+	async commit(message: string | null, paths?: string[]): Promise<void> {
+		if (message === null) {
+			const output = await this.git.raw(['commit', '--no-edit']);
+			// Recusas que o git só informa no stdout não rejeitam no simple-git; o merge concluído apaga o MERGE_HEAD
+			if (await this.gitPathExists('MERGE_HEAD')) {
+				throw new Error(output.trim() || 'Commit do merge não foi criado');
+			}
+		} else if (paths) {
+			await this.git.raw(['commit', '-m', message, '--', ...paths]);
+		} else {
+			await this.git.commit(message);
+		}
+	}
+
+	async revParse(revision: string): Promise<string | null> {
+		try {
+			return (await this.git.raw(['rev-parse', '--verify', '--quiet', `${revision}^{commit}`])).trim() || null;
+		} catch {
+			return null;
+		}
+	}
+
+	async show(revision: string, file: string): Promise<Buffer> {
+		// --textconv: arquivos criptografados chegam decifrados
+		return await this.git.showBuffer(['--textconv', `${revision}:${file}`]);
+	}
+
+	async log(query: LogQuery): Promise<LogEntry[]> {
+		const options: LogOptions & Record<string, string | number | null> = { maxCount: query.maxCount };
+		if (query.skip) {
+			options['--skip'] = query.skip;
+		}
+		if (query.author) {
+			options['--author'] = query.author;
+		}
+		if (query.since) {
+			options['--since'] = query.since;
+		}
+		if (query.until) {
+			options['--until'] = query.until;
+		}
+		if (query.path) {
+			options.file = query.path;
+		}
+		return [...(await this.git.log(options)).all];
+	}
+
+	async fetch(remote: string, branch: string): Promise<void> {
+		await this.git.fetch(remote, branch);
+	}
+
+	async pull(remote: string, branch: string, options: PullOptions): Promise<string[]> {
+		const args = [PULL_STRATEGY_ARGS[options.strategy]];
+		if (options.autostash) {
+			args.push('--autostash');
+		}
+		return (await this.git.pull(remote, branch, args)).files;
+	}
+
+	async push(remote: string, refspec: string, setUpstream = false): Promise<void> {
+		await this.git.push(remote, refspec, setUpstream ? ['--set-upstream'] : []);
+	}
+
+	async listRemote(url: string): Promise<RemoteRefs> {
+		const output = await this.git.raw(['ls-remote', '--symref', url, 'HEAD', 'refs/heads/*']);
+		const branches: string[] = [];
+		let head: string | null = null;
+		for (const line of output.split('\n')) {
+			const symref = line.match(/^ref: refs\/heads\/(.+)\tHEAD$/);
+			const ref = line.match(/^\w+\trefs\/heads\/(.+)$/);
+			if (symref?.[1]) {
+				head = symref[1];
+			} else if (ref?.[1]) {
+				branches.push(ref[1]);
+			}
+		}
+		return { head, branches };
+	}
+
+	async getRemotes(): Promise<RemoteInfo[]> {
+		return (await this.git.getRemotes(true)).map(remote => ({
+			name: remote.name,
+			fetchUrl: remote.refs.fetch,
+			pushUrl: remote.refs.push
+		}));
+	}
+
+	async addRemote(name: string, url: string): Promise<void> {
+		await this.git.addRemote(name, url);
+	}
+
+	async setRemoteUrl(name: string, url: string, push = false): Promise<void> {
+		await this.git.remote(push ? ['set-url', '--push', name, url] : ['set-url', name, url]);
+	}
+
+	async listBranches(): Promise<BranchList> {
+		const branches = await this.git.branchLocal();
+		return { current: branches.current || null, all: branches.all };
+	}
+
+	async checkout(branch: string, options: CheckoutOptions = {}): Promise<void> {
+		if (!options.create && !options.force) {
+			await this.git.checkout(branch);
+			return;
+		}
+		const args = ['checkout'];
+		if (options.force) {
+			args.push('-f');
+		}
+		args.push('-B', branch);
+		if (options.track) {
+			args.push('--track');
+		}
+		if (options.startPoint !== undefined) {
+			args.push(options.startPoint);
+		}
+		await this.git.raw(args);
+	}
+
+	async setUpstream(branch: string, remoteBranch: string): Promise<void> {
+		await this.git.raw(['branch', `--set-upstream-to=${remoteBranch}`, branch]);
+	}
+
+	async getMergeState(): Promise<MergeState> {
+		// Verificado pelos arquivos: o simple-git não rejeita saídas diferentes de zero sem stderr
+		// (`rev-parse --verify --quiet` sem MERGE_HEAD resolve com a saída vazia)
+		return {
+			merging: await this.gitPathExists('MERGE_HEAD'),
+			rebasing: await this.gitPathExists('rebase-merge') || await this.gitPathExists('rebase-apply')
+		};
+	}
+
+	private async gitPathExists(name: string): Promise<boolean> {
+		const gitPath = (await this.git.raw(['rev-parse', '--git-path', name])).trim();
+		return fs.existsSync(path.resolve(this.repoPath, gitPath));
+	}
+
+	async abortMerge(): Promise<void> {
+		await this.git.merge(['--abort']);
+	}
+}
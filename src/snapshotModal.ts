@@ -0,0 +1,37 @@
+import { App, SuggestModal } from 'obsidian';
+import MyPlugin from './main';
+import { SafetySnapshot } from './gitManager';
+import { t } from './i18n';
+
+/**
+ * Lista dos pontos de restauração recentes; escolher um pede confirmação e volta o vault a ele
+ */
+export class SnapshotModal extends SuggestModal<SafetySnapshot> {
+	plugin: MyPlugin;
+	private snapshots: SafetySnapshot[];
+
+	constructor(app: App, plugin: MyPlugin, snapshots: SafetySnapshot[]) {
+		super(app);
+		this.plugin = plugin;
+		this.snapshots = snapshots;
+		this.setPlaceholder(t('snapshot.placeholder'));
+	}
+
+	private describe(snapshot: SafetySnapshot): string {
+		return `${t(`snapshot.reason.${snapshot.reason}`)} · ${this.plugin.formatDate(snapshot.date)}`;
+	}
+
+	getSuggestions(query: string): SafetySnapshot[] {
+		const normalized = query.toLowerCase();
+		return this.snapshots.filter(snapshot => this.describe(snapshot).toLowerCase().includes(normalized));
+	}
+
+	renderSuggestion(snapshot: SafetySnapshot, el: HTMLElement) {
+		el.createDiv({ text: t(`snapshot.reason.${snapshot.reason}`) });
+		el.createEl('small', { text: `${this.plugin.formatDate(snapshot.date)} · ${snapshot.hash.substring(0, 7)}` });
+	}
+
+	onChooseSuggestion(snapshot: SafetySnapshot) {
+		void this.plugin.restoreSnapshot(snapshot);
+	}
+}
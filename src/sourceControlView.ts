@@ -0,0 +1,250 @@
+import { debounce, ItemView, Notice, setIcon, TFile, WorkspaceLeaf } from 'obsidian';
+import type { BackendStatus, StatusEntry } from './gitBackend';
+import MyPlugin from './main';
+import { describeChange } from './gitManager';
+import { failed, GitResult } from './gitResult';
+import { MessageKey, t } from './i18n';
+
+export const VIEW_TYPE_SOURCE_CONTROL = 'github-sync-source-control';
+
+type ChangeGroup = 'conflicted' | 'staged' | 'unstaged' | 'untracked';
+
+const GROUP_TITLES: Record<ChangeGroup, MessageKey> = {
+	conflicted: 'sourceControl.conflicted',
+	staged: 'sourceControl.staged',
+	unstaged: 'sourceControl.unstaged',
+	untracked: 'sourceControl.untracked'
+};
+
+/**
+ * Agrupa as entradas do `git status`; um arquivo pode aparecer em staged e unstaged ao mesmo tempo
+ */
+function groupChanges(status: BackendStatus): Record<ChangeGroup, StatusEntry[]> {
+	const groups: Record<ChangeGroup, StatusEntry[]> = { conflicted: [], staged: [], unstaged: [], untracked: [] };
+	for (const file of status.files) {
+		if (status.conflicted.includes(file.path)) {
+			groups.conflicted.push(file);
+			continue;
+		}
+		if (file.index === '?') {
+			groups.untracked.push(file);
+			continue;
+		}
+		if (file.index !== ' ') {
+			groups.staged.push(file);
+		}
+		if (file.working_dir !== ' ') {
+			groups.unstaged.push(file);
+		}
+	}
+	return groups;
+}
+
+/**
+ * Painel de controle de versão: stage/unstage por arquivo, descarte de alterações
+ * e commit/push apenas do que está staged
+ */
+export class SourceControlView extends ItemView {
+	plugin: MyPlugin;
+	private status: BackendStatus | null = null;
+	private message = '';
+	private requestRefresh = debounce(() => void this.refresh(), 1000, true);
+
+	constructor(leaf: WorkspaceLeaf, plugin: MyPlugin) {
+		super(leaf);
+		this.plugin = plugin;
+	}
+
+	getViewType(): string {
+		return VIEW_TYPE_SOURCE_CONTROL;
+	}
+
+	getDisplayText(): string {
+		return t('sourceControl.title');
+	}
+
+	getIcon(): string {
+		return 'git-commit-horizontal';
+	}
+
+	async onOpen() {
+		this.registerEvent(this.plugin.syncEngine.on('state-change', () => {
+			if (!this.plugin.syncEngine.isBusy) {
+				this.requestRefresh();
+			}
+		}));
+		this.registerEvent(this.app.vault.on('modify', () => this.requestRefresh()));
+		this.registerEvent(this.app.vault.on('create', () => this.requestRefresh()));
+		this.registerEvent(this.app.vault.on('delete', () => this.requestRefresh()));
+		this.registerEvent(this.app.vault.on('rename', () => this.requestRefresh()));
+		await this.refresh();
+	}
+
+	/**
+	 * Relê o status do repositório e redesenha o painel
+	 */
+	async refresh() {
+		const gitManager = this.plugin.gitManager;
+		this.status = gitManager
+			? await this.plugin.syncEngine.runExclusive(() => gitManager.getStatus())
+			: null;
+		this.render();
+	}
+
+	private render() {
+		const container = this.contentEl;
+		container.empty();
+		container.addClass('github-sync-source-control');
+
+		if (!this.status) {
+			container.createEl('p', { text: t('view.gitNotConfigured') });
+			return;
+		}
+
+		const messageEl = container.createEl('textarea', {
+			cls: 'github-sync-commit-message',
+			attr: { placeholder: t('sourceControl.messagePlaceholder'), rows: '3' }
+		});
+		messageEl.value = this.message;
+		messageEl.addEventListener('input', () => {
+			this.message = messageEl.value;
+		});
+
+		const groups = groupChanges(this.status);
+		const actions = container.createDiv({ cls: 'github-sync-conflict-actions' });
+		const commit = actions.createEl('button', { text: t('sourceControl.commit'), cls: 'mod-cta' });
+		commit.disabled = groups.staged.length === 0;
+		commit.addEventListener('click', () => void this.commitStaged(false));
+		const commitPush = actions.createEl('button', { text: t('sourceControl.commitAndPush') });
+		commitPush.disabled = groups.staged.length === 0;
+		commitPush.addEventListener('click', () => void this.commitStaged(true));
+		actions.createEl('button', { text: t('sourceControl.push') }).addEventListener('click', () => void this.push());
+
+		if (this.status.ahead > 0 || this.status.behind > 0) {
+			container.createDiv({
+				text: `↑${this.status.ahead} ↓${this.status.behind}`,
+				cls: 'github-sync-history-meta'
+			});
+		}
+
+		for (const group of Object.keys(GROUP_TITLES) as ChangeGroup[]) {
+			if (groups[group].length > 0) {
+				this.renderGroup(container, group, groups[group]);
+			}
+		}
+		if (this.status.files.length === 0) {
+			container.createEl('p', { text: t('sourceControl.noChanges') });
+		}
+	}
+
+	private renderGroup(container: HTMLElement, group: ChangeGroup, files: StatusEntry[]) {
+		const section = container.createDiv({ cls: 'github-sync-change-group' });
+		const header = section.createDiv({ cls: 'github-sync-change-group-header' });
+		header.createSpan({ text: `${t(GROUP_TITLES[group])} (${files.length})` });
+
+		// Ações em lote no cabeçalho do grupo
+		const paths = files.map(f => f.path);
+		if (group === 'staged') {
+			this.addIconButton(header, 'minus', t('sourceControl.unstageAll'), () => this.unstage(paths));
+		} else {
+			this.addIconButton(header, 'plus', t('sourceControl.stageAll'), () => this.stage(paths));
+		}
+
+		for (const file of files) {
+			const row = section.createDiv({ cls: 'github-sync-change' });
+			const code = group === 'staged' ? file.index : group === 'untracked' ? 'U' : file.working_dir;
+			row.createSpan({ text: code, cls: `github-sync-status github-sync-status-${code}` });
+			const name = row.createSpan({ text: file.from ? `${file.from} → ${file.path}` : file.path, cls: 'github-sync-change-path' });
+			name.addEventListener('click', () => this.openFile(file.path));
+
+			const buttons = row.createDiv({ cls: 'github-sync-change-actions' });
+			if (group === 'staged') {
+				this.addIconButton(buttons, 'minus', t('sourceControl.unstage'), () => this.unstage([file.path]));
+			} else {
+				if (group !== 'conflicted') {
+					this.addDiscardButton(buttons, file.path);
+				}
+				this.addIconButton(buttons, 'plus', t('sourceControl.stage'), () => this.stage([file.path]));
+			}
+		}
+	}
+
+	private addIconButton(parent: HTMLElement, icon: string, label: string, action: () => Promise<void>) {
+		const button = parent.createDiv({ cls: 'clickable-icon', attr: { 'aria-label': label } });
+		setIcon(button, icon);
+		button.addEventListener('click', (evt) => {
+			evt.stopPropagation();
+			void action();
+		});
+		return button;
+	}
+
+	private addDiscardButton(parent: HTMLElement, file: string) {
+		// Descartar é irreversível: o primeiro clique só arma a ação
+		let armed = false;
+		const button = this.addIconButton(parent, 'undo-2', t('sourceControl.discard'), async () => {
+			if (!armed) {
+				armed = true;
+				button.addClass('mod-warning');
+				button.setAttr('aria-label', t('sourceControl.discardConfirm'));
+				return;
+			}
+			await this.discard(file);
+		});
+	}
+
+	private openFile(filePath: string) {
+		const file = this.app.vault.getAbstractFileByPath(filePath);
+		if (file instanceof TFile) {
+			void this.app.workspace.getLeaf(false).openFile(file);
+		}
+	}
+
+	private async stage(files: string[]) {
+		await this.runGit(gitManager => gitManager.stageFiles(files), t('failure.stage'));
+	}
+
+	private async unstage(files: string[]) {
+		await this.runGit(gitManager => gitManager.unstageFiles(files), t('failure.unstage'));
+	}
+
+	private async discard(file: string) {
+		await this.runGit(gitManager => gitManager.discardChanges(file), t('failure.discard', { file }));
+	}
+
+	private async commitStaged(push: boolean) {
+		const staged = this.status ? groupChanges(this.status).staged.map(f => describeChange(f, true)) : [];
+		const message = this.message.trim() || this.plugin.getCommitMessage(staged);
+		const committed = await this.runGit(gitManager => gitManager.commitStaged(message), t('failure.commit'));
+		if (!committed.ok) {
+			return;
+		}
+		this.message = '';
+		if (push) {
+			await this.push();
+		} else {
+			new Notice(t('notice.commitComplete'));
+			await this.refresh();
+		}
+	}
+
+	private async push() {
+		// Lista vazia: o motor não faz commit de nada, só envia os commits existentes
+		const result = await this.plugin.syncEngine.request('push', 'Source control panel', []);
+		this.plugin.notifySyncResult(result, t('notice.pushComplete'));
+		await this.refresh();
+	}
+
+	private async runGit(operation: (gitManager: NonNullable<MyPlugin['gitManager']>) => Promise<GitResult>, errorMessage: string): Promise<GitResult> {
+		const gitManager = this.plugin.gitManager;
+		if (!gitManager) {
+			return failed('not-configured');
+		}
+		const result = await this.plugin.syncEngine.runExclusive(() => operation(gitManager));
+		if (!result.ok) {
+			this.plugin.notifyGitError(result.error, errorMessage);
+		}
+		await this.refresh();
+		return result;
+	}
+}
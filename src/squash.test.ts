@@ -0,0 +1,68 @@
+import { test } from 'node:test';
+import * as assert from 'node:assert';
+import type { UnpushedCommit } from './gitManager';
+import { planSquash, shouldDeferPush } from './squash';
+
+let sequence = 0;
+
+/**
+ * Commit ainda não enviado; `trigger` null é um commit manual
+ */
+function unpushed(date: string, trigger: string | null = 'interval', parents = 1): UnpushedCommit {
+	sequence++;
+	return {
+		hash: String(sequence).padStart(40, '0'),
+		parents: Array.from({ length: parents }, (_, i) => `parent-${sequence}-${i}`),
+		date: new Date(date),
+		trigger,
+		message: `commit ${sequence}`
+	};
+}
+
+function messages(groups: UnpushedCommit[][]): string[][] {
+	return groups.map(group => group.map(commit => commit.message));
+}
+
+void test('modo push agrupa todos os commits automáticos em um só', () => {
+	const commits = [unpushed('2026-03-01T09:10:00'), unpushed('2026-03-01T15:00:00'), unpushed('2026-03-02T08:00:00')];
+	assert.deepStrictEqual(messages(planSquash(commits, 'push')), [commits.map(commit => commit.message)]);
+	assert.deepStrictEqual(planSquash(commits, 'off'), []);
+});
+
+void test('modos hour e day agrupam por janela de tempo', () => {
+	const commits = [
+		unpushed('2026-03-01T09:10:00'),
+		unpushed('2026-03-01T09:50:00'),
+		unpushed('2026-03-01T10:05:00'),
+		unpushed('2026-03-02T08:00:00')
+	];
+	const [a, b, c, d] = commits.map(commit => commit.message);
+	assert.deepStrictEqual(messages(planSquash(commits, 'hour')), [[a, b], [c], [d]]);
+	assert.deepStrictEqual(messages(planSquash(commits, 'day')), [[a, b, c], [d]]);
+});
+
+void test('commits manuais e merges não são reescritos nem os anteriores a eles', () => {
+	const before = unpushed('2026-03-01T09:00:00');
+	const manual = unpushed('2026-03-01T09:05:00', null);
+	const after = [unpushed('2026-03-01T09:10:00'), unpushed('2026-03-01T09:20:00')];
+	assert.deepStrictEqual(messages(planSquash([before, manual, ...after], 'hour')), [after.map(commit => commit.message)]);
+
+	const merge = unpushed('2026-03-01T09:30:00', 'interval', 2);
+	assert.deepStrictEqual(planSquash([...after, merge], 'push'), []);
+});
+
+void test('push automático é adiado só enquanto a janela atual não termina', () => {
+	const now = new Date('2026-03-01T09:40:00');
+	const current = [unpushed('2026-03-01T09:10:00'), unpushed('2026-03-01T09:30:00')];
+	assert.strictEqual(shouldDeferPush(current, 'hour', now), true);
+	assert.strictEqual(shouldDeferPush(current, 'day', now), true);
+	assert.strictEqual(shouldDeferPush(current, 'push', now), false);
+	assert.strictEqual(shouldDeferPush(current, 'off', now), false);
+
+	// Janela anterior já terminou: o push sai agora
+	assert.strictEqual(shouldDeferPush(current, 'hour', new Date('2026-03-01T10:01:00')), false);
+	assert.strictEqual(shouldDeferPush(current, 'day', new Date('2026-03-01T23:59:00')), true);
+	assert.strictEqual(shouldDeferPush(current, 'day', new Date('2026-03-02T00:01:00')), false);
+	// Commit manual pendente também é enviado logo
+	assert.strictEqual(shouldDeferPush([...current, unpushed('2026-03-01T09:35:00', null)], 'hour', now), false);
+});
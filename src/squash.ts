@@ -0,0 +1,65 @@
+import { moment } from 'obsidian';
+import { UnpushedCommit } from './gitManager';
+
+/**
+ * off: cada sincronização automática vira um commit; push: agrupa os commits automáticos antes de cada push;
+ * hour/day: além disso, adia o push automático até a janela de tempo terminar (um commit por janela)
+ */
+export type SquashMode = 'off' | 'push' | 'hour' | 'day';
+
+/**
+ * Janela de tempo de um commit (commits na mesma janela são agrupados)
+ */
+function windowKey(date: Date, mode: SquashMode): string {
+	switch (mode) {
+		case 'hour':
+			return moment(date).format('YYYY-MM-DD HH');
+		case 'day':
+			return moment(date).format('YYYY-MM-DD');
+		default:
+			return '';
+	}
+}
+
+/**
+ * Divide em janelas a sequência de commits automáticos no topo do histórico ainda não enviado.
+ * Commits manuais e merges encerram a sequência e nunca são reescritos.
+ */
+export function planSquash(commits: UnpushedCommit[], mode: SquashMode): UnpushedCommit[][] {
+	if (mode === 'off') {
+		return [];
+	}
+	let start = commits.length;
+	while (start > 0) {
+		const commit = commits[start - 1];
+		if (!commit?.trigger || commit.parents.length !== 1) {
+			break;
+		}
+		start--;
+	}
+
+	const groups: UnpushedCommit[][] = [];
+	let lastKey: string | null = null;
+	for (const commit of commits.slice(start)) {
+		const key = windowKey(commit.date, mode);
+		const current = groups[groups.length - 1];
+		if (current && key === lastKey) {
+			current.push(commit);
+		} else {
+			groups.push([commit]);
+		}
+		lastKey = key;
+	}
+	return groups;
+}
+
+/**
+ * Nos modos por janela, o push automático espera enquanto só houver commits automáticos da janela atual
+ */
+export function shouldDeferPush(commits: UnpushedCommit[], mode: SquashMode, now: Date = new Date()): boolean {
+	if (mode !== 'hour' && mode !== 'day') {
+		return false;
+	}
+	const current = windowKey(now, mode);
+	return commits.every(commit => commit.trigger !== null && windowKey(commit.date, mode) === current);
+}
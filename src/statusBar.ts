@@ -0,0 +1,130 @@
+import { Menu, moment } from 'obsidian';
+import MyPlugin from './main';
+import { SyncState } from './syncEngine';
+import { MessageKey, t } from './i18n';
+
+const STATE_LABELS: Record<SyncState, MessageKey> = {
+	idle: 'status.idle',
+	pulling: 'status.pulling',
+	committing: 'status.committing',
+	pushing: 'status.pushing',
+	conflicted: 'status.conflicted',
+	error: 'status.error',
+	offline: 'status.offline'
+};
+
+// Intervalo de atualização do tempo relativo e da contagem de alterações
+const REFRESH_INTERVAL_MS = 30 * 1000;
+
+interface StatusInfo {
+	aheadBy: number;
+	behindBy: number;
+	uncommittedCount: number;
+}
+
+/**
+ * Item da barra de status com o estado da sincronização, commits à frente/atrás,
+ * alterações não commitadas e o horário da última sincronização
+ */
+export class SyncStatusBar {
+	private plugin: MyPlugin;
+	private el: HTMLElement;
+	private info: StatusInfo | null = null;
+
+	constructor(plugin: MyPlugin, el: HTMLElement) {
+		this.plugin = plugin;
+		this.el = el;
+	}
+
+	load() {
+		this.el.addClass('mod-clickable');
+		this.el.addEventListener('click', (evt) => void this.openMenu(evt));
+
+		this.plugin.registerEvent(this.plugin.syncEngine.on('state-change', () => {
+			this.render();
+			if (!this.plugin.syncEngine.isBusy) {
+				void this.refresh();
+			}
+		}));
+		this.plugin.registerInterval(window.setInterval(() => void this.refresh(), REFRESH_INTERVAL_MS));
+
+		this.render();
+
+		// Mostrar conflitos pendentes de uma sessão anterior logo ao abrir o vault
+		this.plugin.app.workspace.onLayoutReady(() => {
+			if (this.plugin.settings.githubRepoUrl) {
+				void this.plugin.syncEngine.refreshState();
+			}
+		});
+	}
+
+	/**
+	 * Atualiza os contadores a partir do repositório (sem competir com uma sincronização em andamento)
+	 */
+	async refresh() {
+		const engine = this.plugin.syncEngine;
+		const gitManager = this.plugin.gitManager;
+		if (gitManager && !engine.isBusy) {
+			this.info = await engine.runExclusive(() => gitManager.getSyncInfo());
+		}
+		this.render();
+	}
+
+	private render() {
+		const engine = this.plugin.syncEngine;
+		const parts = [`GitHub Sync: ${t(STATE_LABELS[engine.state])}`];
+
+		if (this.info) {
+			parts.push(`↑${this.info.aheadBy} ↓${this.info.behindBy}`);
+			if (this.info.uncommittedCount > 0) {
+				parts.push(t('status.changes', { count: this.info.uncommittedCount }));
+			}
+		}
+		if (engine.lastSyncTime > 0) {
+			parts.push(moment(engine.lastSyncTime).fromNow());
+		}
+		if (engine.state === 'offline' && engine.nextRetryAt > Date.now()) {
+			parts.push(t('status.retry', { time: moment(engine.nextRetryAt).fromNow() }));
+		}
+
+		this.el.setText(parts.join(' · '));
+		this.el.setAttr('aria-label', engine.lastError ? this.plugin.describeGitError(engine.lastError) : t('status.tooltip'));
+		this.el.toggleClass('github-sync-status-error', engine.state === 'error' || engine.state === 'conflicted');
+	}
+
+	private async openMenu(evt: MouseEvent) {
+		const plugin = this.plugin;
+		const menu = new Menu();
+		const gitManager = plugin.gitManager;
+		const rebasing = plugin.syncEngine.state === 'conflicted' && gitManager
+			? await gitManager.isRebaseInProgress()
+			: false;
+
+		menu.addItem(item => item
+			.setTitle(t('command.sync'))
+			.setIcon('refresh-cw')
+			.onClick(() => void plugin.performSync('Manual sync via status bar')));
+		menu.addItem(item => item
+			.setTitle(t('command.pull'))
+			.setIcon('download')
+			.onClick(() => void plugin.pullNow()));
+		menu.addItem(item => item
+			.setTitle(t('command.push'))
+			.setIcon('upload')
+			.onClick(() => void plugin.pushNow()));
+
+		if (plugin.syncEngine.state === 'conflicted') {
+			menu.addSeparator();
+			menu.addItem(item => item
+				.setTitle(t('command.resolveConflicts'))
+				.setIcon('git-merge')
+				.onClick(() => void plugin.openConflicts()));
+			menu.addItem(item => item
+				.setTitle(t(rebasing ? 'command.abortRebase' : 'command.abortMerge'))
+				.setIcon('x-circle')
+				.onClick(() => void (rebasing ? plugin.abortRebase() : plugin.abortMerge())));
+		}
+
+		menu.showAtMouseEvent(evt);
+	}
+}
@@ -0,0 +1,306 @@
+import { EventRef, Events } from 'obsidian';
+import { CommitFileChange, GitManager, UnpushedCommit } from './gitManager';
+import { failed, GitError, GitResult, succeeded } from './gitResult';
+import { planSquash, shouldDeferPush, SquashMode } from './squash';
+
+export type SyncState = 'idle' | 'pulling' | 'committing' | 'pushing' | 'conflicted' | 'error' | 'offline';
+
+export type SyncJobType = 'sync' | 'pull' | 'push';
+
+// O que disparou a sincronização; tudo que não é 'manual' é automático
+export type SyncTrigger = 'manual' | 'open' | 'save' | 'interval' | 'retry';
+
+const AUTOMATIC_TRIGGERS: SyncTrigger[] = ['open', 'save', 'interval', 'retry'];
+
+/**
+ * O que o motor precisa do plugin: o GitManager (inicializado sob demanda) e a mensagem de commit
+ */
+export interface SyncHost {
+	getGitManager(): Promise<GitManager | null>;
+	getCommitMessage(changes: CommitFileChange[], trigger: SyncTrigger, date?: Date): string;
+	// Como agrupar os commits automáticos antes do push
+	getSquashMode(): SquashMode;
+	// Última chance de barrar um commit (ex.: arquivos grandes sem LFS, exclusões em massa)
+	confirmCommit(gitManager: GitManager, changes: CommitFileChange[], trigger: SyncTrigger): Promise<boolean>;
+	// Última chance de barrar um pull (ex.: exclusões em massa vindas do remote)
+	confirmPull(gitManager: GitManager, trigger: SyncTrigger): Promise<boolean>;
+}
+
+interface PendingJob {
+	type: SyncJobType;
+	sources: string[];
+	// undefined = todas as alterações
+	files: string[] | undefined;
+	// Pedidos automáticos (não 'manual') respeitam a espera entre tentativas
+	trigger: SyncTrigger;
+	waiters: Array<(result: GitResult) => void>;
+}
+
+// Espera entre tentativas sem conexão: dobra a cada falha de rede, até o máximo
+const RETRY_BASE_MS = 30 * 1000;
+const RETRY_MAX_MS = 30 * 60 * 1000;
+
+/**
+ * Coordenador único de sincronização: enfileira e agrupa pedidos, garante que
+ * nunca rodem duas operações git ao mesmo tempo e expõe o estado atual
+ */
+export class SyncEngine extends Events {
+	state: SyncState = 'idle';
+	lastError: GitError | null = null;
+	lastSyncTime: number = 0;
+	// Horário da próxima tentativa automática depois de uma falha de rede (0 = nenhuma agendada)
+	nextRetryAt: number = 0;
+
+	private host: SyncHost;
+	private retryAttempt = 0;
+	private retryTimer: number | null = null;
+	private pending: PendingJob | null = null;
+	private draining = false;
+	private lock: Promise<unknown> = Promise.resolve();
+
+	constructor(host: SyncHost) {
+		super();
+		this.host = host;
+	}
+
+	on(name: 'state-change', callback: (state: SyncState) => void, ctx?: unknown): EventRef;
+	// Resultado de cada sincronização, para a interface e outros plugins reagirem
+	on(name: 'sync-complete', callback: (result: GitResult, sources: string[]) => void, ctx?: unknown): EventRef;
+	on(name: string, callback: (...data: never[]) => unknown, ctx?: unknown): EventRef {
+		return super.on(name, callback as (...data: unknown[]) => unknown, ctx);
+	}
+
+	get isBusy(): boolean {
+		return this.state === 'pulling' || this.state === 'committing' || this.state === 'pushing';
+	}
+
+	/**
+	 * Pede uma sincronização. Pedidos feitos enquanto outra roda são agrupados em
+	 * um único job pendente; a promessa resolve com o resultado do job que o cobre.
+	 */
+	request(type: SyncJobType, source: string, files?: string[], trigger: SyncTrigger = 'manual'): Promise<GitResult> {
+		return new Promise(resolve => {
+			if (this.pending) {
+				const pending = this.pending;
+				// pull + push (ou qualquer combinação com sync) vira uma sincronização completa
+				if (pending.type !== type) {
+					pending.type = 'sync';
+				}
+				pending.sources.push(source);
+				pending.files = pending.files && files ? [...new Set([...pending.files, ...files])] : undefined;
+				if (trigger === 'manual') {
+					pending.trigger = 'manual';
+				}
+				pending.waiters.push(resolve);
+			} else {
+				this.pending = { type, sources: [source], files, trigger, waiters: [resolve] };
+			}
+			void this.drain();
+		});
+	}
+
+	/**
+	 * Executa uma operação git com exclusão mútua em relação às sincronizações
+	 */
+	runExclusive<T>(operation: () => Promise<T>): Promise<T> {
+		const run = this.lock.then(operation);
+		this.lock = run.catch(() => undefined);
+		return run;
+	}
+
+	/**
+	 * Recalcula o estado a partir do repositório (ex.: depois de resolver conflitos fora do motor)
+	 */
+	async refreshState(): Promise<void> {
+		const gitManager = await this.host.getGitManager();
+		if (!gitManager || this.isBusy) {
+			return;
+		}
+		const conflicted = await gitManager.hasConflicts();
+		if (conflicted) {
+			this.setState('conflicted');
+		} else if (this.state !== 'offline') {
+			this.setState('idle');
+		}
+	}
+
+	/**
+	 * Tenta de novo imediatamente (ex.: quando o sistema avisa que a conexão voltou)
+	 */
+	retryNow(): void {
+		if (this.state !== 'offline' && this.retryTimer === null) {
+			return;
+		}
+		this.clearRetry();
+		void this.request('sync', 'Connection restored', undefined, 'retry');
+	}
+
+	/**
+	 * Cancela a tentativa agendada (ao descarregar o plugin)
+	 */
+	stop(): void {
+		this.clearRetry();
+	}
+
+	private clearRetry() {
+		if (this.retryTimer !== null) {
+			window.clearTimeout(this.retryTimer);
+			this.retryTimer = null;
+		}
+		this.nextRetryAt = 0;
+	}
+
+	/**
+	 * Entra no modo offline. Se a rede foi de fato tentada, a próxima tentativa fica mais espaçada.
+	 */
+	private goOffline(networkAttempted: boolean, error: GitError) {
+		if (networkAttempted || this.retryTimer === null) {
+			const delay = Math.min(RETRY_BASE_MS * 2 ** this.retryAttempt, RETRY_MAX_MS);
+			if (networkAttempted) {
+				this.retryAttempt++;
+			}
+			if (this.retryTimer !== null) {
+				window.clearTimeout(this.retryTimer);
+			}
+			this.nextRetryAt = Date.now() + delay;
+			this.retryTimer = window.setTimeout(() => {
+				this.retryTimer = null;
+				this.nextRetryAt = 0;
+				void this.request('sync', 'Retry after network failure', undefined, 'retry');
+			}, delay);
+		}
+		this.setState('offline', error);
+	}
+
+	private setState(state: SyncState, error: GitError | null = null) {
+		this.lastError = error;
+		this.state = state;
+		this.trigger('state-change', state);
+	}
+
+	private async drain() {
+		if (this.draining) {
+			return;
+		}
+		this.draining = true;
+		try {
+			while (this.pending) {
+				const job = this.pending;
+				this.pending = null;
+				let result: GitResult;
+				try {
+					result = await this.runExclusive(() => this.execute(job));
+				} catch (error) {
+					console.error(`Erro ao sincronizar (${job.sources.join(', ')}):`, error);
+					result = this.fail('error', failed('unknown', error instanceof Error ? error.message : String(error)));
+				}
+				this.trigger('sync-complete', result, job.sources);
+				job.waiters.forEach(resolve => resolve(result));
+			}
+		} finally {
+			this.draining = false;
+		}
+	}
+
+	private async execute(job: PendingJob): Promise<GitResult> {
+		const gitManager = await this.host.getGitManager();
+		if (!gitManager) {
+			return this.fail('error', failed('not-configured'));
+		}
+
+		// Nunca sincronizar por cima de um merge com conflitos pendentes
+		const conflicted = await gitManager.getConflictedFiles();
+		if (conflicted.length > 0) {
+			const code = await gitManager.isRebaseInProgress() ? 'rebase-in-progress' : 'merge-in-progress';
+			return this.fail('conflicted', failed(code, 'Conflitos pendentes', conflicted));
+		}
+
+		// Sem conexão (ou aguardando a próxima tentativa, em pedidos automáticos) o commit continua
+		// sendo feito localmente e o push fica pendente
+		let offline: GitError | null = !navigator.onLine || (job.trigger !== 'manual' && Date.now() < this.nextRetryAt)
+			? { code: 'network', details: 'Sem conexão', files: [] }
+			: null;
+		let networkAttempted = false;
+		let warning: GitError | undefined;
+		let committedFiles: string[] = [];
+
+		console.debug(`[${job.sources.join(', ')}] Iniciando ${job.type}${offline ? ' (offline)' : ''}...`);
+
+		if (job.type !== 'push' && !offline) {
+			this.setState('pulling');
+			networkAttempted = true;
+			if (!(await this.host.confirmPull(gitManager, job.trigger))) {
+				return this.fail('error', failed('cancelled', 'Pull cancelado'));
+			}
+			const pulled = await gitManager.pull();
+			if (!pulled.ok && pulled.error.code === 'network') {
+				offline = pulled.error;
+			} else if (!pulled.ok) {
+				return this.fail(pulled.error.code === 'conflict' ? 'conflicted' : 'error', pulled);
+			} else {
+				warning = pulled.warning;
+			}
+		}
+
+		if (job.type !== 'pull') {
+			this.setState('committing');
+			const changes = await gitManager.getChanges(job.files);
+			const files = changes.map(change => change.path);
+			if (files.length > 0 && !(await this.host.confirmCommit(gitManager, changes, job.trigger))) {
+				return this.fail('error', failed('cancelled', 'Commit cancelado', files));
+			}
+			const message = this.host.getCommitMessage(changes, job.trigger);
+			const committed = await gitManager.commit(message, files, job.trigger === 'manual' ? undefined : job.trigger);
+			if (!committed.ok) {
+				return this.fail('error', committed);
+			}
+			committedFiles = committed.files;
+
+			const squashMode = this.host.getSquashMode();
+			const unpushed = !offline && squashMode !== 'off' ? await gitManager.getUnpushedCommits() : [];
+			if (!offline && job.trigger !== 'manual' && shouldDeferPush(unpushed, squashMode)) {
+				console.debug(`[${job.sources.join(', ')}] Push adiado até o fim da janela de agrupamento`);
+			} else if (!offline) {
+				await this.squash(gitManager, unpushed, squashMode);
+				this.setState('pushing');
+				networkAttempted = true;
+				const pushed = await gitManager.push();
+				if (!pushed.ok && pushed.error.code === 'network') {
+					offline = pushed.error;
+				} else if (!pushed.ok) {
+					return this.fail('error', pushed);
+				}
+			}
+		}
+
+		if (offline) {
+			this.goOffline(networkAttempted, offline);
+			return { ok: false, error: { ...offline, files: committedFiles } };
+		}
+
+		this.retryAttempt = 0;
+		this.clearRetry();
+		this.lastSyncTime = Date.now();
+		this.setState('idle');
+		return succeeded(committedFiles, warning);
+	}
+
+	/**
+	 * Junta os commits automáticos ainda não enviados; se falhar, o push segue com o histórico original
+	 */
+	private async squash(gitManager: GitManager, commits: UnpushedCommit[], mode: SquashMode) {
+		const groups = planSquash(commits, mode);
+		const squashed = await gitManager.squashCommits(groups, (changes, tip) => {
+			const trigger = AUTOMATIC_TRIGGERS.find(value => value === tip.trigger) ?? 'save';
+			return this.host.getCommitMessage(changes, trigger, tip.date);
+		});
+		if (!squashed.ok) {
+			console.warn('Commits automáticos não foram agrupados:', squashed.error.details);
+		}
+	}
+
+	private fail(state: 'error' | 'conflicted', result: GitResult): GitResult {
+		this.setState(state, result.ok ? null : result.error);
+		return result;
+	}
+}
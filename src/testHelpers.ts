@@ -0,0 +1,93 @@
+/**
+ * Utilitários comuns dos testes: pastas temporárias, o git do sistema e um VaultFs sobre o disco
+ * (no lugar do adapter do Obsidian usado pelo backend JavaScript).
+ */
+import { Buffer } from 'buffer';
+import { execFileSync, spawnSync } from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import process from 'process';
+import { toArrayBuffer, VaultFs } from './gitObjects';
+import type { HttpTransport } from './gitProtocol';
+
+export const GIT_ENV = {
+	...process.env,
+	GIT_CONFIG_NOSYSTEM: '1',
+	GIT_AUTHOR_NAME: 'Test',
+	GIT_AUTHOR_EMAIL: 'test@example.com',
+	GIT_COMMITTER_NAME: 'Test',
+	GIT_COMMITTER_EMAIL: 'test@example.com'
+};
+
+/**
+ * Pasta temporária apagada ao final do processo de testes
+ */
+export function tempDir(prefix: string): string {
+	const dir = fs.mkdtempSync(path.join(os.tmpdir(), prefix));
+	process.on('exit', () => fs.rmSync(dir, { recursive: true, force: true }));
+	return dir;
+}
+
+export function git(cwd: string, ...args: string[]): string {
+	return execFileSync('git', args, { cwd, env: GIT_ENV, encoding: 'utf8' }).trim();
+}
+
+/**
+ * VaultFs com caminhos relativos a `root`, no formato do adapter (listagens com o caminho completo)
+ */
+export function nodeVaultFs(root: string): VaultFs {
+	const resolve = (file: string) => path.join(root, file);
+	const relative = (dir: string, name: string) => dir ? `${dir}/${name}` : name;
+	return {
+		exists: file => Promise.resolve(fs.existsSync(resolve(file))),
+		stat: file => {
+			if (!fs.existsSync(resolve(file))) {
+				return Promise.resolve(null);
+			}
+			const stat = fs.statSync(resolve(file));
+			return Promise.resolve({ type: stat.isDirectory() ? 'folder' : 'file', ctime: stat.ctimeMs, mtime: stat.mtimeMs, size: stat.size });
+		},
+		list: dir => {
+			const entries = fs.readdirSync(resolve(dir), { withFileTypes: true });
+			return Promise.resolve({
+				files: entries.filter(entry => !entry.isDirectory()).map(entry => relative(dir, entry.name)),
+				folders: entries.filter(entry => entry.isDirectory()).map(entry => relative(dir, entry.name))
+			});
+		},
+		readBinary: file => Promise.resolve(toArrayBuffer(fs.readFileSync(resolve(file)))),
+		writeBinary: (file, data) => Promise.resolve(fs.writeFileSync(resolve(file), new Uint8Array(data))),
+		mkdir: dir => Promise.resolve(void fs.mkdirSync(resolve(dir), { recursive: true })),
+		remove: file => Promise.resolve(fs.rmSync(resolve(file))),
+		rmdir: (dir, recursive) => Promise.resolve(fs.rmSync(resolve(dir), { recursive }))
+	};
+}
+
+/**
+ * Transporte atendido pelo `git http-backend` (o CGI do git): os repositórios de `projectRoot`
+ * ficam em https://example.com/<caminho>
+ */
+export function httpBackendTransport(projectRoot: string): HttpTransport {
+	return request => {
+		const url = new URL(request.url);
+		const body = request.body ? Buffer.from(request.body) : Buffer.alloc(0);
+		const result = spawnSync('git', ['http-backend'], {
+			input: body,
+			env: {
+				...GIT_ENV,
+				GIT_PROJECT_ROOT: projectRoot,
+				GIT_HTTP_EXPORT_ALL: '1',
+				// Com um usuário autenticado o http-backend também aceita push
+				REMOTE_USER: 'test',
+				REQUEST_METHOD: request.method,
+				PATH_INFO: decodeURIComponent(url.pathname),
+				QUERY_STRING: url.search.slice(1),
+				CONTENT_TYPE: request.headers['Content-Type'] ?? '',
+				CONTENT_LENGTH: String(body.length)
+			}
+		});
+		const separator = result.stdout.indexOf('\r\n\r\n');
+		const status = Number(result.stdout.toString('latin1', 0, separator).match(/^Status: (\d+)/m)?.[1] ?? 200);
+		return Promise.resolve({ status, body: toArrayBuffer(result.stdout.subarray(separator + 4)) });
+	};
+}